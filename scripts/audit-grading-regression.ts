@@ -0,0 +1,454 @@
+#!/usr/bin/env npx tsx
+/**
+ * Offline regression harness for typed answer grading.
+ *
+ * Runs a golden set of typed answers (scripts/golden/typed-answers.json) through
+ * the full evaluation tier chain (evaluateTypedAnswer: exact match, conjugation
+ * engine, fuzzy logic, Semantic API, error taxonomy) and compares each verdict
+ * with the teacher's expected verdict and score band. Use it after changing
+ * thresholds (feature-flags.ts), normalization (writing-questions.ts) or the
+ * grader prompt to see what moved.
+ *
+ * No network: the Semantic API is replaced by recorded verdicts
+ * (scripts/golden/recordings.json, keyed by model + prompt), falling back to the
+ * item's mockVerdict. A prompt change makes recordings miss; re-record them with
+ * --record (the only mode that calls the API). Second opinions are disabled and
+ * the evaluation cache isn't used.
+ *
+ * Reports precision/recall per tier and per difficulty ("correct" is the positive
+ * class: a false accept lowers precision, a false reject lowers recall), then
+ * diffs against the saved baseline. Exits with 1 if a verdict or score band that
+ * matched the expectation in the baseline no longer does.
+ *
+ * Golden item format:
+ *   {
+ *     "id": "fuzzy-typo-beginner",
+ *     "question": "Translate: I am eating an apple.",
+ *     "questionType": "translation",         // writing type, or fill_in_blank
+ *     "difficulty": "beginner",
+ *     "correctAnswer": "Je mange une pomme.", // null for open-ended
+ *     "acceptableVariations": [],             // optional
+ *     "userAnswer": "Je mange une pome.",
+ *     "expected": { "isCorrect": true, "score": [85, 99] },  // score band optional
+ *     "mockVerdict": { ... },                 // optional Semantic API verdict (tool input)
+ *     "note": "..."                           // optional
+ *   }
+ *
+ * Usage:
+ *   npx tsx scripts/audit-grading-regression.ts [options]
+ *
+ * Options:
+ *   --dataset <path>          Golden set (default: scripts/golden/typed-answers.json)
+ *   --recordings <path>       Recorded verdicts (default: scripts/golden/recordings.json)
+ *   --baseline <path>         Baseline results (default: scripts/golden/baseline.json)
+ *   --save-baseline           Write this run's results as the new baseline
+ *   --record                  Call the Semantic API for missing recordings and save them
+ *   --score-tolerance <n>     Score change reported in the diff (default: 5)
+ *   --verbose                 Show the tier chain's logs
+ *   --help, -h                Show this help
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+
+// Offline unless recording: only --record loads credentials
+if (process.argv.includes('--record')) {
+  config({ path: resolve(__dirname, '../.env.local') });
+}
+// Second opinions would call another provider
+process.env.SECOND_OPINION_CONFIDENCE_THRESHOLD = '0';
+
+import { createHash } from 'crypto';
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import {
+  EVALUATOR_MODEL,
+  EVALUATOR_VERSION,
+  claudeSemanticGrader,
+  evaluateTypedAnswer,
+  setSemanticGrader,
+  type EvaluationResult,
+} from '../src/lib/answer-evaluation';
+import type { EvaluationPolicyOverride } from '../src/lib/evaluation-policy';
+
+interface GoldenItem {
+  id: string;
+  question: string;
+  questionType: string;
+  difficulty: string;
+  correctAnswer: string | null;
+  acceptableVariations?: string[];
+  /** Question's evaluation policy override (see evaluation-policy.ts) */
+  evaluationPolicy?: EvaluationPolicyOverride;
+  userAnswer: string;
+  expected: {
+    isCorrect: boolean;
+    score?: [number, number];
+  };
+  mockVerdict?: unknown;
+  note?: string;
+}
+
+interface GoldenDataset {
+  description?: string;
+  items: GoldenItem[];
+}
+
+interface Recording {
+  itemId: string;
+  evaluatorVersion: string;
+  verdict: unknown;
+}
+
+type Recordings = Record<string, Recording>;
+
+/** Where the Semantic API verdict for an item came from */
+type VerdictSource = 'none' | 'recording' | 'mock' | 'live' | 'missing';
+
+interface ItemResult {
+  id: string;
+  difficulty: string;
+  tier: string;
+  isCorrect: boolean;
+  score: number;
+  verdictMatches: boolean;
+  scoreInBand: boolean;
+  source: VerdictSource;
+}
+
+interface Baseline {
+  generatedAt: string;
+  evaluatorVersion: string;
+  results: Record<string, Omit<ItemResult, 'id' | 'difficulty' | 'source'>>;
+}
+
+interface ConfusionCounts {
+  truePositive: number;   // correct answer accepted
+  falsePositive: number;  // wrong answer accepted (false accept)
+  falseNegative: number;  // correct answer rejected (false reject)
+  trueNegative: number;   // wrong answer rejected
+  outOfBand: number;      // score outside the expected band
+}
+
+// ─── CLI ─────────────────────────────────────────────────────────────────────
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    datasetPath: 'scripts/golden/typed-answers.json',
+    recordingsPath: 'scripts/golden/recordings.json',
+    baselinePath: 'scripts/golden/baseline.json',
+    saveBaseline: false,
+    record: false,
+    scoreTolerance: 5,
+    verbose: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--dataset':
+        options.datasetPath = args[++i];
+        break;
+      case '--recordings':
+        options.recordingsPath = args[++i];
+        break;
+      case '--baseline':
+        options.baselinePath = args[++i];
+        break;
+      case '--save-baseline':
+        options.saveBaseline = true;
+        break;
+      case '--record':
+        options.record = true;
+        break;
+      case '--score-tolerance':
+        options.scoreTolerance = Number(args[++i]);
+        break;
+      case '--verbose':
+        options.verbose = true;
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+Grading Regression Harness (offline)
+
+Usage: npx tsx scripts/audit-grading-regression.ts [options]
+
+Options:
+  --dataset <path>          Golden set (default: scripts/golden/typed-answers.json)
+  --recordings <path>       Recorded verdicts (default: scripts/golden/recordings.json)
+  --baseline <path>         Baseline results (default: scripts/golden/baseline.json)
+  --save-baseline           Write this run's results as the new baseline
+  --record                  Call the Semantic API for missing recordings and save them
+  --score-tolerance <n>     Score change reported in the diff (default: 5)
+  --verbose                 Show the tier chain's logs
+  --help, -h                Show this help
+`);
+        process.exit(0);
+      default:
+        console.error(`Unknown option: ${args[i]}`);
+        process.exit(1);
+    }
+  }
+
+  if (!Number.isFinite(options.scoreTolerance) || options.scoreTolerance < 0) {
+    console.error('--score-tolerance must be a non-negative number');
+    process.exit(1);
+  }
+
+  if (options.record && !process.env.ANTHROPIC_API_KEY) {
+    console.error('❌ --record needs ANTHROPIC_API_KEY (in .env.local)');
+    process.exit(1);
+  }
+
+  return options;
+}
+
+function readJson<T>(path: string, fallback: T): T {
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf-8')) as T : fallback;
+}
+
+function recordingKey(prompt: string): string {
+  return createHash('sha256').update(`${EVALUATOR_MODEL}\n${prompt}`).digest('hex');
+}
+
+/**
+ * Run fn with the tier chain's console output silenced
+ */
+async function quietly<T>(verbose: boolean, fn: () => Promise<T>): Promise<T> {
+  if (verbose) return fn();
+  const { log, warn, error } = console;
+  console.log = console.warn = console.error = () => {};
+  try {
+    return await fn();
+  } finally {
+    Object.assign(console, { log, warn, error });
+  }
+}
+
+// ─── Evaluation ──────────────────────────────────────────────────────────────
+
+async function evaluateItem(
+  item: GoldenItem,
+  recordings: Recordings,
+  options: ReturnType<typeof parseArgs>
+): Promise<ItemResult> {
+  let source: VerdictSource = 'none';
+
+  setSemanticGrader(async (prompt, _onToolInput, outputSchema) => {
+    const key = recordingKey(prompt);
+    const recording = recordings[key];
+    if (recording) {
+      source = 'recording';
+      return recording.verdict;
+    }
+
+    if (options.record) {
+      const verdict = await claudeSemanticGrader(prompt, undefined, outputSchema);
+      recordings[key] = { itemId: item.id, evaluatorVersion: EVALUATOR_VERSION, verdict };
+      source = 'live';
+      return verdict;
+    }
+
+    if (item.mockVerdict !== undefined) {
+      source = 'mock';
+      return item.mockVerdict;
+    }
+
+    // Unusable verdict: graded provisionally, excluded from the metrics below
+    source = 'missing';
+    return null;
+  });
+
+  const evaluation: EvaluationResult = await quietly(options.verbose, () => evaluateTypedAnswer({
+    question: item.question,
+    userAnswer: item.userAnswer,
+    correctAnswer: item.correctAnswer,
+    questionType: item.questionType,
+    difficulty: item.difficulty,
+    acceptableVariations: item.acceptableVariations ?? [],
+    evaluationPolicy: item.evaluationPolicy,
+    includeSuperuserMetadata: true,
+  }));
+
+  const score = Math.round(evaluation.score);
+  const band = item.expected.score;
+
+  return {
+    id: item.id,
+    difficulty: item.difficulty,
+    tier: evaluation.metadata?.evaluationTier ?? 'unknown',
+    isCorrect: evaluation.isCorrect,
+    score,
+    verdictMatches: evaluation.isCorrect === item.expected.isCorrect,
+    scoreInBand: !band || (score >= band[0] && score <= band[1]),
+    source,
+  };
+}
+
+// ─── Report ──────────────────────────────────────────────────────────────────
+
+function countOutcomes(results: ItemResult[], expected: Map<string, boolean>): ConfusionCounts {
+  const counts: ConfusionCounts = { truePositive: 0, falsePositive: 0, falseNegative: 0, trueNegative: 0, outOfBand: 0 };
+  for (const result of results) {
+    const shouldAccept = expected.get(result.id)!;
+    if (result.isCorrect && shouldAccept) counts.truePositive++;
+    else if (result.isCorrect) counts.falsePositive++;
+    else if (shouldAccept) counts.falseNegative++;
+    else counts.trueNegative++;
+    if (!result.scoreInBand) counts.outOfBand++;
+  }
+  return counts;
+}
+
+function formatRate(numerator: number, denominator: number): string {
+  return denominator === 0 ? '   -' : `${Math.round((numerator / denominator) * 100)}%`.padStart(4);
+}
+
+function printMetricsTable(title: string, groups: Map<string, ItemResult[]>, expected: Map<string, boolean>) {
+  console.log(`\n${title}`);
+  console.log('  Group                 Items  Precision  Recall  False accept  False reject  Score band misses');
+  for (const [group, results] of [...groups].sort(([a], [b]) => a.localeCompare(b))) {
+    const c = countOutcomes(results, expected);
+    console.log(
+      `  ${group.padEnd(20)}  ${String(results.length).padStart(5)}` +
+      `       ${formatRate(c.truePositive, c.truePositive + c.falsePositive)}` +
+      `    ${formatRate(c.truePositive, c.truePositive + c.falseNegative)}` +
+      `  ${String(c.falsePositive).padStart(12)}  ${String(c.falseNegative).padStart(12)}  ${String(c.outOfBand).padStart(17)}`
+    );
+  }
+}
+
+function groupBy(results: ItemResult[], key: (result: ItemResult) => string): Map<string, ItemResult[]> {
+  const groups = new Map<string, ItemResult[]>();
+  for (const result of results) {
+    const group = key(result);
+    groups.set(group, [...(groups.get(group) ?? []), result]);
+  }
+  return groups;
+}
+
+/**
+ * Print changes since the baseline; returns the number of regressions
+ */
+function diffAgainstBaseline(results: ItemResult[], baseline: Baseline, scoreTolerance: number): number {
+  console.log(`\nChanges since baseline (${baseline.generatedAt.split('T')[0]}, ${baseline.evaluatorVersion}):`);
+  if (baseline.evaluatorVersion !== EVALUATOR_VERSION) {
+    console.log(`  ⚠️  Evaluator changed: ${baseline.evaluatorVersion} → ${EVALUATOR_VERSION}`);
+  }
+
+  let regressions = 0;
+  let changes = 0;
+
+  for (const result of results) {
+    const before = baseline.results[result.id];
+    if (!before) {
+      console.log(`  ➕ ${result.id}: new item (${result.isCorrect ? '✓' : '✗'} ${result.score}, ${result.tier})`);
+      changes++;
+      continue;
+    }
+
+    const notes: string[] = [];
+    if (before.isCorrect !== result.isCorrect) {
+      notes.push(`verdict ${before.isCorrect ? '✓' : '✗'} → ${result.isCorrect ? '✓' : '✗'}`);
+    }
+    if (Math.abs(before.score - result.score) > scoreTolerance) {
+      notes.push(`score ${before.score} → ${result.score}`);
+    }
+    if (before.tier !== result.tier) {
+      notes.push(`tier ${before.tier} → ${result.tier}`);
+    }
+    if (notes.length === 0) continue;
+
+    const regressed = (before.verdictMatches && !result.verdictMatches) || (before.scoreInBand && !result.scoreInBand);
+    const fixed = (!before.verdictMatches && result.verdictMatches) || (!before.scoreInBand && result.scoreInBand);
+    if (regressed) regressions++;
+    changes++;
+    console.log(`  ${regressed ? '🔴' : fixed ? '🟢' : '⚪'} ${result.id}: ${notes.join(', ')}`);
+  }
+
+  for (const id of Object.keys(baseline.results)) {
+    if (!results.some((result) => result.id === id)) {
+      console.log(`  ➖ ${id}: removed from the golden set`);
+      changes++;
+    }
+  }
+
+  if (changes === 0) console.log('  No changes');
+  return regressions;
+}
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const options = parseArgs();
+  const dataset = readJson<GoldenDataset>(options.datasetPath, { items: [] });
+  const recordings = readJson<Recordings>(options.recordingsPath, {});
+
+  if (dataset.items.length === 0) {
+    console.error(`❌ No golden items in ${options.datasetPath}`);
+    process.exit(1);
+  }
+
+  console.log(`🧪 Grading ${dataset.items.length} golden answers with ${EVALUATOR_VERSION}${options.record ? ' (recording)' : ' (offline)'}...\n`);
+
+  const results: ItemResult[] = [];
+  for (const item of dataset.items) {
+    const result = await evaluateItem(item, recordings, options);
+    results.push(result);
+
+    const status = result.source === 'missing' ? '⏭️ ' : result.verdictMatches && result.scoreInBand ? '✅' : '❌';
+    const band = item.expected.score ? ` [${item.expected.score.join('-')}]` : '';
+    console.log(
+      `  ${status} ${item.id.padEnd(36)} ${result.isCorrect ? '✓' : '✗'} ${String(result.score).padStart(3)}` +
+      `  expected ${item.expected.isCorrect ? '✓' : '✗'}${band}  (${result.tier}${result.source !== 'none' ? `, ${result.source}` : ''})`
+    );
+  }
+  setSemanticGrader(null);
+
+  const missing = results.filter((result) => result.source === 'missing');
+  const scored = results.filter((result) => result.source !== 'missing');
+  const expected = new Map(dataset.items.map((item) => [item.id, item.expected.isCorrect]));
+
+  printMetricsTable('By tier:', groupBy(scored, (result) => result.tier), expected);
+  printMetricsTable('By difficulty:', groupBy(scored, (result) => result.difficulty), expected);
+  printMetricsTable('Overall:', new Map([['all', scored]]), expected);
+
+  const bySource = groupBy(results, (result) => result.source);
+  console.log(`\nSemantic API verdicts: ${bySource.get('recording')?.length ?? 0} recorded, ` +
+    `${bySource.get('mock')?.length ?? 0} mock, ${bySource.get('live')?.length ?? 0} live`);
+  if (missing.length > 0) {
+    console.log(`⚠️  ${missing.length} items have no recording or mock verdict (prompt changed?) and were left out: ` +
+      `${missing.map((result) => result.id).join(', ')}. Re-record with --record.`);
+  }
+
+  if (options.record) {
+    writeFileSync(options.recordingsPath, `${JSON.stringify(recordings, null, 2)}\n`);
+    console.log(`💾 Recordings saved to ${options.recordingsPath}`);
+  }
+
+  let regressions = 0;
+  const baseline = readJson<Baseline | null>(options.baselinePath, null);
+  if (baseline) {
+    regressions = diffAgainstBaseline(scored, baseline, options.scoreTolerance);
+  } else {
+    console.log(`\nNo baseline at ${options.baselinePath}; save one with --save-baseline.`);
+  }
+
+  if (options.saveBaseline) {
+    const newBaseline: Baseline = {
+      generatedAt: new Date().toISOString(),
+      evaluatorVersion: EVALUATOR_VERSION,
+      results: Object.fromEntries(scored.map(({ id, difficulty, source, ...rest }) => [id, rest])),
+    };
+    writeFileSync(options.baselinePath, `${JSON.stringify(newBaseline, null, 2)}\n`);
+    console.log(`💾 Baseline saved to ${options.baselinePath}`);
+  } else if (regressions > 0) {
+    console.log(`\n🔴 ${regressions} regression${regressions === 1 ? '' : 's'} against the baseline`);
+    process.exit(1);
+  }
+}
+
+main().catch(err => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,466 @@
+#!/usr/bin/env npx tsx
+/**
+ * Tune fuzzy logic and correctness thresholds against historical answers.
+ *
+ * FUZZY_LOGIC_THRESHOLDS (when to trust fuzzy logic instead of calling the
+ * Semantic API) and CORRECTNESS_THRESHOLDS (which similarity counts as correct)
+ * are hand-picked. This script replays recorded typed answers (question_results)
+ * through fuzzyEvaluateAnswer under a grid of candidate settings and, for each,
+ * estimates per difficulty:
+ *
+ *   - LLM share:    answers fuzzy logic would hand to the Semantic API (the cost)
+ *   - Agreement:    replayed verdicts matching the final verdict
+ *   - False accept: wrong answers marked correct (share of wrong answers)
+ *   - False reject: right answers marked wrong (share of right answers)
+ *
+ * The final verdict is the teacher's ruling when the answer was appealed and
+ * resolved (answer_appeals accepted/rejected) or teacher graded, otherwise the
+ * recorded verdict.
+ * Answers routed to the Semantic API keep their recorded verdict if the Semantic
+ * API graded them, and are assumed to get the final verdict otherwise (its own
+ * accuracy isn't what is tuned here).
+ *
+ * Not replayed (thresholds don't affect them): answers graded by the conjugation
+ * engine or too short; skipped: provisional verdicts, answers awaiting the teacher's
+ * grade, multi-blank questions and answers graded against an older answer key.
+ *
+ * The recommendation per difficulty (and per question type) is the cheapest
+ * setting within the false accept / false reject limits; the cost-vs-accuracy
+ * curve lists the settings no cheaper setting beats. Read-only.
+ *
+ * Usage:
+ *   npx tsx scripts/audit-tune-grading-thresholds.ts [options]
+ *
+ * Options:
+ *   --fuzzy <list>              Candidate fuzzy logic thresholds (default: 60,65,70,75,80,85,90,95,98)
+ *   --minor-typo <list>         Candidate MINOR_TYPO values (default: 90,92,94,95,96,98)
+ *   --beginner-pass <list>      Candidate BEGINNER_PASS values (default: 75,80,85,90)
+ *   --max-false-accept <pct>    False accept limit for a recommendation (default: 2)
+ *   --max-false-reject <pct>    False reject limit for a recommendation (default: 5)
+ *   --min-samples <n>           Minimum answers per group to recommend (default: 30)
+ *   --since <date>              Only answers attempted on or after this date
+ *   --output <path>             Export the per-setting results as JSON
+ *   --help, -h                  Show this help
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+config({ path: resolve(__dirname, '../.env.local') });
+
+import { writeFileSync } from 'fs';
+import { createScriptSupabase, fetchAllPages } from './lib/db-queries';
+import { loadQuestionsByIds } from '../src/lib/question-loader';
+import { countBlanks, fuzzyEvaluateAnswer } from '../src/lib/writing-questions';
+import { evaluateConjugation } from '../src/lib/conjugation';
+import { getFuzzyThresholds, type FuzzyThresholds } from '../src/lib/feature-flags';
+import type { EvaluationTrace } from '../src/lib/answer-evaluation';
+import type { Question } from '../src/types';
+
+type Difficulty = 'beginner' | 'intermediate' | 'advanced';
+
+const DIFFICULTIES: Difficulty[] = ['beginner', 'intermediate', 'advanced'];
+
+interface QuestionResultRow {
+  question_id: string;
+  user_answer: string;
+  is_correct: boolean;
+  evaluation_trace: EvaluationTrace | null;
+  answer_key_version: number | null;
+  teacher_grade: 'pending' | 'graded' | null;
+}
+
+interface AppealRow {
+  question_id: string;
+  user_answer: string;
+  status: 'accepted' | 'rejected';
+}
+
+/** One historical answer, ready to replay */
+interface ReplayAnswer {
+  userAnswer: string;
+  correctAnswer: string;
+  acceptableVariations: string[];
+  difficulty: Difficulty;
+  questionType: string;
+  /** Teacher ruling if appealed and resolved, otherwise the recorded verdict */
+  finalVerdict: boolean;
+  teacherConfirmed: boolean;
+  /** Recorded verdict when the Semantic API graded the answer */
+  semanticVerdict?: boolean;
+  /** Verdict from a tier the thresholds don't affect (conjugation engine, empty check) */
+  fixedVerdict?: boolean;
+}
+
+interface SettingStats {
+  thresholds: FuzzyThresholds;
+  answers: number;
+  llmCalls: number;
+  agreements: number;
+  falseAccepts: number;
+  wrongAnswers: number;
+  falseRejects: number;
+  rightAnswers: number;
+}
+
+// ─── CLI ─────────────────────────────────────────────────────────────────────
+
+function parseList(value: string, flag: string): number[] {
+  const values = value.split(',').map((v) => Number(v.trim()));
+  if (values.length === 0 || values.some((v) => !Number.isFinite(v) || v < 0 || v > 100)) {
+    console.error(`${flag} must be a comma-separated list of percentages`);
+    process.exit(1);
+  }
+  return values;
+}
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    fuzzy: [60, 65, 70, 75, 80, 85, 90, 95, 98],
+    minorTypo: [90, 92, 94, 95, 96, 98],
+    beginnerPass: [75, 80, 85, 90],
+    maxFalseAccept: 2,
+    maxFalseReject: 5,
+    minSamples: 30,
+    since: null as string | null,
+    outputPath: null as string | null,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--fuzzy':
+        options.fuzzy = parseList(args[++i], '--fuzzy');
+        break;
+      case '--minor-typo':
+        options.minorTypo = parseList(args[++i], '--minor-typo');
+        break;
+      case '--beginner-pass':
+        options.beginnerPass = parseList(args[++i], '--beginner-pass');
+        break;
+      case '--max-false-accept':
+        options.maxFalseAccept = Number(args[++i]);
+        break;
+      case '--max-false-reject':
+        options.maxFalseReject = Number(args[++i]);
+        break;
+      case '--min-samples':
+        options.minSamples = parseInt(args[++i], 10);
+        break;
+      case '--since':
+        options.since = args[++i];
+        break;
+      case '--output':
+        options.outputPath = args[++i];
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+Tune Grading Thresholds
+
+Usage: npx tsx scripts/audit-tune-grading-thresholds.ts [options]
+
+Options:
+  --fuzzy <list>              Candidate fuzzy logic thresholds (default: 60,65,70,75,80,85,90,95,98)
+  --minor-typo <list>         Candidate MINOR_TYPO values (default: 90,92,94,95,96,98)
+  --beginner-pass <list>      Candidate BEGINNER_PASS values (default: 75,80,85,90)
+  --max-false-accept <pct>    False accept limit for a recommendation (default: 2)
+  --max-false-reject <pct>    False reject limit for a recommendation (default: 5)
+  --min-samples <n>           Minimum answers per group to recommend (default: 30)
+  --since <date>              Only answers attempted on or after this date
+  --output <path>             Export the per-setting results as JSON
+  --help, -h                  Show this help
+`);
+        process.exit(0);
+      default:
+        console.error(`Unknown option: ${args[i]}`);
+        process.exit(1);
+    }
+  }
+
+  if (![options.maxFalseAccept, options.maxFalseReject].every((v) => Number.isFinite(v) && v >= 0)) {
+    console.error('--max-false-accept and --max-false-reject must be non-negative percentages');
+    process.exit(1);
+  }
+  if (!Number.isInteger(options.minSamples) || options.minSamples <= 0) {
+    console.error('--min-samples must be a positive integer');
+    process.exit(1);
+  }
+  if (options.since && Number.isNaN(Date.parse(options.since))) {
+    console.error('--since must be a date (e.g. 2025-09-01)');
+    process.exit(1);
+  }
+
+  return options;
+}
+
+// ─── Data ────────────────────────────────────────────────────────────────────
+
+function questionTypeOf(question: Question): string {
+  return question.type === 'fill-in-blank' ? 'fill_in_blank' : (question.writingType || 'translation');
+}
+
+async function loadReplayAnswers(since: string | null): Promise<{ answers: ReplayAnswer[]; skipped: Record<string, number> }> {
+  const supabase = createScriptSupabase();
+  const skipped: Record<string, number> = {};
+  const skip = (reason: string) => { skipped[reason] = (skipped[reason] ?? 0) + 1; };
+
+  const rows = await fetchAllPages<QuestionResultRow>(
+    supabase,
+    'question_results',
+    (query) => {
+      let q = query.eq('provisional', false).not('user_answer', 'is', null);
+      if (since) q = q.gte('attempted_at', since);
+      return q.order('attempted_at', { ascending: true });
+    },
+    'question_id, user_answer, is_correct, evaluation_trace, answer_key_version, teacher_grade'
+  );
+
+  const appeals = await fetchAllPages<AppealRow>(
+    supabase,
+    'answer_appeals',
+    (query) => query.in('status', ['accepted', 'rejected']),
+    'question_id, user_answer, status'
+  );
+  const rulings = new Map(appeals.map((a) => [`${a.question_id}\u0000${a.user_answer}`, a.status === 'accepted']));
+
+  const questionIds = [...new Set(rows.map((row) => row.question_id))];
+  const questions = await loadQuestionsByIds(questionIds);
+  const questionMap = new Map(questions.map((q) => [q.id, q]));
+
+  const { data: versions, error } = await supabase.from('questions').select('id, answer_key_version').in('id', questionIds);
+  if (error) throw new Error(`Failed to load answer key versions: ${error.message}`);
+  const versionMap = new Map((versions || []).map((v) => [v.id as string, v.answer_key_version as number]));
+
+  const answers: ReplayAnswer[] = [];
+  for (const row of rows) {
+    const question = questionMap.get(row.question_id);
+    if (!question || (question.type !== 'writing' && question.type !== 'fill-in-blank')) {
+      skip('not a typed question');
+      continue;
+    }
+    if (row.teacher_grade === 'pending') {
+      skip('awaiting teacher grade');
+      continue;
+    }
+    if (!question.correctAnswer) {
+      skip('no answer key (open-ended)');
+      continue;
+    }
+    if (row.answer_key_version !== null && row.answer_key_version !== versionMap.get(row.question_id)) {
+      skip('graded against an older answer key');
+      continue;
+    }
+    if (question.type === 'fill-in-blank' && countBlanks(question.question) > 1) {
+      skip('multi-blank (graded per blank)');
+      continue;
+    }
+    if (!DIFFICULTIES.includes(question.difficulty as Difficulty)) {
+      skip('unknown difficulty');
+      continue;
+    }
+
+    // A teacher's grade replaced the recorded verdict, so it is the ruling
+    const teacherGraded = row.teacher_grade === 'graded';
+    const ruling = teacherGraded ? row.is_correct : rulings.get(`${row.question_id}\u0000${row.user_answer}`);
+    const questionType = questionTypeOf(question);
+    const answer: ReplayAnswer = {
+      userAnswer: row.user_answer,
+      correctAnswer: question.correctAnswer,
+      acceptableVariations: question.acceptableVariations || [],
+      difficulty: question.difficulty as Difficulty,
+      questionType,
+      finalVerdict: ruling ?? row.is_correct,
+      teacherConfirmed: ruling !== undefined,
+      semanticVerdict: row.evaluation_trace?.evaluationTier === 'claude_api' && !teacherGraded ? row.is_correct : undefined,
+    };
+
+    // Tiers that run before fuzzy logic and don't depend on the thresholds
+    if (row.user_answer.trim().length < 2) {
+      answer.fixedVerdict = false;
+    } else if (questionType === 'conjugation') {
+      const conjugation = evaluateConjugation(question.question, row.user_answer, question.correctAnswer);
+      if (conjugation) answer.fixedVerdict = conjugation.isCorrect;
+    }
+
+    answers.push(answer);
+  }
+
+  return { answers, skipped };
+}
+
+// ─── Replay ──────────────────────────────────────────────────────────────────
+
+function candidateSettings(difficulty: Difficulty, options: ReturnType<typeof parseArgs>): FuzzyThresholds[] {
+  // BEGINNER_PASS only changes beginner verdicts
+  const beginnerPass = difficulty === 'beginner' ? options.beginnerPass : [getFuzzyThresholds(difficulty).beginnerPass];
+  const settings: FuzzyThresholds[] = [];
+  for (const fuzzyLogic of options.fuzzy) {
+    for (const minorTypo of options.minorTypo) {
+      for (const pass of beginnerPass) {
+        if (pass <= minorTypo) settings.push({ fuzzyLogic, minorTypo, beginnerPass: pass });
+      }
+    }
+  }
+  return settings;
+}
+
+function replay(answers: ReplayAnswer[], thresholds: FuzzyThresholds): SettingStats {
+  const stats: SettingStats = {
+    thresholds,
+    answers: answers.length,
+    llmCalls: 0,
+    agreements: 0,
+    falseAccepts: 0,
+    wrongAnswers: 0,
+    falseRejects: 0,
+    rightAnswers: 0,
+  };
+
+  for (const answer of answers) {
+    let verdict = answer.fixedVerdict;
+    if (verdict === undefined) {
+      const fuzzy = fuzzyEvaluateAnswer(
+        answer.userAnswer,
+        answer.correctAnswer,
+        answer.acceptableVariations,
+        answer.difficulty,
+        answer.questionType,
+        thresholds
+      );
+      if (fuzzy) {
+        verdict = fuzzy.isCorrect;
+      } else {
+        stats.llmCalls++;
+        verdict = answer.semanticVerdict ?? answer.finalVerdict;
+      }
+    }
+
+    if (verdict === answer.finalVerdict) stats.agreements++;
+    if (answer.finalVerdict) {
+      stats.rightAnswers++;
+      if (!verdict) stats.falseRejects++;
+    } else {
+      stats.wrongAnswers++;
+      if (verdict) stats.falseAccepts++;
+    }
+  }
+
+  return stats;
+}
+
+function rate(count: number, total: number): number {
+  return total === 0 ? 0 : (count / total) * 100;
+}
+
+function describeSetting(stats: SettingStats, difficulty: Difficulty): string {
+  const { fuzzyLogic, minorTypo, beginnerPass } = stats.thresholds;
+  const setting = `fuzzy ${fuzzyLogic} / typo ${minorTypo}${difficulty === 'beginner' ? ` / pass ${beginnerPass}` : ''}`;
+  return `${setting.padEnd(30)} LLM ${rate(stats.llmCalls, stats.answers).toFixed(1).padStart(5)}%` +
+    `  agreement ${rate(stats.agreements, stats.answers).toFixed(1).padStart(5)}%` +
+    `  false accept ${rate(stats.falseAccepts, stats.wrongAnswers).toFixed(1).padStart(4)}%` +
+    `  false reject ${rate(stats.falseRejects, stats.rightAnswers).toFixed(1).padStart(4)}%`;
+}
+
+/**
+ * Cheapest setting within the error limits (ties: best agreement);
+ * without one, the setting with the best agreement
+ */
+function recommend(results: SettingStats[], options: ReturnType<typeof parseArgs>): { stats: SettingStats; withinLimits: boolean } {
+  const withinLimits = results.filter((s) =>
+    rate(s.falseAccepts, s.wrongAnswers) <= options.maxFalseAccept &&
+    rate(s.falseRejects, s.rightAnswers) <= options.maxFalseReject
+  );
+  const byCost = (a: SettingStats, b: SettingStats) => a.llmCalls - b.llmCalls || b.agreements - a.agreements;
+  const byAgreement = (a: SettingStats, b: SettingStats) => b.agreements - a.agreements || a.llmCalls - b.llmCalls;
+
+  return withinLimits.length > 0
+    ? { stats: [...withinLimits].sort(byCost)[0], withinLimits: true }
+    : { stats: [...results].sort(byAgreement)[0], withinLimits: false };
+}
+
+/**
+ * Settings no cheaper setting matches on agreement, cheapest first
+ */
+function costAccuracyCurve(results: SettingStats[]): SettingStats[] {
+  const sorted = [...results].sort((a, b) => a.llmCalls - b.llmCalls || b.agreements - a.agreements);
+  const curve: SettingStats[] = [];
+  for (const stats of sorted) {
+    if (curve.length === 0 || stats.agreements > curve[curve.length - 1].agreements) curve.push(stats);
+  }
+  return curve;
+}
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const options = parseArgs();
+
+  console.log(`🎚️  Replaying recorded typed answers${options.since ? ` since ${options.since}` : ''}...\n`);
+  const { answers, skipped } = await loadReplayAnswers(options.since);
+
+  const teacherConfirmed = answers.filter((a) => a.teacherConfirmed).length;
+  console.log(`${answers.length} answers to replay (${teacherConfirmed} with a teacher ruling)`);
+  for (const [reason, count] of Object.entries(skipped)) {
+    console.log(`  skipped ${count}: ${reason}`);
+  }
+
+  const exported: Record<string, SettingStats[]> = {};
+  const recommendations: Partial<Record<Difficulty, FuzzyThresholds>> = {};
+
+  for (const difficulty of DIFFICULTIES) {
+    const group = answers.filter((a) => a.difficulty === difficulty);
+    console.log(`\n📊 ${difficulty} (${group.length} answers)`);
+    if (group.length < options.minSamples) {
+      console.log(`  Not enough answers to recommend (minimum ${options.minSamples})`);
+      continue;
+    }
+
+    const results = candidateSettings(difficulty, options).map((thresholds) => replay(group, thresholds));
+    exported[difficulty] = results;
+
+    console.log(`  Current      ${describeSetting(replay(group, getFuzzyThresholds(difficulty)), difficulty)}`);
+    const { stats, withinLimits } = recommend(results, options);
+    recommendations[difficulty] = stats.thresholds;
+    console.log(`  Recommended  ${describeSetting(stats, difficulty)}`);
+    if (!withinLimits) {
+      console.log(`  ⚠️  No setting within ${options.maxFalseAccept}% false accept / ${options.maxFalseReject}% false reject; showing the best agreement`);
+    }
+
+    console.log('  Cost vs accuracy:');
+    for (const point of costAccuracyCurve(results)) {
+      console.log(`    ${describeSetting(point, difficulty)}`);
+    }
+
+    // Per question type, where there's enough data
+    const types = [...new Set(group.map((a) => a.questionType))].sort();
+    for (const questionType of types) {
+      const typeGroup = group.filter((a) => a.questionType === questionType);
+      if (typeGroup.length < options.minSamples || types.length === 1) continue;
+      const typeResults = candidateSettings(difficulty, options).map((thresholds) => replay(typeGroup, thresholds));
+      exported[`${difficulty}/${questionType}`] = typeResults;
+      const typeRecommendation = recommend(typeResults, options);
+      console.log(`  ${questionType} (${typeGroup.length}): ${describeSetting(typeRecommendation.stats, difficulty)}` +
+        `${typeRecommendation.withinLimits ? '' : '  (best agreement, outside limits)'}`);
+    }
+  }
+
+  if (Object.keys(recommendations).length > 0) {
+    console.log('\nSuggested feature-flags.ts values:');
+    console.log(`  FUZZY_LOGIC_THRESHOLDS: ${DIFFICULTIES.map((d) => `${d}: ${recommendations[d]?.fuzzyLogic ?? getFuzzyThresholds(d).fuzzyLogic}`).join(', ')}`);
+    const minorTypos = [...new Set(Object.values(recommendations).map((t) => t.minorTypo))];
+    console.log(`  MINOR_TYPO: ${minorTypos.join(' / ')}${minorTypos.length > 1 ? ' (differs by difficulty; CORRECTNESS_THRESHOLDS is shared)' : ''}`);
+    if (recommendations.beginner) {
+      console.log(`  BEGINNER_PASS: ${recommendations.beginner.beginnerPass}`);
+    }
+  }
+
+  if (options.outputPath) {
+    writeFileSync(options.outputPath, JSON.stringify({ generatedAt: new Date().toISOString(), options, results: exported }, null, 2));
+    console.log(`\n💾 Results exported to ${options.outputPath}`);
+  }
+}
+
+main().catch(err => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
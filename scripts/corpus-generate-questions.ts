@@ -37,6 +37,7 @@ import crypto from 'crypto';
 import { fetchUnitsFromDb } from '../src/lib/units-db';
 import { loadUnitMaterials, extractTopicContent } from '../src/lib/learning-materials';
 import { inferWritingType, WritingType } from './lib/writing-type-inference';
+import { verifyConjugationKey } from '../src/lib/conjugation';
 import { MODELS, STRUCTURED_TYPES, TYPED_TYPES, getModelForType, QuestionType } from './lib/config';
 import { checkGitState } from './lib/git-utils';
 import { createScriptSupabase } from './lib/db-queries';
@@ -486,6 +487,8 @@ function isMetaQuestion(question: Question): boolean {
 
 /**
  * Structural validation — fast checks that reject obviously malformed questions (no API call).
+ * Conjugation answers are also checked against the conjugation engine here,
+ * so wrong verb forms never reach AI validation.
  */
 function structuralValidation(questions: Question[]): { valid: Question[]; rejected: { question: Question; reason: string }[] } {
   const valid: Question[] = [];
@@ -526,17 +529,28 @@ function structuralValidation(questions: Question[]): { valid: Question[]; rejec
         } else if (blankCount > 1 && answerGroups.length !== blankCount) {
           rejected.push({ question: q, reason: `Fill-in-blank has ${blankCount} blanks but ${answerGroups.length} comma-separated answer groups` });
         } else {
-          valid.push(q);
+          const conjugationProblems = verifyConjugationKey(q.question, q.correctAnswer, answerGroups);
+          if (conjugationProblems && conjugationProblems.length > 0) {
+            rejected.push({ question: q, reason: `Conjugation check: ${conjugationProblems[0]}` });
+          } else {
+            valid.push(q);
+          }
         }
         break;
       }
-      case 'writing':
+      case 'writing': {
+        const conjugationProblems = inferWritingType(q.question) === 'conjugation'
+          ? verifyConjugationKey(q.question, q.correctAnswer)
+          : null;
         if (q.correctAnswer.length < 5) {
           rejected.push({ question: q, reason: 'Writing answer too short (<5 chars)' });
+        } else if (conjugationProblems && conjugationProblems.length > 0) {
+          rejected.push({ question: q, reason: `Conjugation check: ${conjugationProblems[0]}` });
         } else {
           valid.push(q);
         }
         break;
+      }
       default:
         valid.push(q);
     }
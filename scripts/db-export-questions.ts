@@ -11,13 +11,10 @@
 import { config } from 'dotenv';
 config({ path: '.env.local' });
 
-import { createClient } from '@supabase/supabase-js';
 import { writeFileSync } from 'fs';
+import { createScriptSupabase } from './lib/db-queries';
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-);
+const supabase = createScriptSupabase();
 
 interface CLIOptions {
   output: string;
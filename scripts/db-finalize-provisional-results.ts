@@ -0,0 +1,290 @@
+#!/usr/bin/env npx tsx
+/**
+ * Finalize provisional verdicts once the Semantic API is back.
+ *
+ * While the Semantic API is unavailable (circuit breaker open or call failed),
+ * typed answers get a provisional verdict from the best fuzzy match, recorded
+ * with provisional = true in quiz_session_answers and question_results.
+ * This job re-grades them through the full tier chain, oldest first. Changed
+ * verdicts update is_correct/score and the quiz score (logged in
+ * question_result_regrades), and the student's spaced repetition state is replayed.
+ *
+ * Answers held for the teacher's grade are left to the teacher (see
+ * src/lib/teacher-grading.ts).
+ *
+ * Stops at the first answer that comes back provisional because the API is still
+ * down, so it is safe to run on a schedule, e.g. every few minutes from cron.
+ * An answer whose new verdict fails validation is left provisional and counted as
+ * failed; the run goes on with the next one.
+ *
+ * Usage:
+ *   npx tsx scripts/db-finalize-provisional-results.ts [options]
+ *
+ * Options:
+ *   --write-db          Actually re-grade and update (default: dry run)
+ *   --dry-run           Only list provisional answers
+ *   --limit <n>         Maximum answers per run (default: 200)
+ *   --help, -h          Show this help
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+config({ path: resolve(__dirname, '../.env.local') });
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createScriptSupabase } from './lib/db-queries';
+import { loadQuestionsByIds } from '../src/lib/question-loader';
+import { evaluateQuestionAnswer, type EvaluationResult } from '../src/lib/answer-evaluation';
+import { replayReviews, toEvaluationRecord } from '../src/lib/progress-server';
+import { createClassPolicyLookup } from '../src/lib/class-evaluation-policies';
+import { FEATURES } from '../src/lib/feature-flags';
+
+interface ProvisionalAnswerRow {
+  session_id: string;
+  question_id: string;
+  user_answer: string;
+  is_correct: boolean;
+  score: number | null;
+  quiz_sessions: {
+    study_code_id: string | null;
+    quiz_history_id: string | null;
+  };
+}
+
+interface FinalizeStats {
+  checked: number;
+  finalized: number;
+  changed: number;
+  failed: number;
+}
+
+// ─── CLI ─────────────────────────────────────────────────────────────────────
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    writeDb: false,
+    dryRun: false,
+    limit: 200,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--write-db':
+        options.writeDb = true;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--limit':
+        options.limit = parseInt(args[++i], 10);
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+Finalize Provisional Verdicts
+
+Usage: npx tsx scripts/db-finalize-provisional-results.ts [options]
+
+Options:
+  --write-db          Actually re-grade and update (default: dry run)
+  --dry-run           Only list provisional answers
+  --limit <n>         Maximum answers per run (default: 200)
+  --help, -h          Show this help
+`);
+        process.exit(0);
+      default:
+        console.error(`Unknown option: ${args[i]}`);
+        process.exit(1);
+    }
+  }
+
+  if (!options.writeDb) {
+    options.dryRun = true;
+  }
+
+  if (!Number.isInteger(options.limit) || options.limit <= 0) {
+    console.error('--limit must be a positive integer');
+    process.exit(1);
+  }
+
+  return options;
+}
+
+// ─── Updates ─────────────────────────────────────────────────────────────────
+
+function formatVerdict(isCorrect: boolean, score: number | null): string {
+  return `${isCorrect ? '✓' : '✗'} ${score ?? '-'}`;
+}
+
+/**
+ * Apply the final verdict to the recorded question result (finished sessions only).
+ * The verdict goes through apply_question_result_regrade so the quiz score and
+ * regrade log follow; the evaluation details are then replaced.
+ */
+async function finalizeQuestionResult(
+  supabase: SupabaseClient,
+  quizHistoryId: string,
+  questionId: string,
+  answerKeyVersion: number,
+  evaluation: EvaluationResult
+): Promise<void> {
+  const { data: result, error } = await supabase
+    .from('question_results')
+    .select('id')
+    .eq('quiz_history_id', quizHistoryId)
+    .eq('question_id', questionId)
+    .eq('provisional', true)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load question result: ${error.message}`);
+  }
+  if (!result) return;
+
+  const { error: regradeError } = await supabase.rpc('apply_question_result_regrade', {
+    p_result_id: result.id,
+    p_answer_key_version: answerKeyVersion,
+    p_is_correct: evaluation.isCorrect,
+    p_score: Math.round(evaluation.score),
+    p_evaluation_tier: evaluation.metadata?.evaluationTier ?? 'unknown',
+  });
+
+  if (regradeError) {
+    throw new Error(`Failed to apply verdict: ${regradeError.message}`);
+  }
+
+  const { error: updateError } = await supabase
+    .from('question_results')
+    .update(toEvaluationRecord(evaluation))
+    .eq('id', result.id);
+
+  if (updateError) {
+    throw new Error(`Failed to update evaluation details: ${updateError.message}`);
+  }
+}
+
+// ─── Main ────────────────────────────────────────────────────────────────────
+
+async function finalizeProvisionalAnswers(
+  supabase: SupabaseClient,
+  limit: number,
+  apply: boolean
+): Promise<FinalizeStats> {
+  const stats: FinalizeStats = { checked: 0, finalized: 0, changed: 0, failed: 0 };
+  const getClassPolicy = createClassPolicyLookup(supabase);
+
+  const { data, error } = await supabase
+    .from('quiz_session_answers')
+    .select('session_id, question_id, user_answer, is_correct, score, quiz_sessions!inner(study_code_id, quiz_history_id)')
+    .eq('provisional', true)
+    .is('teacher_grade', null)
+    .order('answered_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error(`❌ Failed to load provisional answers: ${error.message}`);
+    process.exit(1);
+  }
+
+  const answers = (data || []) as unknown as ProvisionalAnswerRow[];
+  if (answers.length === 0) return stats;
+
+  const questionIds = [...new Set(answers.map((a) => a.question_id))];
+  const [questions, { data: versions }] = await Promise.all([
+    loadQuestionsByIds(questionIds),
+    supabase.from('questions').select('id, answer_key_version').in('id', questionIds),
+  ]);
+  const questionMap = new Map(questions.map((q) => [q.id, q]));
+  const versionMap = new Map((versions || []).map((v) => [v.id as string, v.answer_key_version as number]));
+
+  for (const answer of answers) {
+    const question = questionMap.get(answer.question_id);
+    if (!question) {
+      stats.failed++;
+      continue;
+    }
+
+    stats.checked++;
+    if (!apply) {
+      console.log(`  ⏳ Would re-grade "${answer.user_answer}" (${question.correctAnswer}), currently ${formatVerdict(answer.is_correct, answer.score)}`);
+      continue;
+    }
+
+    const evaluation = await evaluateQuestionAnswer(question, answer.user_answer, true, {
+      classPolicy: await getClassPolicy(answer.quiz_sessions.study_code_id),
+    });
+    if (evaluation.provisional) {
+      if (evaluation.metadata?.provisionalCause === 'invalid_verdict') {
+        console.error(`  ❌ ${answer.session_id.slice(0, 8)}/${answer.question_id.slice(0, 8)}: Semantic API verdict failed validation, left provisional`);
+        stats.failed++;
+        continue;
+      }
+      console.log('\n⚠️  Semantic API still unavailable; stopping. Run again later.');
+      stats.checked--;
+      break;
+    }
+
+    const score = Math.round(evaluation.score);
+    const changed = evaluation.isCorrect !== answer.is_correct || score !== answer.score;
+    const { study_code_id: studyCodeId, quiz_history_id: quizHistoryId } = answer.quiz_sessions;
+
+    try {
+      // Result first: the session answer stays provisional (and is retried) until it's done
+      if (quizHistoryId) {
+        await finalizeQuestionResult(supabase, quizHistoryId, answer.question_id, versionMap.get(answer.question_id) ?? 1, evaluation);
+      }
+
+      const { error: answerError } = await supabase
+        .from('quiz_session_answers')
+        .update({ is_correct: evaluation.isCorrect, score, ...toEvaluationRecord(evaluation) })
+        .eq('session_id', answer.session_id)
+        .eq('question_id', answer.question_id);
+
+      if (answerError) {
+        throw new Error(`Failed to update session answer: ${answerError.message}`);
+      }
+
+      if (changed && studyCodeId && FEATURES.LEITNER_MODE) {
+        await replayReviews(studyCodeId, answer.question_id);
+      }
+    } catch (err) {
+      console.error(`  ❌ ${answer.session_id.slice(0, 8)}/${answer.question_id.slice(0, 8)}: ${err instanceof Error ? err.message : err}`);
+      stats.failed++;
+      continue;
+    }
+
+    stats.finalized++;
+    if (changed) {
+      stats.changed++;
+      console.log(
+        `  🔄 "${answer.user_answer}": ${formatVerdict(answer.is_correct, answer.score)} → ` +
+        `${formatVerdict(evaluation.isCorrect, score)} (${evaluation.metadata?.evaluationTier})`
+      );
+    }
+  }
+
+  return stats;
+}
+
+async function main() {
+  const options = parseArgs();
+  const apply = options.writeDb && !options.dryRun;
+  const supabase = createScriptSupabase({ write: apply });
+
+  console.log(`⏳ Finalizing provisional verdicts${apply ? '' : ' (DRY RUN)'}...\n`);
+
+  const stats = await finalizeProvisionalAnswers(supabase, options.limit, apply);
+  console.log(`\n${stats.checked} provisional answers ${apply ? 're-graded' : 'found'}` +
+    (apply ? `, ${stats.finalized} finalized, ${stats.changed} changed` : '') +
+    `${stats.failed > 0 ? `, ${stats.failed} failed` : ''}`);
+
+  if (!apply) {
+    console.log('\nDRY RUN — no changes written. Use --write-db to apply.');
+  }
+}
+
+main().catch(err => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
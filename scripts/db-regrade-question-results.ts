@@ -0,0 +1,386 @@
+#!/usr/bin/env npx tsx
+/**
+ * Re-grade question_results after a question's answer key changed.
+ *
+ * Editing correct_answer or acceptable_variations (manually or via audit
+ * remediation) bumps questions.answer_key_version. Results graded against an
+ * older version are re-run through the local tiers (exact match, fuzzy logic),
+ * under the evaluation policy of the student's class; MCQ/TF results are re-checked against the key. Changed verdicts update
+ * is_correct/score and the quiz score, study_codes totals follow via triggers,
+ * and every change is recorded in question_result_regrades. Teacher-graded results
+ * are left alone.
+ *
+ * Borderline typed answers (local tiers inconclusive) keep their verdict unless
+ * --queue-semantic is given, which queues them for the semantic tier;
+ * --run-semantic then grades the queue with the Semantic API.
+ *
+ * Usage:
+ *   npx tsx scripts/db-regrade-question-results.ts [options]
+ *
+ * Options:
+ *   --write-db          Actually update results (default: dry run)
+ *   --dry-run           Only report verdicts that would change
+ *   --question <id>     Only re-grade results for one question
+ *   --limit <n>         Results per batch (default: 500)
+ *   --queue-semantic    Queue borderline typed answers for the semantic tier
+ *   --run-semantic      Grade queued answers with the Semantic API (calls Claude)
+ *   --help, -h          Show this help
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+config({ path: resolve(__dirname, '../.env.local') });
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createScriptSupabase } from './lib/db-queries';
+import { loadQuestionsByIds } from '../src/lib/question-loader';
+import {
+  evaluateChoiceAnswer,
+  evaluateTypedAnswer,
+  evaluateTypedAnswerLocally,
+  toTypedAnswerInput,
+  type EvaluationResult,
+} from '../src/lib/answer-evaluation';
+import { createClassPolicyLookup } from '../src/lib/class-evaluation-policies';
+import type { ClassEvaluationPolicy } from '../src/lib/evaluation-policy';
+import type { Question } from '../src/types';
+
+interface StaleResultRow {
+  id: string;
+  question_id: string;
+  study_code_id: string | null;
+  user_answer: string | null;
+  is_correct: boolean;
+  score: number | null;
+  answer_key_version: number;
+}
+
+interface Verdict {
+  isCorrect: boolean;
+  score: number | null;
+  tier: string;
+}
+
+interface RegradeStats {
+  checked: number;
+  changed: number;
+  queued: number;
+  borderline: number;
+  failed: number;
+}
+
+// ─── CLI ─────────────────────────────────────────────────────────────────────
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    writeDb: false,
+    dryRun: false,
+    questionId: null as string | null,
+    limit: 500,
+    queueSemantic: false,
+    runSemantic: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--write-db':
+        options.writeDb = true;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--question':
+        options.questionId = args[++i];
+        break;
+      case '--limit':
+        options.limit = parseInt(args[++i], 10);
+        break;
+      case '--queue-semantic':
+        options.queueSemantic = true;
+        break;
+      case '--run-semantic':
+        options.runSemantic = true;
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+Re-grade question_results After Answer Key Changes
+
+Usage: npx tsx scripts/db-regrade-question-results.ts [options]
+
+Options:
+  --write-db          Actually update results (default: dry run)
+  --dry-run           Only report verdicts that would change
+  --question <id>     Only re-grade results for one question
+  --limit <n>         Results per batch (default: 500)
+  --queue-semantic    Queue borderline typed answers for the semantic tier
+  --run-semantic      Grade queued answers with the Semantic API (calls Claude)
+  --help, -h          Show this help
+`);
+        process.exit(0);
+      default:
+        console.error(`Unknown option: ${args[i]}`);
+        process.exit(1);
+    }
+  }
+
+  if (!options.writeDb) {
+    options.dryRun = true;
+  }
+
+  if (!Number.isInteger(options.limit) || options.limit <= 0) {
+    console.error('--limit must be a positive integer');
+    process.exit(1);
+  }
+
+  return options;
+}
+
+// ─── Grading ─────────────────────────────────────────────────────────────────
+
+function isTypedQuestion(question: Question): boolean {
+  return question.type === 'writing' || question.type === 'fill-in-blank';
+}
+
+function toVerdict(evaluation: EvaluationResult): Verdict {
+  return {
+    isCorrect: evaluation.isCorrect,
+    score: Math.round(evaluation.score),
+    tier: evaluation.metadata?.evaluationTier ?? 'unknown',
+  };
+}
+
+/**
+ * Grade with the local tiers only. Returns null for borderline typed answers.
+ * Unanswered questions stay incorrect.
+ */
+function gradeLocally(question: Question, userAnswer: string | null, classPolicy: ClassEvaluationPolicy): Verdict | null {
+  if (userAnswer === null) {
+    return { isCorrect: false, score: 0, tier: 'empty_check' };
+  }
+
+  if (!isTypedQuestion(question)) {
+    return toVerdict(evaluateChoiceAnswer(question, userAnswer, true));
+  }
+
+  const evaluation = evaluateTypedAnswerLocally(
+    toTypedAnswerInput(question, userAnswer, true, classPolicy),
+    { useFuzzyLogic: true }
+  );
+  return evaluation ? toVerdict(evaluation) : null;
+}
+
+function formatVerdict(isCorrect: boolean, score: number | null): string {
+  return `${isCorrect ? '✓' : '✗'} ${score ?? '-'}`;
+}
+
+async function applyVerdict(
+  supabase: SupabaseClient,
+  result: StaleResultRow,
+  answerKeyVersion: number,
+  verdict: Verdict
+): Promise<boolean> {
+  const { error } = await supabase.rpc('apply_question_result_regrade', {
+    p_result_id: result.id,
+    p_answer_key_version: answerKeyVersion,
+    p_is_correct: verdict.isCorrect,
+    p_score: verdict.score,
+    p_evaluation_tier: verdict.tier,
+  });
+
+  if (error) {
+    console.error(`  ❌ Failed to apply re-grade for result ${result.id}: ${error.message}`);
+    return false;
+  }
+  return true;
+}
+
+// ─── Passes ──────────────────────────────────────────────────────────────────
+
+/**
+ * Re-grade stale results with the local tiers, batch by batch
+ */
+async function regradeStaleResults(
+  supabase: SupabaseClient,
+  options: ReturnType<typeof parseArgs>,
+  apply: boolean
+): Promise<RegradeStats> {
+  const stats: RegradeStats = { checked: 0, changed: 0, queued: 0, borderline: 0, failed: 0 };
+  const seen = new Set<string>();
+  const getClassPolicy = createClassPolicyLookup(supabase);
+
+  while (true) {
+    const { data, error } = await supabase.rpc('get_stale_question_results', {
+      p_question_id: options.questionId,
+      p_limit: options.limit,
+    });
+
+    if (error) {
+      console.error(`❌ get_stale_question_results failed: ${error.message}`);
+      process.exit(1);
+    }
+
+    // Rows that failed to apply come back; stop once a batch has nothing new
+    const batch = ((data || []) as StaleResultRow[]).filter((row) => !seen.has(row.id));
+    if (batch.length === 0) break;
+    batch.forEach((row) => seen.add(row.id));
+
+    const questionIds = [...new Set(batch.map((row) => row.question_id))];
+    const questions = new Map((await loadQuestionsByIds(questionIds)).map((q) => [q.id, q]));
+
+    for (const result of batch) {
+      const question = questions.get(result.question_id);
+      if (!question) {
+        stats.failed++;
+        continue;
+      }
+
+      stats.checked++;
+      const verdict = gradeLocally(question, result.user_answer, await getClassPolicy(result.study_code_id));
+
+      if (!verdict) {
+        stats.borderline++;
+
+        if (options.queueSemantic) {
+          console.log(`  ⏳ Queue for semantic tier: "${result.user_answer}" (${question.correctAnswer})`);
+          stats.queued++;
+
+          if (apply) {
+            const { error: queueError } = await supabase.from('question_result_regrades').insert({
+              question_result_id: result.id,
+              question_id: result.question_id,
+              study_code_id: result.study_code_id,
+              answer_key_version: result.answer_key_version,
+              old_is_correct: result.is_correct,
+              old_score: result.score,
+              status: 'queued',
+            });
+            if (queueError) {
+              console.error(`  ❌ Failed to queue result ${result.id}: ${queueError.message}`);
+              stats.failed++;
+            }
+          }
+        } else if (apply) {
+          // Keep the existing verdict, but mark it graded against the current key
+          const kept: Verdict = { isCorrect: result.is_correct, score: result.score, tier: 'unchanged' };
+          if (!(await applyVerdict(supabase, result, result.answer_key_version, kept))) stats.failed++;
+        }
+        continue;
+      }
+
+      const changed = verdict.isCorrect !== result.is_correct || verdict.score !== result.score;
+      if (changed) {
+        stats.changed++;
+        console.log(
+          `  ${verdict.isCorrect !== result.is_correct ? '🔄' : '📝'} ${question.id.slice(0, 8)} ` +
+          `"${result.user_answer}": ${formatVerdict(result.is_correct, result.score)} → ` +
+          `${formatVerdict(verdict.isCorrect, verdict.score)} (${verdict.tier})`
+        );
+      }
+
+      if (apply && !(await applyVerdict(supabase, result, result.answer_key_version, verdict))) {
+        stats.failed++;
+      }
+    }
+
+    // A dry run doesn't mark anything as re-graded, so the next batch would be the same rows
+    if (!apply) break;
+  }
+
+  return stats;
+}
+
+/**
+ * Grade queued borderline answers with the full chain (incl. Semantic API)
+ */
+async function runSemanticQueue(supabase: SupabaseClient, apply: boolean): Promise<RegradeStats> {
+  const stats: RegradeStats = { checked: 0, changed: 0, queued: 0, borderline: 0, failed: 0 };
+  const getClassPolicy = createClassPolicyLookup(supabase);
+
+  const { data, error } = await supabase
+    .from('question_result_regrades')
+    .select('question_result_id, answer_key_version, question_results!inner(id, question_id, study_code_id, user_answer, is_correct, score)')
+    .eq('status', 'queued')
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error(`❌ Failed to load semantic queue: ${error.message}`);
+    process.exit(1);
+  }
+
+  const queued = (data || []).map((row) => ({
+    answerKeyVersion: row.answer_key_version as number,
+    result: row.question_results as unknown as StaleResultRow,
+  }));
+  if (queued.length === 0) return stats;
+
+  const questionIds = [...new Set(queued.map((q) => q.result.question_id))];
+  const [questions, { data: versions }] = await Promise.all([
+    loadQuestionsByIds(questionIds),
+    supabase.from('questions').select('id, answer_key_version').in('id', questionIds),
+  ]);
+  const questionMap = new Map(questions.map((q) => [q.id, q]));
+  const versionMap = new Map((versions || []).map((v) => [v.id as string, v.answer_key_version as number]));
+
+  for (const { answerKeyVersion, result } of queued) {
+    const question = questionMap.get(result.question_id);
+
+    // The key changed again since queuing: the next local pass re-queues it
+    if (!question || versionMap.get(result.question_id) !== answerKeyVersion || result.user_answer === null) {
+      continue;
+    }
+
+    stats.checked++;
+    if (!apply) {
+      console.log(`  🤖 Would grade "${result.user_answer}" (${question.correctAnswer}) with Semantic API`);
+      continue;
+    }
+
+    const classPolicy = await getClassPolicy(result.study_code_id);
+    const verdict = toVerdict(await evaluateTypedAnswer(toTypedAnswerInput(question, result.user_answer, true, classPolicy)));
+    const changed = verdict.isCorrect !== result.is_correct || verdict.score !== result.score;
+    if (changed) {
+      stats.changed++;
+      console.log(
+        `  🤖 "${result.user_answer}": ${formatVerdict(result.is_correct, result.score)} → ` +
+        `${formatVerdict(verdict.isCorrect, verdict.score)}`
+      );
+    }
+
+    if (!(await applyVerdict(supabase, result, answerKeyVersion, verdict))) {
+      stats.failed++;
+    }
+  }
+
+  return stats;
+}
+
+async function main() {
+  const options = parseArgs();
+  const apply = options.writeDb && !options.dryRun;
+  const supabase = createScriptSupabase({ write: apply });
+
+  console.log(`🔁 Re-grading question results${options.questionId ? ` for question ${options.questionId}` : ''}${apply ? '' : ' (DRY RUN)'}...\n`);
+
+  const local = await regradeStaleResults(supabase, options, apply);
+  console.log(`\nLocal tiers: ${local.checked} checked, ${local.changed} changed, ${local.borderline} borderline` +
+    `${options.queueSemantic ? ` (${local.queued} queued for semantic tier)` : ' (kept existing verdict)'}` +
+    `${local.failed > 0 ? `, ${local.failed} failed` : ''}`);
+
+  if (options.runSemantic) {
+    console.log('\n🤖 Grading semantic queue...\n');
+    const semantic = await runSemanticQueue(supabase, apply);
+    console.log(`\nSemantic tier: ${semantic.checked} graded, ${semantic.changed} changed` +
+      `${semantic.failed > 0 ? `, ${semantic.failed} failed` : ''}`);
+  }
+
+  if (!apply) {
+    console.log('\nDRY RUN — no changes written. Use --write-db to apply.');
+  }
+}
+
+main().catch(err => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
@@ -0,0 +1,118 @@
+#!/usr/bin/env npx tsx
+/**
+ * Repair drifted study_codes counters (total_quizzes, total_questions, correct_answers).
+ *
+ * The counters are maintained incrementally by triggers on quiz_history and
+ * question_results. This recomputes them from the underlying rows via the
+ * repair_study_code_stats() RPC and reports every student whose counters drifted.
+ *
+ * Usage:
+ *   npx tsx scripts/db-repair-study-code-stats.ts [options]
+ *
+ * Options:
+ *   --write-db          Actually fix drifted counters
+ *   --dry-run           Only report drifted counters (default if no --write-db)
+ *   --help, -h          Show this help
+ */
+
+import { config } from 'dotenv';
+import { resolve } from 'path';
+config({ path: resolve(__dirname, '../.env.local') });
+
+import { createScriptSupabase } from './lib/db-queries';
+
+interface DriftedRow {
+  study_code_id: string;
+  code: string;
+  stored_quizzes: number;
+  actual_quizzes: number;
+  stored_questions: number;
+  actual_questions: number;
+  stored_correct: number;
+  actual_correct: number;
+}
+
+// ─── CLI ─────────────────────────────────────────────────────────────────────
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const options = {
+    writeDb: false,
+    dryRun: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    switch (args[i]) {
+      case '--write-db':
+        options.writeDb = true;
+        break;
+      case '--dry-run':
+        options.dryRun = true;
+        break;
+      case '--help':
+      case '-h':
+        console.log(`
+Repair study_codes Counters
+
+Usage: npx tsx scripts/db-repair-study-code-stats.ts [options]
+
+Options:
+  --write-db          Actually fix drifted counters
+  --dry-run           Only report drifted counters (default)
+  --help, -h          Show this help
+`);
+        process.exit(0);
+      default:
+        console.error(`Unknown option: ${args[i]}`);
+        process.exit(1);
+    }
+  }
+
+  if (!options.writeDb) {
+    options.dryRun = true;
+  }
+
+  return options;
+}
+
+function formatDrift(stored: number, actual: number): string {
+  return stored === actual ? `${actual}` : `${stored} → ${actual}`;
+}
+
+async function main() {
+  const options = parseArgs();
+  const apply = options.writeDb && !options.dryRun;
+  const supabase = createScriptSupabase({ write: apply });
+
+  console.log(`🔧 Checking study_codes counters${apply ? '' : ' (DRY RUN)'}...\n`);
+
+  const { data, error } = await supabase.rpc('repair_study_code_stats', { apply_fix: apply });
+
+  if (error) {
+    console.error(`❌ repair_study_code_stats failed: ${error.message}`);
+    process.exit(1);
+  }
+
+  const drifted = (data || []) as DriftedRow[];
+
+  if (drifted.length === 0) {
+    console.log('✅ All counters are consistent');
+    return;
+  }
+
+  for (const row of drifted) {
+    console.log(`  ${row.code}`);
+    console.log(`    quizzes:   ${formatDrift(row.stored_quizzes, row.actual_quizzes)}`);
+    console.log(`    questions: ${formatDrift(row.stored_questions, row.actual_questions)}`);
+    console.log(`    correct:   ${formatDrift(row.stored_correct, row.actual_correct)}`);
+  }
+
+  console.log(apply
+    ? `\nDone: repaired ${drifted.length} study code(s)`
+    : `\nDRY RUN — ${drifted.length} study code(s) would be repaired`);
+}
+
+main().catch(err => {
+  console.error('Fatal error:', err);
+  process.exit(1);
+});
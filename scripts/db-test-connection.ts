@@ -12,7 +12,8 @@ import { createClient } from '@supabase/supabase-js';
 config({ path: '.env.local' });
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
+// Questions are only readable with the secret key (answer keys stay server-side)
+const supabaseKey = process.env.SUPABASE_SECRET_KEY || process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || '';
 
 if (process.argv.includes('--help') || process.argv.includes('-h')) {
   console.log(`
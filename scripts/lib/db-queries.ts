@@ -34,8 +34,10 @@ export interface DistributionAnalysis {
  * Create a Supabase client using env vars.
  * Exits the process if credentials are missing.
  *
- * @param opts.write - Use SUPABASE_SECRET_KEY for write access (bypasses RLS).
- *                     Falls back to anon key with a warning if secret key is missing.
+ * Uses SUPABASE_SECRET_KEY when set: question tables hold answer keys and are
+ * not readable with the anon key. Falls back to the anon key with a warning.
+ *
+ * @param opts.write - Write access is required (bypasses RLS).
  */
 export function createScriptSupabase(opts?: { write?: boolean }): SupabaseClient {
   const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -47,14 +49,13 @@ export function createScriptSupabase(opts?: { write?: boolean }): SupabaseClient
     process.exit(1);
   }
 
-  if (opts?.write) {
-    if (!secretKey) {
-      console.warn('⚠️  SUPABASE_SECRET_KEY not set — using anon key (may fail with RLS)');
-    }
-    return createClient(supabaseUrl, secretKey || anonKey);
+  if (!secretKey) {
+    console.warn(opts?.write
+      ? '⚠️  SUPABASE_SECRET_KEY not set — using anon key (may fail with RLS)'
+      : '⚠️  SUPABASE_SECRET_KEY not set — using anon key (questions will not be readable)');
   }
 
-  return createClient(supabaseUrl, anonKey);
+  return createClient(supabaseUrl, secretKey || anonKey);
 }
 
 export const PAGE_SIZE = 1000;
@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import { verifySession, logoutAdmin } from '@/lib/auth';
 import { FEATURES } from '@/lib/feature-flags';
+import { SCHEDULER_IDS, getScheduler } from '@/lib/scheduler';
 import {
   getClasswideStats,
   getAllStudents,
@@ -12,6 +13,7 @@ import {
   exportStudentsToCSV,
   updateAdminLabel,
   updateCountdownOverride,
+  updateSchedulerOverride,
   deleteStudent,
   deleteStudents,
   type ClasswideStats,
@@ -20,6 +22,8 @@ import {
 } from '@/lib/admin';
 import ConfirmationModal from '@/components/ConfirmationModal';
 import StatCard from '@/components/StatCard';
+import AppealReviewQueue from '@/components/AppealReviewQueue';
+import TeacherGradingQueue from '@/components/TeacherGradingQueue';
 import { getAccuracyColor, getMasteryColor, getMasteryBgColor } from '@/lib/color-utils';
 import LoadingSpinner from '@/components/LoadingSpinner';
 
@@ -170,6 +174,26 @@ export default function AdminPage() {
     }
   };
 
+  // Handle scheduler override update
+  const handleUpdateScheduler = async (value: string | null) => {
+    if (!selectedStudent) return;
+
+    try {
+      const success = await updateSchedulerOverride(selectedStudent.studyCode.code, value);
+      if (success) {
+        setSelectedStudent({
+          ...selectedStudent,
+          studyCode: {
+            ...selectedStudent.studyCode,
+            scheduler: value,
+          },
+        });
+      }
+    } catch (error) {
+      console.error('Error updating scheduler override:', error);
+    }
+  };
+
   // Handle export
   const handleExport = () => {
     const csv = exportStudentsToCSV(filteredStudents);
@@ -396,6 +420,25 @@ export default function AdminPage() {
                   </div>
                 )}
               </div>
+
+              {/* Spaced Repetition Scheduler Override */}
+              {FEATURES.LEITNER_MODE && (
+                <div className="mt-4">
+                  <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+                    Review Scheduler:
+                  </label>
+                  <select
+                    value={selectedStudent.studyCode.scheduler ?? ''}
+                    onChange={(e) => handleUpdateScheduler(e.target.value || null)}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:border-indigo-500 focus:outline-none dark:bg-gray-700 dark:text-white"
+                  >
+                    <option value="">Default ({getScheduler(FEATURES.SCHEDULER).label})</option>
+                    {SCHEDULER_IDS.map((id) => (
+                      <option key={id} value={id}>{getScheduler(id).label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
             </div>
             <div className="text-right">
               <div className="text-sm text-gray-600 dark:text-gray-400">Last Active (PST)</div>
@@ -563,6 +606,12 @@ export default function AdminPage() {
         </div>
       )}
 
+      {/* Teacher Grading Queue (hidden when empty) */}
+      <TeacherGradingQueue />
+
+      {/* Appeal Review Queue (hidden when empty) */}
+      <AppealReviewQueue />
+
       {/* Controls */}
       <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
         <div className="flex flex-col md:flex-row gap-4">
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-api-guard';
+import { isSupabaseAdminAvailable } from '@/lib/supabase-admin';
+import { acceptAppeal, rejectAppeal } from '@/lib/answer-appeals';
+
+/**
+ * Resolve a pending appeal: { status: 'accepted' | 'rejected' }
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ appealId: string }> }
+) {
+  const authError = requireAdmin(request);
+  if (authError) return authError;
+
+  if (!isSupabaseAdminAvailable()) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const { appealId } = await params;
+
+  try {
+    const { status } = await request.json();
+
+    if (status !== 'accepted' && status !== 'rejected') {
+      return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+    }
+
+    const resolved = status === 'accepted'
+      ? await acceptAppeal(appealId)
+      : await rejectAppeal(appealId);
+
+    if (!resolved) {
+      return NextResponse.json({ error: 'Appeal not found or already resolved' }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error resolving appeal:', error);
+    return NextResponse.json({ error: 'Failed to resolve appeal' }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-api-guard';
+import { isSupabaseAdminAvailable } from '@/lib/supabase-admin';
+import { listAppeals, isAppealStatus } from '@/lib/answer-appeals';
+
+export async function GET(request: NextRequest) {
+  const authError = requireAdmin(request);
+  if (authError) return authError;
+
+  if (!isSupabaseAdminAvailable()) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const status = request.nextUrl.searchParams.get('status') || 'pending';
+  if (!isAppealStatus(status)) {
+    return NextResponse.json({ error: 'Invalid status' }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await listAppeals(status));
+  } catch (error) {
+    console.error('Error fetching appeals:', error);
+    return NextResponse.json({ error: 'Failed to fetch appeals' }, { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-api-guard';
+import { isSupabaseAdminAvailable } from '@/lib/supabase-admin';
+import { listClassEvaluationPolicies, setClassEvaluationPolicy } from '@/lib/class-evaluation-policies';
+import { parseClassEvaluationPolicy } from '@/lib/evaluation-policy';
+
+export async function GET(request: NextRequest) {
+  const authError = requireAdmin(request);
+  if (authError) return authError;
+
+  if (!isSupabaseAdminAvailable()) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  try {
+    return NextResponse.json(await listClassEvaluationPolicies());
+  } catch (error) {
+    console.error('Error fetching class evaluation policies:', error);
+    return NextResponse.json({ error: 'Failed to fetch class evaluation policies' }, { status: 500 });
+  }
+}
+
+/**
+ * Set a class's evaluation policy override: { classLabel, policy } (classLabel is the
+ * students' admin label; an empty or null policy removes the override)
+ */
+export async function PUT(request: NextRequest) {
+  const authError = requireAdmin(request);
+  if (authError) return authError;
+
+  if (!isSupabaseAdminAvailable()) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  try {
+    const { classLabel, policy } = await request.json();
+
+    if (typeof classLabel !== 'string' || !classLabel.trim()) {
+      return NextResponse.json({ error: 'Invalid class label' }, { status: 400 });
+    }
+    if (policy !== null && (typeof policy !== 'object' || Array.isArray(policy))) {
+      return NextResponse.json({ error: 'Invalid policy' }, { status: 400 });
+    }
+
+    await setClassEvaluationPolicy(classLabel, parseClassEvaluationPolicy(policy));
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error saving class evaluation policy:', error);
+    return NextResponse.json({ error: 'Failed to save class evaluation policy' }, { status: 500 });
+  }
+}
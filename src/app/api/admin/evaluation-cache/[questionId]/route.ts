@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-api-guard';
+import { isSupabaseAdminAvailable } from '@/lib/supabase-admin';
+import { invalidateEvaluationCache } from '@/lib/evaluation-cache';
+
+/**
+ * Invalidate all cached Semantic API verdicts for a question
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ questionId: string }> }
+) {
+  const authError = requireAdmin(request);
+  if (authError) return authError;
+
+  if (!isSupabaseAdminAvailable()) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const { questionId } = await params;
+
+  try {
+    const deleted = await invalidateEvaluationCache(questionId);
+    console.log(`🧹 Invalidated ${deleted} cached evaluation(s) for question ${questionId}`);
+    return NextResponse.json({ success: true, deleted });
+  } catch (error) {
+    console.error('Error invalidating evaluation cache:', error);
+    return NextResponse.json({ error: 'Failed to invalidate evaluation cache' }, { status: 500 });
+  }
+}
@@ -1,17 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { verifyAdminPassword, createSessionCookie } from '@/lib/admin-auth';
-import { checkRateLimit, getClientIp } from '@/lib/rate-limiter';
-
-const LOGIN_RATE_LIMIT = { windowMs: 60 * 1000, maxRequests: 5 };
+import { checkRateLimit, getClientIp, getRetryAfterSeconds } from '@/lib/rate-limiter';
 
 export async function POST(request: NextRequest) {
-  const clientIp = getClientIp(request);
-  const rateLimitResult = checkRateLimit(`admin-login:${clientIp}`, LOGIN_RATE_LIMIT);
+  const rateLimitResult = await checkRateLimit('adminLogin', { ip: getClientIp(request) });
 
   if (!rateLimitResult.allowed) {
     return NextResponse.json(
       { error: 'Too many login attempts. Please wait.' },
-      { status: 429, headers: { 'Retry-After': String(Math.ceil((rateLimitResult.resetAt - Date.now()) / 1000)) } }
+      { status: 429, headers: { 'Retry-After': String(getRetryAfterSeconds(rateLimitResult)) } }
     );
   }
 
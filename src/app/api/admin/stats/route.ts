@@ -2,6 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/admin-api-guard';
 import { supabaseAdmin, isSupabaseAdminAvailable } from '@/lib/supabase-admin';
 
+interface ClasswideStatsRow {
+  total_students: number;
+  total_quizzes: number;
+  total_questions: number;
+  total_correct: number;
+  active_students_last_7_days: number;
+  active_students_last_30_days: number;
+}
+
 export async function GET(request: NextRequest) {
   const authError = requireAdmin(request);
   if (authError) return authError;
@@ -11,43 +20,26 @@ export async function GET(request: NextRequest) {
   }
 
   try {
-    const { count: totalStudents } = await supabaseAdmin!
-      .from('study_codes')
-      .select('*', { count: 'exact', head: true });
-
-    const { count: totalQuizzes } = await supabaseAdmin!
-      .from('quiz_history')
-      .select('*', { count: 'exact', head: true });
-
-    const { data: studyCodes } = await supabaseAdmin!
-      .from('study_codes')
-      .select('total_questions, correct_answers');
-
-    const totalQuestions = studyCodes?.reduce((sum: number, sc: { total_questions: number }) => sum + (sc.total_questions || 0), 0) || 0;
-    const totalCorrect = studyCodes?.reduce((sum: number, sc: { correct_answers: number }) => sum + (sc.correct_answers || 0), 0) || 0;
-    const averageAccuracy = totalQuestions > 0 ? (totalCorrect / totalQuestions) * 100 : 0;
+    // Aggregated in Postgres from the trigger-maintained study_codes counters
+    const { data, error } = await supabaseAdmin!
+      .rpc('get_classwide_stats')
+      .single<ClasswideStatsRow>();
 
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-    const { count: activeStudentsLast7Days } = await supabaseAdmin!
-      .from('study_codes')
-      .select('*', { count: 'exact', head: true })
-      .gte('last_active_at', sevenDaysAgo.toISOString());
+    if (error || !data) {
+      console.error('Error fetching classwide stats:', error);
+      return NextResponse.json({ error: 'Failed to fetch stats' }, { status: 500 });
+    }
 
-    const thirtyDaysAgo = new Date();
-    thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-    const { count: activeStudentsLast30Days } = await supabaseAdmin!
-      .from('study_codes')
-      .select('*', { count: 'exact', head: true })
-      .gte('last_active_at', thirtyDaysAgo.toISOString());
+    const totalQuestions = data.total_questions;
+    const averageAccuracy = totalQuestions > 0 ? (data.total_correct / totalQuestions) * 100 : 0;
 
     return NextResponse.json({
-      totalStudents: totalStudents || 0,
-      totalQuizzes: totalQuizzes || 0,
+      totalStudents: data.total_students,
+      totalQuizzes: data.total_quizzes,
       totalQuestions,
       averageAccuracy,
-      activeStudentsLast7Days: activeStudentsLast7Days || 0,
-      activeStudentsLast30Days: activeStudentsLast30Days || 0,
+      activeStudentsLast7Days: data.active_students_last_7_days,
+      activeStudentsLast30Days: data.active_students_last_30_days,
     });
   } catch (error) {
     console.error('Error fetching classwide stats:', error);
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { requireAdmin } from '@/lib/admin-api-guard';
 import { supabaseAdmin, isSupabaseAdminAvailable } from '@/lib/supabase-admin';
+import { isSchedulerId } from '@/lib/scheduler';
 
 export async function GET(
   request: NextRequest,
@@ -33,6 +34,7 @@ export async function GET(
       displayName: studyCodeData.display_name,
       adminLabel: studyCodeData.admin_label,
       wrongAnswerCountdown: studyCodeData.wrong_answer_countdown ?? null,
+      scheduler: studyCodeData.scheduler ?? null,
       totalQuizzes: studyCodeData.total_quizzes || 0,
       totalQuestions,
       correctAnswers,
@@ -90,6 +92,12 @@ export async function PATCH(
 
     if ('adminLabel' in body) updates.admin_label = body.adminLabel;
     if ('wrongAnswerCountdown' in body) updates.wrong_answer_countdown = body.wrongAnswerCountdown;
+    if ('scheduler' in body) {
+      if (body.scheduler !== null && !isSchedulerId(body.scheduler)) {
+        return NextResponse.json({ error: 'Invalid scheduler' }, { status: 400 });
+      }
+      updates.scheduler = body.scheduler;
+    }
 
     if (Object.keys(updates).length === 0) {
       return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 });
@@ -10,6 +10,7 @@ function mapStudentRow(sc: Record<string, unknown>) {
     displayName: sc.display_name,
     adminLabel: sc.admin_label,
     wrongAnswerCountdown: sc.wrong_answer_countdown ?? null,
+    scheduler: sc.scheduler ?? null,
     totalQuizzes: (sc.total_quizzes as number) || 0,
     totalQuestions,
     correctAnswers,
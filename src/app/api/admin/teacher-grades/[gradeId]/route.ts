@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAdmin } from '@/lib/admin-api-guard';
+import { isSupabaseAdminAvailable } from '@/lib/supabase-admin';
+import { gradeAnswer } from '@/lib/teacher-grading';
+
+/**
+ * Grade a held answer: { action: 'accept', comment? } keeps the suggested verdict,
+ * { action: 'override', score, comment? } sets the score (0-100)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ gradeId: string }> }
+) {
+  const authError = requireAdmin(request);
+  if (authError) return authError;
+
+  if (!isSupabaseAdminAvailable()) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const { gradeId } = await params;
+
+  try {
+    const { action, score, comment } = await request.json();
+
+    if (comment !== undefined && comment !== null && typeof comment !== 'string') {
+      return NextResponse.json({ error: 'Invalid comment' }, { status: 400 });
+    }
+
+    let graded: boolean;
+    if (action === 'accept') {
+      graded = await gradeAnswer(gradeId, { action, comment });
+    } else if (action === 'override') {
+      if (typeof score !== 'number' || !Number.isFinite(score) || score < 0 || score > 100) {
+        return NextResponse.json({ error: 'Score must be between 0 and 100' }, { status: 400 });
+      }
+      graded = await gradeAnswer(gradeId, { action, score, comment });
+    } else {
+      return NextResponse.json({ error: 'Invalid action' }, { status: 400 });
+    }
+
+    if (!graded) {
+      return NextResponse.json({ error: 'Answer not found or already graded' }, { status: 409 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error grading answer:', error);
+    return NextResponse.json({ error: 'Failed to grade answer' }, { status: 500 });
+  }
+}
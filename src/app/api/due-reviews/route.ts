@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDueQuestions } from '@/lib/question-loader';
+import { getQuestionBank } from '@/lib/question-bank';
+import { getModeConfig } from '@/lib/quiz-modes';
+import { supabaseAdmin, isSupabaseAdminAvailable } from '@/lib/supabase-admin';
+import { CARD_STATE_COLUMNS, cardStateFromRow } from '@/lib/scheduler';
+
+/**
+ * Count the questions review mode would serve as due for a study code.
+ * Runs server-side because only active questions are served and the questions
+ * table isn't readable with the anon key.
+ */
+export async function GET(request: NextRequest) {
+  if (!isSupabaseAdminAvailable()) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const code = request.nextUrl.searchParams.get('studyCode')?.trim().toLowerCase();
+  if (!code) {
+    return NextResponse.json({ error: 'Study code is required' }, { status: 400 });
+  }
+
+  try {
+    const { data: studyCode } = await supabaseAdmin!
+      .from('study_codes')
+      .select('id')
+      .eq('code', code)
+      .maybeSingle();
+
+    if (!studyCode) {
+      return NextResponse.json({ error: 'Invalid study code' }, { status: 404 });
+    }
+
+    const { data, error } = await supabaseAdmin!
+      .from('leitner_state')
+      .select(CARD_STATE_COLUMNS)
+      .eq('study_code_id', studyCode.id);
+
+    if (error) {
+      throw new Error(`Failed to load review schedule: ${error.message}`);
+    }
+
+    // Same pool as review mode: the full bank of active questions, by mode type
+    const bank = await getQuestionBank({});
+    const { allowedTypes } = getModeConfig('review');
+    const pool = bank.questions.filter((q) => allowedTypes.includes(q.type));
+    const cards = new Map((data || []).map((r) => [r.question_id as string, cardStateFromRow(r)]));
+
+    return NextResponse.json({ count: getDueQuestions(pool, cards).length });
+  } catch (error) {
+    console.error('Error counting due reviews:', error);
+    return NextResponse.json({ error: 'Failed to count due reviews' }, { status: 500 });
+  }
+}
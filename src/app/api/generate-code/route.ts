@@ -1,9 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabaseAdmin, isSupabaseAdminAvailable } from '@/lib/supabase-admin';
 import { supabase, isSupabaseAvailable } from '@/lib/supabase';
-import { checkRateLimit, getClientIp } from '@/lib/rate-limiter';
+import { checkRateLimit, getClientIp, getRetryAfterSeconds } from '@/lib/rate-limiter';
 
-const RATE_LIMIT = { windowMs: 60_000, maxRequests: 10 };
 const MAX_ATTEMPTS = 10;
 
 /** Pick a random row from study_code_source_words by category using count + offset. */
@@ -32,12 +31,11 @@ async function pickRandom(category: 'adjective' | 'animal') {
  * prefers alliterative pairs, inserts into study_codes with collision retry.
  */
 export async function POST(request: NextRequest) {
-  const ip = getClientIp(request);
-  const rl = checkRateLimit(`generate-code:${ip}`, RATE_LIMIT);
+  const rl = await checkRateLimit('generateCode', { ip: getClientIp(request) });
   if (!rl.allowed) {
     return NextResponse.json(
       { error: 'Too many requests. Please try again later.' },
-      { status: 429, headers: { 'Retry-After': String(Math.ceil((rl.resetAt - Date.now()) / 1000)) } },
+      { status: 429, headers: { 'Retry-After': String(getRetryAfterSeconds(rl)) } },
     );
   }
 
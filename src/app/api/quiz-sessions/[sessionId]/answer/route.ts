@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin, isSupabaseAdminAvailable } from '@/lib/supabase-admin';
+import { loadQuestionsByIds, toAnswerReveal } from '@/lib/question-loader';
+import { evaluateQuestionAnswer, shouldIncludeSuperuserMetadata, withoutEvaluationTrace } from '@/lib/answer-evaluation';
+import { checkRateLimit, getClientIp, getRetryAfterSeconds } from '@/lib/rate-limiter';
+import { recordReview, toEvaluationRecord } from '@/lib/progress-server';
+import { FEATURES } from '@/lib/feature-flags';
+import { createEvaluationStream, wantsEvaluationStream, type EvaluationProgressHandler } from '@/lib/evaluation-stream';
+import { isTeacherGraded } from '@/lib/teacher-grading';
+import { getStudentClassPolicy } from '@/lib/class-evaluation-policies';
+
+/**
+ * Submit an answer for one question in a quiz session.
+ * The server grades it against the stored answer key and only then reveals
+ * the key and explanation. The first answer per question is recorded;
+ * later submissions (superuser "try another answer") are graded but not recorded.
+ * Recorded answers also update the student's spaced repetition state and keep
+ * the full evaluation trace (tier, similarity, confidence, feedback) for every student;
+ * the trace is only returned to superusers.
+ * Teacher-graded answers (see teacher-grading.ts), and answers whose automated verdict
+ * can't be trusted (needsTeacherReview), are recorded with the verdict as a suggestion
+ * (which queues them for the teacher) instead of updating spaced repetition state.
+ * With Accept: application/x-ndjson, the feedback is streamed as it is generated,
+ * followed by the usual response body (see evaluation-stream.ts).
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  if (!isSupabaseAdminAvailable()) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const { sessionId } = await params;
+
+  try {
+    const { questionId, answer, superuserOverride } = await request.json();
+
+    if (!questionId || typeof answer !== 'string') {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const { data: session, error: sessionError } = await supabaseAdmin!
+      .from('quiz_sessions')
+      .select('id, study_code_id, mode, question_ids, finished_at')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Quiz session not found' }, { status: 404 });
+    }
+
+    if (session.finished_at) {
+      return NextResponse.json({ error: 'Quiz session already finished' }, { status: 409 });
+    }
+
+    if (!(session.question_ids as string[]).includes(questionId)) {
+      return NextResponse.json({ error: 'Question is not part of this session' }, { status: 400 });
+    }
+
+    const [question] = await loadQuestionsByIds([questionId]);
+    if (!question) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 });
+    }
+
+    const isTypedAnswer = question.type === 'writing' || question.type === 'fill-in-blank';
+
+    // Typed answers may reach the Semantic API: share the evaluation rate limit
+    if (isTypedAnswer) {
+      const rateLimitResult = await checkRateLimit('evaluate', {
+        ip: getClientIp(request),
+        studyCodeId: session.study_code_id,
+      });
+      if (!rateLimitResult.allowed) {
+        return NextResponse.json(
+          { error: 'Too many requests. Please wait before submitting again.' },
+          {
+            status: 429,
+            headers: {
+              'Retry-After': String(getRetryAfterSeconds(rateLimitResult)),
+              'X-RateLimit-Remaining': '0',
+            },
+          }
+        );
+      }
+    }
+
+    const includeSuperuserMetadata = await shouldIncludeSuperuserMetadata(
+      session.study_code_id ?? undefined,
+      superuserOverride
+    );
+
+    const classPolicy = isTypedAnswer ? await getStudentClassPolicy(supabaseAdmin!, session.study_code_id) : {};
+
+    const gradeAndRecord = async (onProgress?: EvaluationProgressHandler) => {
+      // Always build the trace so it can be recorded; strip it below for non-superusers
+      const evaluation = await evaluateQuestionAnswer(question, answer, true, { onProgress, classPolicy });
+      const heldForTeacher = isTeacherGraded(question, session.mode) || evaluation.needsTeacherReview === true;
+
+      // Record only the first answer (primary key on session_id + question_id)
+      const { data: inserted, error: insertError } = await supabaseAdmin!
+        .from('quiz_session_answers')
+        .upsert({
+          session_id: sessionId,
+          question_id: questionId,
+          user_answer: answer,
+          is_correct: evaluation.isCorrect,
+          score: Math.round(evaluation.score),
+          ...toEvaluationRecord(evaluation),
+          teacher_grade: heldForTeacher ? 'pending' : null,
+        }, { onConflict: 'session_id,question_id', ignoreDuplicates: true })
+        .select('question_id');
+
+      if (insertError) {
+        throw new Error(`Failed to record answer: ${insertError.message}`);
+      }
+
+      const recorded = (inserted || []).length > 0;
+
+      if (recorded && heldForTeacher) {
+        evaluation.awaitingTeacherGrade = true;
+      } else if (recorded && session.study_code_id && FEATURES.LEITNER_MODE) {
+        // MCQ/TF have no partial credit, so only typed answers pass a score
+        await recordReview(session.study_code_id, questionId, {
+          isCorrect: evaluation.isCorrect,
+          score: isTypedAnswer ? evaluation.score : undefined,
+        });
+      }
+
+      return {
+        evaluation: includeSuperuserMetadata ? evaluation : withoutEvaluationTrace(evaluation),
+        reveal: toAnswerReveal(question),
+        recorded,
+      };
+    };
+
+    if (wantsEvaluationStream(request)) {
+      return createEvaluationStream(gradeAndRecord, 'Failed to submit answer');
+    }
+
+    return NextResponse.json(await gradeAndRecord());
+  } catch (error) {
+    console.error('Error submitting session answer:', error);
+    return NextResponse.json({ error: 'Failed to submit answer' }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isSupabaseAdminAvailable } from '@/lib/supabase-admin';
+import { createAppeal } from '@/lib/answer-appeals';
+
+/**
+ * Appeal a recorded answer that was graded wrong.
+ * The appeal is queued for teacher review in the admin dashboard.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  if (!isSupabaseAdminAvailable()) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const { sessionId } = await params;
+
+  try {
+    const { questionId, comment } = await request.json();
+
+    if (!questionId) {
+      return NextResponse.json({ error: 'Missing required fields' }, { status: 400 });
+    }
+
+    const result = await createAppeal(sessionId, questionId, typeof comment === 'string' ? comment : null);
+    if (!result.ok) {
+      return NextResponse.json({ error: result.error }, { status: result.status });
+    }
+
+    console.log(`📨 Appeal ${result.appealId} submitted for question ${questionId}`);
+    return NextResponse.json({ appealId: result.appealId });
+  } catch (error) {
+    console.error('Error submitting appeal:', error);
+    return NextResponse.json({ error: 'Failed to submit appeal' }, { status: 500 });
+  }
+}
@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { supabaseAdmin, isSupabaseAdminAvailable } from '@/lib/supabase-admin';
+import { saveSessionResults, SESSION_ANSWER_COLUMNS, type SessionAnswerRow } from '@/lib/progress-server';
+
+/**
+ * Finish a quiz session and return the server-computed score.
+ * Unanswered questions count as incorrect. The first call records the results
+ * to quiz_history for the session's study code; later calls return the same summary.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ sessionId: string }> }
+) {
+  if (!isSupabaseAdminAvailable()) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  const { sessionId } = await params;
+
+  try {
+    const { data: session, error: sessionError } = await supabaseAdmin!
+      .from('quiz_sessions')
+      .select('id, study_code_id, unit_id, difficulty, question_ids, started_at, finished_at, quiz_history_id')
+      .eq('id', sessionId)
+      .maybeSingle();
+
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Quiz session not found' }, { status: 404 });
+    }
+
+    const { data: answers, error: answersError } = await supabaseAdmin!
+      .from('quiz_session_answers')
+      .select(SESSION_ANSWER_COLUMNS)
+      .eq('session_id', sessionId);
+
+    if (answersError) {
+      console.error('Error loading session answers:', answersError);
+      return NextResponse.json({ error: 'Failed to finish quiz session' }, { status: 500 });
+    }
+
+    let quizHistoryId = (session.quiz_history_id as string | null) ?? null;
+
+    if (!session.finished_at) {
+      const finishedAt = new Date();
+
+      // Claim the session so concurrent calls can't record results twice
+      const { data: claimed, error: updateError } = await supabaseAdmin!
+        .from('quiz_sessions')
+        .update({ finished_at: finishedAt.toISOString() })
+        .eq('id', sessionId)
+        .is('finished_at', null)
+        .select('id');
+
+      if (updateError) {
+        console.error('Error finishing quiz session:', updateError);
+        return NextResponse.json({ error: 'Failed to finish quiz session' }, { status: 500 });
+      }
+
+      if ((claimed || []).length > 0 && session.study_code_id) {
+        quizHistoryId = await saveSessionResults(
+          {
+            id: session.id,
+            study_code_id: session.study_code_id,
+            unit_id: session.unit_id,
+            difficulty: session.difficulty,
+            question_ids: session.question_ids as string[],
+            started_at: session.started_at,
+          },
+          (answers || []) as SessionAnswerRow[],
+          finishedAt
+        );
+
+        if (quizHistoryId) {
+          await supabaseAdmin!
+            .from('quiz_sessions')
+            .update({ quiz_history_id: quizHistoryId })
+            .eq('id', sessionId);
+          console.log(`✅ Quiz session ${sessionId} saved to quiz history`);
+        }
+      }
+    }
+
+    const totalQuestions = (session.question_ids as string[]).length;
+    // Same count as saveSessionResults: answers waiting for the teacher aren't correct yet
+    const correctAnswers = (answers || []).filter((a) => a.is_correct && a.teacher_grade !== 'pending').length;
+
+    return NextResponse.json({
+      totalQuestions,
+      answeredQuestions: (answers || []).length,
+      correctAnswers,
+      scorePercentage: totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : 0,
+      quizHistoryId,
+    });
+  } catch (error) {
+    console.error('Error finishing quiz session:', error);
+    return NextResponse.json({ error: 'Failed to finish quiz session' }, { status: 500 });
+  }
+}
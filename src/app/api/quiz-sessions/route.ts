@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { selectDueQuestions, selectQuestions, toQuizQuestion, type ReviewState } from '@/lib/question-loader';
+import { getQuestionBank, queryQuestionIndex } from '@/lib/question-bank';
+import { getModeConfig, QuizMode } from '@/lib/quiz-modes';
+import { FEATURES } from '@/lib/feature-flags';
+import { supabaseAdmin, isSupabaseAdminAvailable } from '@/lib/supabase-admin';
+import { CARD_STATE_COLUMNS, cardStateFromRow, isDue, resolveScheduler } from '@/lib/scheduler';
+
+/** Most questions one session can fix (largest size offered on the home page) */
+const MAX_QUESTIONS_PER_SESSION = 50;
+
+/**
+ * Start a quiz session.
+ * Selects questions, stores them server-side with the session, and returns
+ * them without answer keys. Answers are graded by /api/quiz-sessions/[sessionId]/answer.
+ */
+export async function POST(request: NextRequest) {
+  if (!isSupabaseAdminAvailable()) {
+    return NextResponse.json({ error: 'Database not available' }, { status: 503 });
+  }
+
+  try {
+    const body = await request.json();
+    const {
+      unitId,
+      topic,
+      numQuestions,
+      difficulty,
+      mode = 'practice' as QuizMode,
+      studyCodeId,
+      leitnerMode,
+    } = body;
+
+    // Validate inputs
+    if (!numQuestions) {
+      return NextResponse.json(
+        { error: 'Missing required parameters' },
+        { status: 400 }
+      );
+    }
+
+    const questionCount = Number(numQuestions);
+    if (!Number.isInteger(questionCount) || questionCount < 1 || questionCount > MAX_QUESTIONS_PER_SESSION) {
+      return NextResponse.json(
+        { error: `Number of questions must be between 1 and ${MAX_QUESTIONS_PER_SESSION}` },
+        { status: 400 }
+      );
+    }
+
+    // Get mode configuration
+    const modeConfig = getModeConfig(mode);
+    console.log(`🎮 Quiz mode: ${modeConfig.label}`);
+
+    if (modeConfig.dueOnly && (!studyCodeId || !FEATURES.LEITNER_MODE)) {
+      return NextResponse.json(
+        { error: `${modeConfig.label} requires a study code with spaced repetition enabled` },
+        { status: 400 }
+      );
+    }
+
+    // Cached, indexed question bank. Review mode serves due cards from every
+    // unit and difficulty, so it needs the full bank
+    const bankFilter = modeConfig.dueOnly ? {} : { unitId, difficulty };
+    const bank = await getQuestionBank(bankFilter);
+    const isFullBank = (!bankFilter.unitId || bankFilter.unitId === 'all') && !bankFilter.difficulty;
+
+    console.log(`📚 Question pool: ${bank.questions.length} questions`);
+
+    // An empty unit/difficulty slice falls through to "No matching questions" below
+    if (bank.questions.length === 0 && isFullBank) {
+      return NextResponse.json(
+        {
+          error: 'No questions available',
+          details: 'Please run "npm run generate-questions --sync-db" to populate the question bank'
+        },
+        { status: 500 }
+      );
+    }
+
+    // Results are recorded against this study code, so it must exist
+    let studyCodeRow: { id: string; scheduler: string | null } | null = null;
+    if (studyCodeId) {
+      const { data } = await supabaseAdmin!
+        .from('study_codes')
+        .select('id, scheduler')
+        .eq('id', studyCodeId)
+        .maybeSingle();
+
+      if (!data) {
+        return NextResponse.json({ error: 'Invalid study code' }, { status: 400 });
+      }
+      studyCodeRow = data;
+    }
+
+    // Load spaced repetition state for weighted selection if adaptive mode is active
+    let reviewState: ReviewState | undefined;
+    if ((leitnerMode || modeConfig.dueOnly) && studyCodeRow && FEATURES.LEITNER_MODE) {
+      const { data, error } = await supabaseAdmin!
+        .from('leitner_state')
+        .select(CARD_STATE_COLUMNS)
+        .eq('study_code_id', studyCodeRow.id);
+
+      if (!error && data) {
+        const scheduler = resolveScheduler(studyCodeRow.scheduler);
+        const cards = new Map(data.map((r) => [r.question_id as string, cardStateFromRow(r)]));
+        reviewState = { cards, scheduler };
+        const dueCount = Array.from(cards.values()).filter((c) => isDue(c)).length;
+        console.log(`🎯 ${scheduler.label}: loaded ${cards.size} question states (${dueCount} due) for adaptive selection`);
+      }
+    }
+
+    // Select questions based on criteria and mode
+    let result;
+    if (modeConfig.dueOnly) {
+      if (!reviewState) {
+        return NextResponse.json({ error: 'Failed to load review schedule' }, { status: 500 });
+      }
+
+      const { data: mastery } = await supabaseAdmin!
+        .from('concept_mastery')
+        .select('topic')
+        .eq('study_code_id', studyCodeId)
+        .order('mastery_percentage', { ascending: true });
+
+      result = selectDueQuestions(bank.questions, {
+        numQuestions: questionCount,
+        difficulty,
+        allowedTypes: modeConfig.allowedTypes,
+        reviewState,
+        weakTopics: (mastery || []).map((m) => m.topic as string),
+      });
+    } else {
+      const candidates = queryQuestionIndex(bank, { topic, types: modeConfig.allowedTypes });
+      result = selectQuestions(candidates, {
+        unitId: unitId || 'all',
+        topic,
+        difficulty,
+        numQuestions: questionCount,
+        allowedTypes: modeConfig.allowedTypes,
+        typeDistribution: modeConfig.typeDistribution,
+        reviewState,
+      });
+    }
+
+    if (result.questions.length === 0) {
+      return NextResponse.json(
+        {
+          error: 'No matching questions found',
+          details: `No questions found for the selected criteria. Try different filters.`
+        },
+        { status: 404 }
+      );
+    }
+
+    const { data: session, error: sessionError } = await supabaseAdmin!
+      .from('quiz_sessions')
+      .insert({
+        study_code_id: studyCodeRow?.id ?? null,
+        unit_id: unitId || 'all',
+        difficulty,
+        mode: modeConfig.id,
+        question_ids: result.questions.map((q) => q.id),
+      })
+      .select('id')
+      .single();
+
+    if (sessionError || !session) {
+      console.error('Error creating quiz session:', sessionError);
+      return NextResponse.json({ error: 'Failed to start quiz session' }, { status: 500 });
+    }
+
+    console.log(`🎫 Quiz session ${session.id} started with ${result.questions.length} questions`);
+
+    return NextResponse.json({
+      sessionId: session.id,
+      questions: result.questions.map(toQuizQuestion),
+      warnings: result.warnings,
+      requestedCount: result.requestedCount,
+      actualCount: result.actualCount,
+      mode: mode,
+    });
+  } catch (error) {
+    console.error('Error loading questions:', error);
+    return NextResponse.json(
+      {
+        error: 'Failed to load questions',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { supabase, isSupabaseAvailable } from '@/lib/supabase';
-import { checkRateLimit, getClientIp } from '@/lib/rate-limiter';
-
-const RATE_LIMIT = { windowMs: 60_000, maxRequests: 20 };
+import { checkRateLimit, getClientIp, getRetryAfterSeconds } from '@/lib/rate-limiter';
 
 /**
  * Verify that a study code exists and return its details.
  * Rate limited to prevent brute-force enumeration of valid codes.
  */
 export async function POST(request: NextRequest) {
-  const ip = getClientIp(request);
-  const rl = checkRateLimit(`verify-code:${ip}`, RATE_LIMIT);
+  const rl = await checkRateLimit('verifyCode', { ip: getClientIp(request) });
   if (!rl.allowed) {
     return NextResponse.json(
       { error: 'Too many requests. Please try again later.' },
-      { status: 429, headers: { 'Retry-After': String(Math.ceil((rl.resetAt - Date.now()) / 1000)) } },
+      { status: 429, headers: { 'Retry-After': String(getRetryAfterSeconds(rl)) } },
     );
   }
 
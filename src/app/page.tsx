@@ -16,6 +16,7 @@ import { StudyCodeDisplay } from '@/components/StudyCodeDisplay';
 import { StudyCodeEntry } from '@/components/StudyCodeEntry';
 import { QUIZ_MODES, QuizMode, getDefaultMode } from '@/lib/quiz-modes';
 import { FEATURES } from '@/lib/feature-flags';
+import { getDueReviewCount } from '@/lib/progress-tracking';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import OnboardingTour from '@/components/OnboardingTour';
 import TourButton from '@/components/TourButton';
@@ -47,6 +48,7 @@ function HomeContent() {
   const [quizMode, setQuizMode] = useState<QuizMode>(getDefaultMode());
   const [adaptiveMode, setAdaptiveMode] = useState(FEATURES.LEITNER_MODE);
   const [studyCode, setStudyCode] = useState<string | null>(null);
+  const [dueCount, setDueCount] = useState<number | null>(null);
   const [phase, setPhase] = useState<Phase>('resolving');
   const [existingCodeForSwap, setExistingCodeForSwap] = useState<string | null>(null);
   const [pendingUrlCode, setPendingUrlCode] = useState<string | null>(null);
@@ -144,6 +146,20 @@ function HomeContent() {
     resolve();
   }, [searchParams, router]);
 
+  // Load how many questions are due for review today
+  useEffect(() => {
+    if (phase !== 'ready' || !studyCode || !FEATURES.LEITNER_MODE) {
+      setDueCount(null);
+      return;
+    }
+
+    let cancelled = false;
+    getDueReviewCount(studyCode).then((count) => {
+      if (!cancelled) setDueCount(count);
+    });
+    return () => { cancelled = true; };
+  }, [phase, studyCode]);
+
   // Auto-start tour for first-time users
   useEffect(() => {
     if (phase === 'ready' && shouldShowHomeTour) {
@@ -152,19 +168,37 @@ function HomeContent() {
     }
   }, [phase, shouldShowHomeTour]);
 
+  // Review mode needs a study code and spaced repetition state
+  const availableModes = (Object.keys(QUIZ_MODES) as QuizMode[]).filter(
+    (mode) => !QUIZ_MODES[mode].dueOnly || (FEATURES.LEITNER_MODE && studyCode)
+  );
+  const activeMode = availableModes.includes(quizMode) ? quizMode : getDefaultMode();
+
   const handleStartPractice = () => {
     const params = new URLSearchParams({
       num: numQuestions.toString(),
       difficulty,
-      mode: quizMode,
+      mode: activeMode,
     });
-    if (adaptiveMode) {
+    if (adaptiveMode && !QUIZ_MODES[activeMode].dueOnly) {
       params.set('adaptive', 'true');
     }
-    router.push(`/quiz/${selectedUnit}?${params.toString()}`);
+    // Review draws due questions from every unit
+    const unit = QUIZ_MODES[activeMode].dueOnly ? 'all' : selectedUnit;
+    router.push(`/quiz/${unit}?${params.toString()}`);
   };
 
-  const modeConfig = QUIZ_MODES[quizMode];
+  const modeIcons: Record<QuizMode, string> = {
+    practice: '📚',
+    assessment: '📝',
+    review: '🔁',
+  };
+
+  const startLabel = {
+    practice: '🚀 Start Practice Session',
+    assessment: '📝 Start Assessment',
+    review: dueCount ? `🔁 Review ${dueCount} Due Question${dueCount === 1 ? '' : 's'}` : '🔁 Start Review',
+  }[activeMode];
 
 
   const selectedUnitData = units.find(u => u.id === selectedUnit);
@@ -302,10 +336,10 @@ function HomeContent() {
           <label className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-3">
             Quiz Mode:
           </label>
-          <div className="grid grid-cols-2 gap-3">
-            {(Object.keys(QUIZ_MODES) as QuizMode[]).map((mode) => {
+          <div className={`grid gap-3 ${availableModes.length === 3 ? 'grid-cols-1 sm:grid-cols-3' : 'grid-cols-2'}`}>
+            {availableModes.map((mode) => {
               const config = QUIZ_MODES[mode];
-              const isSelected = quizMode === mode;
+              const isSelected = activeMode === mode;
               return (
                 <button
                   key={mode}
@@ -314,13 +348,14 @@ function HomeContent() {
                     isSelected
                       ? mode === 'assessment'
                         ? 'border-amber-600 bg-amber-600 text-white shadow-lg'
-                        : 'border-indigo-600 bg-indigo-600 text-white shadow-lg'
+                        : mode === 'review'
+                          ? 'border-emerald-600 bg-emerald-600 text-white shadow-lg'
+                          : 'border-indigo-600 bg-indigo-600 text-white shadow-lg'
                       : 'border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:border-indigo-400 hover:shadow'
                   }`}
                 >
                   <div className="font-semibold">
-                    {mode === 'practice' ? '📚 ' : '📝 '}
-                    {config.label}
+                    {modeIcons[mode]} {config.label}
                   </div>
                   <div className={`text-xs mt-1 ${isSelected ? 'text-white/80' : 'text-gray-500 dark:text-gray-400'}`}>
                     {config.description}
@@ -333,7 +368,7 @@ function HomeContent() {
         </ContextualHint>
 
         {/* Adaptive Mode Toggle */}
-        {FEATURES.LEITNER_MODE && studyCode && (
+        {FEATURES.LEITNER_MODE && studyCode && !QUIZ_MODES[activeMode].dueOnly && (
           <div className="flex items-center justify-between p-4 rounded-lg border-2 border-gray-200 dark:border-gray-600">
             <div>
               <div className="font-semibold text-gray-900 dark:text-white">
@@ -385,12 +420,19 @@ function HomeContent() {
           id="tour-start-button"
           onClick={handleStartPractice}
           className={`w-full py-5 rounded-lg font-bold text-xl text-white shadow-lg hover:shadow-xl transition-all transform hover:-translate-y-0.5 ${
-            quizMode === 'assessment'
+            activeMode === 'assessment'
               ? 'bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700'
-              : 'bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700'
+              : activeMode === 'review'
+                ? 'bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700'
+                : 'bg-gradient-to-r from-indigo-600 to-purple-600 hover:from-indigo-700 hover:to-purple-700'
           }`}
         >
-          {quizMode === 'assessment' ? '📝 Start Assessment' : '🚀 Start Practice Session'}
+          {startLabel}
+          {activeMode !== 'review' && dueCount !== null && dueCount > 0 && (
+            <span className="ml-3 align-middle text-sm font-semibold bg-white/20 rounded-full px-3 py-1">
+              {dueCount} due for review
+            </span>
+          )}
         </button>
       </div>
 {/*
@@ -2,13 +2,14 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
-import { getStoredStudyCode, getQuizHistory, getConceptMastery, getWeakTopics, getStudyCodeDetails } from '@/lib/study-codes';
+import { getStoredStudyCode, getQuizHistory, getConceptMastery, getWeakTopics, getErrorPatterns, getStudyCodeDetails, getTeacherFeedback } from '@/lib/study-codes';
 import { getProgress } from '@/lib/progress-tracking';
 import { getResourcesForTopics } from '@/lib/learning-resources-client';
 import { StudyCodeDisplay } from '@/components/StudyCodeDisplay';
 import StatCard from '@/components/StatCard';
 import ResourceCard from '@/components/ResourceCard';
-import type { StudyCode, QuizHistory, ConceptMastery } from '@/lib/supabase';
+import type { StudyCode, QuizHistory, ConceptMastery, ErrorPattern, TeacherFeedback } from '@/lib/supabase';
+import { ERROR_CATEGORY_LABELS } from '@/lib/error-taxonomy';
 import type { LearningResource } from '@/types';
 import { getAccuracyColor, getMasteryColor, getMasteryBgColor } from '@/lib/color-utils';
 import LoadingSpinner from '@/components/LoadingSpinner';
@@ -23,6 +24,8 @@ export default function ProgressPage() {
   const [quizHistory, setQuizHistory] = useState<QuizHistory[]>([]);
   const [conceptMastery, setConceptMastery] = useState<ConceptMastery[]>([]);
   const [weakTopics, setWeakTopics] = useState<ConceptMastery[]>([]);
+  const [errorPatterns, setErrorPatterns] = useState<ErrorPattern[]>([]);
+  const [teacherFeedback, setTeacherFeedback] = useState<TeacherFeedback[]>([]);
   const [topicResources, setTopicResources] = useState<Map<string, LearningResource[]>>(new Map());
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<'quizzes' | 'mastery' | 'practice'>('quizzes');
@@ -42,12 +45,14 @@ export default function ProgressPage() {
 
       try {
         // Load all progress data
-        const [details, prog, history, mastery, weak] = await Promise.all([
+        const [details, prog, history, mastery, weak, patterns, feedback] = await Promise.all([
           getStudyCodeDetails(code),
           getProgress(code),
           getQuizHistory(code),
           getConceptMastery(code),
           getWeakTopics(code),
+          getErrorPatterns(code),
+          getTeacherFeedback(code),
         ]);
 
         setStudyCodeDetails(details);
@@ -55,6 +60,8 @@ export default function ProgressPage() {
         setQuizHistory(history);
         setConceptMastery(mastery);
         setWeakTopics(weak);
+        setErrorPatterns(patterns);
+        setTeacherFeedback(feedback);
 
         // Load resources for weak topics
         if (weak.length > 0) {
@@ -146,6 +153,45 @@ export default function ProgressPage() {
         </div>
       </ContextualHint>
 
+      {/* Teacher Feedback (teacher-graded answers) */}
+      {teacherFeedback.length > 0 && (
+        <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+            🧑‍🏫 Teacher Feedback
+          </h2>
+          <ul className="space-y-3">
+            {teacherFeedback.map((result) => (
+              <li key={result.id} className="p-4 bg-gray-50 dark:bg-gray-700 rounded-lg">
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1">
+                    <div className="text-sm text-gray-600 dark:text-gray-400">
+                      {result.topic} • {new Date(result.attempted_at).toLocaleDateString()}
+                    </div>
+                    {result.user_answer && (
+                      <p className="font-mono text-gray-900 dark:text-white mt-1">{result.user_answer}</p>
+                    )}
+                  </div>
+                  {result.teacher_grade === 'graded' ? (
+                    <div className={`text-lg font-bold shrink-0 ${result.is_correct ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                      {result.is_correct ? '✓' : '✗'} {result.score ?? (result.is_correct ? 100 : 0)}%
+                    </div>
+                  ) : (
+                    <span className="text-xs font-semibold shrink-0 px-2 py-1 rounded-full bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200">
+                      Awaiting grade
+                    </span>
+                  )}
+                </div>
+                {result.teacher_comment && (
+                  <p className="mt-2 text-sm text-gray-800 dark:text-gray-200 italic">
+                    &ldquo;{result.teacher_comment}&rdquo;
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Tab Navigation */}
       {totalQuizzes > 0 && (
         <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden">
@@ -276,6 +322,27 @@ export default function ProgressPage() {
             {/* Topics to Practice Tab */}
             {activeTab === 'practice' && (
               <>
+                {/* Recurring mistakes (error taxonomy) */}
+                {errorPatterns.length > 0 && (
+                  <div className="mb-6 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg p-5 border border-yellow-200 dark:border-yellow-800">
+                    <h4 className="font-bold text-gray-900 dark:text-white mb-3">
+                      Recurring Mistakes
+                    </h4>
+                    <ul className="space-y-2">
+                      {errorPatterns.slice(0, 3).map((pattern) => (
+                        <li key={pattern.category} className="flex items-center justify-between text-sm">
+                          <span className="text-gray-800 dark:text-gray-200">
+                            You keep missing <span className="font-semibold">{ERROR_CATEGORY_LABELS[pattern.category] ?? pattern.category}</span>
+                          </span>
+                          <span className="text-gray-600 dark:text-gray-400">
+                            {pattern.occurrences} times • {pattern.questions_affected} questions
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {weakTopics.length > 0 ? (
                   <div className="space-y-6">
                     <p className="text-sm text-gray-600 dark:text-gray-300">
@@ -2,18 +2,19 @@
 
 import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Question } from '@/types';
+import type { AnswerReveal, Question, QuizQuestion } from '@/types';
 import { useUnits } from '@/hooks/useUnits';
 import { getStoredStudyCode, getStudyCodeId, getQuizHistory } from '@/lib/study-codes';
-import { saveQuizResults, saveQuizResultsLocally, getProgress, updateLeitnerStateForQuestion } from '@/lib/progress-tracking';
+import { saveQuizResultsLocally, getProgress } from '@/lib/progress-tracking';
 import { QuizMode, getModeConfig } from '@/lib/quiz-modes';
 import { FEATURES } from '@/lib/feature-flags';
+import { startQuizSession, submitQuizAnswer, finishQuizSession, isQuizAnswerFailure } from '@/lib/quiz-session';
 import {
   getSuperuserOverride,
   SUPERUSER_CHANGE_EVENT
 } from '@/lib/superuser-override';
 import TypedAnswerQuestion from '@/components/WritingQuestion';
-import type { EvaluationResult } from '@/app/api/evaluate-writing/route';
+import type { EvaluationResult } from '@/lib/answer-evaluation';
 import LoadingSpinner from '@/components/LoadingSpinner';
 import OnboardingTour from '@/components/OnboardingTour';
 import { useOnboarding } from '@/hooks/useOnboarding';
@@ -47,8 +48,10 @@ export default function QuizPage() {
   const displayTitle = unitId === 'all' ? 'All Units' : unit?.title || 'Quiz';
   const modeConfig = getModeConfig(mode);
   const isAssessmentMode = mode === 'assessment';
+  const isReviewMode = modeConfig.dueOnly === true;
 
-  const [questions, setQuestions] = useState<Question[]>([]);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [sessionId, setSessionId] = useState<string | null>(null);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
   const [userAnswers, setUserAnswers] = useState<Record<string, string>>({});
   const [evaluationResults, setEvaluationResults] = useState<Record<string, EvaluationResult>>({});
@@ -57,10 +60,14 @@ export default function QuizPage() {
   const [warnings, setWarnings] = useState<string[]>([]);
   const [showResults, setShowResults] = useState(false);
   const [showExplanation, setShowExplanation] = useState(false);
+  const [submittingAnswer, setSubmittingAnswer] = useState(false);
+  // Why the selected option wasn't graded (nothing recorded; it can be submitted again)
+  const [choiceSubmitError, setChoiceSubmitError] = useState<string | null>(null);
   const [studyGuide, setStudyGuide] = useState<TopicRecommendation[]>([]);
   const [loadingStudyGuide, setLoadingStudyGuide] = useState(false);
   const [isSuperuser, setIsSuperuser] = useState(false);
   const [studyCodeUuid, setStudyCodeUuid] = useState<string | null>(null);
+  const [studyCodeResolved, setStudyCodeResolved] = useState(false);
   const [activeResultsTab, setActiveResultsTab] = useState<'answers' | 'studyGuide'>('answers');
   const [countdown, setCountdown] = useState<number | null>(null);
   const [countdownOverride, setCountdownOverride] = useState<number | null>(null);
@@ -166,6 +173,7 @@ export default function QuizPage() {
       const studyCode = getStoredStudyCode();
       if (!studyCode) {
         console.log('🔒 No study code found');
+        setStudyCodeResolved(true);
         return;
       }
 
@@ -180,6 +188,8 @@ export default function QuizPage() {
         await checkSuperuserStatus(studyCodeId);
       } catch (error) {
         console.error('Error initializing study code:', error);
+      } finally {
+        setStudyCodeResolved(true);
       }
     }
 
@@ -304,35 +314,29 @@ export default function QuizPage() {
     }
   }, [previewMode]);
 
-  // Load questions on mount (defer when adaptive mode needs studyCodeUuid)
+  // Load questions on mount (deferred until studyCodeUuid resolves: the session records results against it)
   useEffect(() => {
-    if (adaptive && !studyCodeUuid) return; // Wait for studyCodeUuid to resolve
+    if (!studyCodeResolved) return;
 
     async function fetchQuestions() {
       try {
         setLoading(true);
         setWarnings([]);
 
-        const requestBody: Record<string, unknown> = { unitId, topic, numQuestions, difficulty, mode };
-        if (adaptive && studyCodeUuid) {
-          requestBody.studyCodeId = studyCodeUuid;
-          requestBody.leitnerMode = true;
-        }
-
-        const response = await fetch('/api/generate-questions', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(requestBody),
+        const session = await startQuizSession({
+          unitId,
+          topic,
+          numQuestions,
+          difficulty,
+          mode,
+          studyCodeId: studyCodeUuid ?? undefined,
+          leitnerMode: adaptive,
         });
 
-        if (!response.ok) {
-          throw new Error('Failed to generate questions');
-        }
-
-        const data = await response.json();
-        setQuestions(data.questions);
-        if (data.warnings && data.warnings.length > 0) {
-          setWarnings(data.warnings);
+        setSessionId(session.sessionId);
+        setQuestions(session.questions);
+        if (session.warnings.length > 0) {
+          setWarnings(session.warnings);
         }
       } catch (err) {
         setError(err instanceof Error ? err.message : 'An error occurred');
@@ -342,7 +346,7 @@ export default function QuizPage() {
     }
 
     fetchQuestions();
-  }, [unitId, topic, numQuestions, difficulty, mode, adaptive, studyCodeUuid]);
+  }, [unitId, topic, numQuestions, difficulty, mode, adaptive, studyCodeResolved, studyCodeUuid]);
 
   // Auto-start quiz tour on first quiz
   useEffect(() => {
@@ -355,69 +359,69 @@ export default function QuizPage() {
   const currentQuestion = questions[currentQuestionIndex];
   const hasAnswered = currentQuestion && userAnswers[currentQuestion.id] !== undefined;
 
-  const handleAnswer = async (answer: string) => {
-    if (!currentQuestion) return;
+  // Merge the answer key revealed by the server into the graded question
+  const applyReveal = (questionId: string, reveal: AnswerReveal) => {
+    setQuestions((prev) => prev.map((q) => (q.id === questionId ? { ...q, ...reveal } : q)));
+  };
+
+  // Select an option (multiple-choice, true-false); grading happens on submit
+  const handleAnswer = (answer: string) => {
+    if (!currentQuestion || showExplanation) return;
     setUserAnswers({ ...userAnswers, [currentQuestion.id]: answer });
-    setShowExplanation(false);
-
-    // For non-typed-answer questions (multiple-choice, true-false), use exact match
-    if (currentQuestion.type !== 'writing' && currentQuestion.type !== 'fill-in-blank') {
-      const isCorrect = answer === currentQuestion.correctAnswer;
-      const evaluationResult: EvaluationResult = {
-        isCorrect,
-        score: isCorrect ? 100 : 0,
-        hasCorrectAccents: true, // Not applicable for non-writing
-        feedback: isCorrect ? 'Correct!' : `The correct answer is: ${currentQuestion.correctAnswer}`,
-        corrections: {},
-        correctedAnswer: isCorrect ? undefined : currentQuestion.correctAnswer,
-      };
-
-      // Add metadata for superusers
-      if (effectiveIsSuperuser) {
-        evaluationResult.metadata = {
-          difficulty: currentQuestion.difficulty,
-          evaluationTier: 'exact_match',
-          usedClaudeAPI: false,
-          matchedAgainst: 'primary_answer',
-          evaluationReason: 'Exact match for multiple choice/true-false question'
-        };
-      }
+    setChoiceSubmitError(null);
+  };
 
-      setEvaluationResults({
-        ...evaluationResults,
-        [currentQuestion.id]: evaluationResult
-      });
-      recordAnswer(isCorrect);
-      if (FEATURES.LEITNER_MODE && studyCodeUuid) {
-        updateLeitnerStateForQuestion(studyCodeUuid, currentQuestion.id, isCorrect);
-      }
+  // Grade the selected option server-side, then reveal the answer key
+  const handleChoiceSubmit = async () => {
+    if (!currentQuestion || !sessionId) return;
+    const answer = userAnswers[currentQuestion.id];
+    if (answer === undefined) return;
+
+    setSubmittingAnswer(true);
+    setChoiceSubmitError(null);
+    const result = await submitQuizAnswer(sessionId, currentQuestion.id, answer, override);
+    setSubmittingAnswer(false);
+
+    if (isQuizAnswerFailure(result)) {
+      setChoiceSubmitError(result.error);
+      return;
+    }
+
+    applyReveal(currentQuestion.id, result.reveal);
+    setEvaluationResults({ ...evaluationResults, [currentQuestion.id]: result.evaluation });
+    setShowExplanation(true);
+
+    // Retries after the first graded answer are not counted
+    if (result.recorded) {
+      recordAnswer(result.evaluation.isCorrect);
     }
   };
 
   // Handler for typed answer question evaluation (writing and fill-in-blank)
-  const handleTypedAnswerSubmit = (answer: string, evaluation: EvaluationResult) => {
+  const handleTypedAnswerSubmit = (
+    answer: string,
+    evaluation: EvaluationResult,
+    reveal: AnswerReveal | null,
+    recorded: boolean
+  ) => {
     if (!currentQuestion) return;
     setUserAnswers({ ...userAnswers, [currentQuestion.id]: answer });
     setEvaluationResults({ ...evaluationResults, [currentQuestion.id]: evaluation });
+    if (reveal) applyReveal(currentQuestion.id, reveal);
     setShowExplanation(true);
-    recordAnswer(evaluation.isCorrect);
-    if (FEATURES.LEITNER_MODE && studyCodeUuid) {
-      updateLeitnerStateForQuestion(studyCodeUuid, currentQuestion.id, evaluation.isCorrect);
+
+    // Retries after the first graded answer are not counted
+    if (recorded) {
+      recordAnswer(evaluation.isCorrect);
     }
   };
 
   const fetchStudyGuide = async () => {
     setLoadingStudyGuide(true);
     try {
+      // All question types are graded server-side; unanswered questions count as incorrect
       const incorrectQuestions = questions
-        .filter((q) => {
-          // For typed-answer questions (writing and fill-in-blank), use evaluation result
-          if ((q.type === 'writing' || q.type === 'fill-in-blank') && evaluationResults[q.id]) {
-            return !evaluationResults[q.id].isCorrect;
-          }
-          // For MCQ/true-false, check direct answer match
-          return userAnswers[q.id] !== q.correctAnswer;
-        })
+        .filter((q) => !evaluationResults[q.id]?.isCorrect)
         .map((q) => ({ topic: q.topic, unitId: q.unitId }));
 
       if (incorrectQuestions.length === 0) {
@@ -442,40 +446,37 @@ export default function QuizPage() {
     }
   };
 
-  // Save quiz results to database
+  // Finish the session; the server records results from its own graded answers
   const saveResults = async () => {
+    if (!sessionId) return;
+    const summary = await finishQuizSession(sessionId);
+
     const studyCode = getStoredStudyCode();
     if (!studyCode) return;
 
-    const { correct } = calculateScore();
-    const scorePercentage = Math.round((correct / questions.length) * 100);
+    if (summary?.quizHistoryId) {
+      console.log('✅ Quiz results saved to database');
+      return;
+    }
 
-    const result = {
+    console.error('Failed to save quiz results');
+    // Fallback to localStorage
+    const { correct } = calculateScore();
+    saveQuizResultsLocally({
       studyCode,
       unitId,
       difficulty: difficulty as 'beginner' | 'intermediate' | 'advanced',
       totalQuestions: questions.length,
       correctAnswers: correct,
-      scorePercentage,
-      questions,
-      userAnswers,
-      evaluationResults,
-    };
-
-    try {
-      await saveQuizResults(result);
-      console.log('✅ Quiz results saved to database');
-    } catch (error) {
-      console.error('Failed to save quiz results:', error);
-      // Fallback to localStorage
-      saveQuizResultsLocally(result);
-    }
+      scorePercentage: Math.round((correct / questions.length) * 100),
+    });
   };
 
   const handleNext = async () => {
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex(currentQuestionIndex + 1);
       setShowExplanation(false);
+      setChoiceSubmitError(null);
     } else {
       // Fetch pre-save data for milestone detection
       const studyCode = getStoredStudyCode();
@@ -510,24 +511,13 @@ export default function QuizPage() {
     if (currentQuestionIndex > 0) {
       setCurrentQuestionIndex(currentQuestionIndex - 1);
       setShowExplanation(false);
+      setChoiceSubmitError(null);
     }
   };
 
   const calculateScore = () => {
-    let correct = 0;
-    questions.forEach((q) => {
-      // For typed-answer questions (writing and fill-in-blank), use evaluation result
-      if ((q.type === 'writing' || q.type === 'fill-in-blank') && evaluationResults[q.id]) {
-        if (evaluationResults[q.id].isCorrect) {
-          correct++;
-        }
-      } else {
-        // For MCQ/true-false, check direct answer match
-        if (userAnswers[q.id] === q.correctAnswer) {
-          correct++;
-        }
-      }
-    });
+    // All question types are graded server-side, so evaluation results are the source of truth
+    const correct = questions.filter((q) => evaluationResults[q.id]?.isCorrect).length;
     return {
       correct,
       total: questions.length,
@@ -576,7 +566,7 @@ export default function QuizPage() {
                 ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200'
                 : 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-800 dark:text-indigo-200'
             }`}>
-              <span>{isAssessmentMode ? '📝' : '📚'}</span>
+              <span>{isAssessmentMode ? '📝' : isReviewMode ? '🔁' : '📚'}</span>
               <span className="font-semibold">{modeConfig.label}</span>
             </div>
             <h2 className="text-3xl font-bold text-gray-900 dark:text-white mb-2">
@@ -638,11 +628,8 @@ export default function QuizPage() {
           <div className="space-y-4 mb-8">
             {questions.map((q, idx) => {
               const userAnswer = userAnswers[q.id];
-              // For typed-answer questions (writing and fill-in-blank), use evaluation result; for others, direct comparison
-              const isCorrect = (q.type === 'writing' || q.type === 'fill-in-blank') && evaluationResults[q.id]
-                ? evaluationResults[q.id].isCorrect
-                : userAnswer === q.correctAnswer;
               const evaluation = evaluationResults[q.id];
+              const isCorrect = evaluation?.isCorrect ?? false;
 
               return (
                 <div
@@ -760,8 +747,11 @@ export default function QuizPage() {
                                 const tierMap: Record<string, string> = {
                                   'empty_check': '1 - Empty Check',
                                   'exact_match': '2 - Exact Match',
+                                  'conjugation_engine': '2b - Conjugation Engine',
                                   'fuzzy_logic': '3 - Fuzzy Logic',
-                                  'claude_api': '4  Semantic API'
+                                  'claude_api': '4  Semantic API',
+                                  'provisional': '4  Provisional (Semantic API unavailable)',
+                                  'flagged_input': '4  Flagged Input (teacher review)'
                                 };
                                 return tierMap[evaluation.metadata!.evaluationTier] || evaluation.metadata!.evaluationTier;
                               })()}
@@ -823,6 +813,22 @@ export default function QuizPage() {
                             </div>
                           )}
 
+                          {/* Second Opinion - low-confidence tier 4 only */}
+                          {evaluation.metadata.secondOpinion && (
+                            <div className="col-span-2">
+                              <span className="font-semibold text-purple-900 dark:text-purple-200">Second Opinion:</span>
+                              <span className="ml-2 text-purple-800 dark:text-purple-300">
+                                {evaluation.metadata.secondOpinion.isCorrect ? 'Correct' : 'Incorrect'} ({evaluation.metadata.secondOpinion.score}%) from{' '}
+                                <span className="font-mono text-xs">{evaluation.metadata.secondOpinion.model}</span>
+                              </span>
+                              {evaluation.metadata.secondOpinion.agreed ? (
+                                <span className="ml-2 text-green-700 dark:text-green-400">agrees</span>
+                              ) : (
+                                <span className="ml-2 font-semibold text-red-700 dark:text-red-400">disagrees, flagged for teacher review</span>
+                              )}
+                            </div>
+                          )}
+
                           {/* Evaluation Reason - full width */}
                           {evaluation.metadata.evaluationReason && (
                             <div className="col-span-2">
@@ -993,7 +999,7 @@ export default function QuizPage() {
             ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-200'
             : 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-800 dark:text-indigo-200'
         }`}>
-          <span>{isAssessmentMode ? '📝' : '📚'}</span>
+          <span>{isAssessmentMode ? '📝' : isReviewMode ? '🔁' : '📚'}</span>
           <span className="font-semibold">{modeConfig.label}</span>
         </div>
         {adaptive && (
@@ -1043,7 +1049,7 @@ export default function QuizPage() {
             onSubmit={handleTypedAnswerSubmit}
             showHints={true}
             isSuperuser={effectiveIsSuperuser}
-            studyCodeUuid={studyCodeUuid}
+            sessionId={sessionId}
           />
 
           {/* Navigation for typed answer questions */}
@@ -1114,6 +1120,7 @@ export default function QuizPage() {
                   <button
                     key={idx}
                     onClick={() => handleAnswer(option)}
+                    disabled={showExplanation}
                     className={`w-full text-left p-4 rounded-lg border-2 transition-all ${
                       showCorrectness
                         ? isCorrect
@@ -1139,18 +1146,18 @@ export default function QuizPage() {
           {showExplanation && (
             <div className="mb-6 space-y-4">
               <div className={`p-4 rounded-lg border-2 ${
-                userAnswers[currentQuestion.id] === currentQuestion.correctAnswer
+                evaluationResults[currentQuestion.id]?.isCorrect
                   ? 'border-green-500 bg-green-50 dark:bg-green-900/20'
                   : 'border-red-500 bg-red-50 dark:bg-red-900/20'
               }`}>
                 <p className="text-sm font-semibold text-gray-900 dark:text-white mb-2">
-                  {userAnswers[currentQuestion.id] === currentQuestion.correctAnswer ? (
+                  {evaluationResults[currentQuestion.id]?.isCorrect ? (
                     <span className="text-green-700 dark:text-green-400">✅ Correct!</span>
                   ) : (
                     <span className="text-red-700 dark:text-red-400">❌ Incorrect</span>
                   )}
                 </p>
-                {userAnswers[currentQuestion.id] !== currentQuestion.correctAnswer && (
+                {!evaluationResults[currentQuestion.id]?.isCorrect && currentQuestion.correctAnswer && (
                   <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
                     Correct answer: <span className="font-semibold text-green-700 dark:text-green-400">{currentQuestion.correctAnswer}</span>
                   </p>
@@ -1213,8 +1220,11 @@ export default function QuizPage() {
                             const tierMap: Record<string, string> = {
                               'empty_check': '1. Empty Check',
                               'exact_match': '2. Exact Match',
+                              'conjugation_engine': '2b. Conjugation Engine',
                               'fuzzy_logic': '3. Fuzzy Logic',
-                              'claude_api': '4. Semantic API'
+                              'claude_api': '4. Semantic API',
+                              'provisional': '4. Provisional (Semantic API unavailable)',
+                              'flagged_input': '4. Flagged Input (teacher review)'
                             };
                             return tierMap[metadata.evaluationTier] || metadata.evaluationTier;
                           })()}
@@ -1274,6 +1284,22 @@ export default function QuizPage() {
                         </div>
                       )}
 
+                      {/* Second Opinion - low-confidence tier 4 only */}
+                      {metadata.secondOpinion && (
+                        <div className="col-span-2">
+                          <span className="font-semibold text-purple-900 dark:text-purple-200">Second Opinion:</span>
+                          <span className="ml-2 text-purple-800 dark:text-purple-300">
+                            {metadata.secondOpinion.isCorrect ? 'Correct' : 'Incorrect'} ({metadata.secondOpinion.score}%) from{' '}
+                            <span className="font-mono text-xs">{metadata.secondOpinion.model}</span>
+                          </span>
+                          {metadata.secondOpinion.agreed ? (
+                            <span className="ml-2 text-green-700 dark:text-green-400">agrees</span>
+                          ) : (
+                            <span className="ml-2 font-semibold text-red-700 dark:text-red-400">disagrees, flagged for teacher review</span>
+                          )}
+                        </div>
+                      )}
+
                       {/* Evaluation Reason - full width */}
                       {metadata.evaluationReason && (
                         <div className="col-span-2">
@@ -1293,13 +1319,20 @@ export default function QuizPage() {
           <div>
             {!showExplanation && hasAnswered && (
               <button
-                onClick={() => setShowExplanation(true)}
-                className="w-full py-3 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 transition-colors"
+                onClick={handleChoiceSubmit}
+                disabled={submittingAnswer}
+                className="w-full py-3 bg-indigo-600 text-white rounded-lg font-semibold hover:bg-indigo-700 disabled:bg-indigo-400 disabled:cursor-not-allowed transition-colors"
               >
-                Submit Answer
+                {submittingAnswer ? 'Checking...' : 'Submit Answer'}
               </button>
             )}
 
+            {!showExplanation && choiceSubmitError && (
+              <p role="alert" className="mt-3 text-sm text-red-800 dark:text-red-200 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3 rounded-lg">
+                {choiceSubmitError}
+              </p>
+            )}
+
             {showExplanation && (
               <div className="space-y-3">
                 {effectiveIsSuperuser && (
@@ -0,0 +1,143 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { getAnswerAppeals, resolveAnswerAppeal } from '@/lib/admin';
+import type { AnswerAppeal } from '@/lib/answer-appeals';
+
+const TIER_LABELS: Record<string, string> = {
+  empty_check: 'Empty Check',
+  exact_match: 'Exact Match',
+  conjugation_engine: 'Conjugation Engine',
+  fuzzy_logic: 'Fuzzy Logic',
+  claude_api: 'Semantic API',
+  provisional: 'Provisional (Semantic API unavailable)',
+  flagged_input: 'Flagged Input (teacher review)',
+};
+
+/**
+ * Admin review queue for student "I think I was right" appeals.
+ * Accepting adds the answer to the question's acceptable variations and
+ * corrects the student's recorded result.
+ */
+export default function AppealReviewQueue() {
+  const [appeals, setAppeals] = useState<AnswerAppeal[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getAnswerAppeals('pending')
+      .then(setAppeals)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const handleResolve = async (appealId: string, status: 'accepted' | 'rejected') => {
+    setResolvingId(appealId);
+    setError(null);
+
+    const success = await resolveAnswerAppeal(appealId, status);
+    if (success) {
+      setAppeals((prev) => prev.filter((a) => a.id !== appealId));
+    } else {
+      setError('Could not resolve the appeal. It may already have been resolved.');
+    }
+
+    setResolvingId(null);
+  };
+
+  if (loading || appeals.length === 0) return null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6">
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">
+        Answer Appeals ({appeals.length})
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Accepting adds the student&apos;s answer to the question&apos;s acceptable variations and marks their result correct.
+      </p>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-700 dark:text-red-300">{error}</p>
+      )}
+
+      <div className="space-y-4">
+        {appeals.map((appeal) => (
+          <div
+            key={appeal.id}
+            className="border-2 border-gray-200 dark:border-gray-700 rounded-lg p-4 space-y-3"
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="font-semibold text-gray-900 dark:text-white">{appeal.question.question}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 capitalize">
+                  {appeal.question.topic} · {appeal.question.difficulty}
+                  {appeal.studyCode && <> · <code className="font-mono normal-case">{appeal.studyCode}</code></>}
+                </p>
+              </div>
+              <div className="flex gap-2 shrink-0">
+                <button
+                  onClick={() => handleResolve(appeal.id, 'accepted')}
+                  disabled={resolvingId !== null}
+                  className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Accept
+                </button>
+                <button
+                  onClick={() => handleResolve(appeal.id, 'rejected')}
+                  disabled={resolvingId !== null}
+                  className="px-4 py-2 text-sm bg-gray-300 dark:bg-gray-600 text-gray-900 dark:text-white rounded-lg hover:bg-gray-400 dark:hover:bg-gray-500 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Reject
+                </button>
+              </div>
+            </div>
+
+            <div className="grid md:grid-cols-2 gap-3 text-sm">
+              <div>
+                <span className="font-semibold text-gray-700 dark:text-gray-300">Student answer:</span>
+                <p className="font-mono bg-red-50 dark:bg-red-900/20 p-2 rounded mt-1 text-gray-900 dark:text-white">
+                  {appeal.userAnswer}
+                </p>
+              </div>
+              <div>
+                <span className="font-semibold text-gray-700 dark:text-gray-300">Expected answer:</span>
+                <p className="font-mono bg-green-50 dark:bg-green-900/20 p-2 rounded mt-1 text-gray-900 dark:text-white">
+                  {appeal.question.correctAnswer}
+                </p>
+                {appeal.question.acceptableVariations.length > 0 && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Also accepted: {appeal.question.acceptableVariations.join(' · ')}
+                  </p>
+                )}
+              </div>
+            </div>
+
+            {appeal.studentComment && (
+              <p className="text-sm text-gray-700 dark:text-gray-300 italic">
+                &ldquo;{appeal.studentComment}&rdquo;
+              </p>
+            )}
+
+            <div className="text-xs text-gray-600 dark:text-gray-400 flex flex-wrap gap-x-4 gap-y-1">
+              {appeal.score !== null && <span>Score: {appeal.score}%</span>}
+              {appeal.evaluationTrace && (
+                <>
+                  <span>Tier: {TIER_LABELS[appeal.evaluationTrace.evaluationTier] || appeal.evaluationTrace.evaluationTier}</span>
+                  {appeal.evaluationTrace.levenshteinSimilarity !== undefined && (
+                    <span>Similarity: {appeal.evaluationTrace.levenshteinSimilarity}%</span>
+                  )}
+                  {appeal.evaluationTrace.claudeConfidence !== undefined && (
+                    <span>Semantic confidence: {appeal.evaluationTrace.claudeConfidence}%</span>
+                  )}
+                </>
+              )}
+            </div>
+            {appeal.feedback && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">Feedback shown: {appeal.feedback}</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,309 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { getTeacherGrades, submitTeacherGrade } from '@/lib/admin';
+import { CORRECTNESS_THRESHOLDS } from '@/lib/feature-flags';
+import type { TeacherGradeDecision, TeacherGradeItem, TeacherGradeReason } from '@/lib/teacher-grading';
+
+const ALL = '';
+
+/** Answers held because the automated verdict can't be trusted (teacher-graded ones need no badge) */
+const REASON_LABELS: Partial<Record<TeacherGradeReason, string>> = {
+  flagged_input: 'Flagged input',
+  graders_disagreed: 'Graders disagreed',
+};
+
+/**
+ * Admin queue for answers held for the teacher's grade (teacher-graded questions
+ * and quiz modes, flagged input, grader disagreements). Each answer comes with the
+ * automated suggestion; the teacher accepts it or overrides the score, optionally
+ * with a comment for the student.
+ *
+ * Keyboard (with focus in the queue): j/k or ↓/↑ move, a accepts, o overrides
+ * (type the score, Enter), c comments, Esc returns to the queue.
+ */
+export default function TeacherGradingQueue() {
+  const [items, setItems] = useState<TeacherGradeItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [gradingId, setGradingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [classFilter, setClassFilter] = useState(ALL);
+  const [unitFilter, setUnitFilter] = useState(ALL);
+  const [questionFilter, setQuestionFilter] = useState(ALL);
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [scores, setScores] = useState<Record<string, string>>({});
+  const [comments, setComments] = useState<Record<string, string>>({});
+
+  const queueRef = useRef<HTMLDivElement>(null);
+  const scoreRef = useRef<HTMLInputElement>(null);
+  const commentRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    getTeacherGrades('pending')
+      .then(setItems)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const classes = useMemo(
+    () => [...new Set(items.map((item) => item.classLabel).filter((label): label is string => !!label))].sort(),
+    [items]
+  );
+  const units = useMemo(() => [...new Set(items.map((item) => item.question.unitId))].sort(), [items]);
+  const questions = useMemo(
+    () => [...new Map(items.map((item) => [item.question.id, item.question.question])).entries()],
+    [items]
+  );
+
+  const visible = items.filter((item) =>
+    (classFilter === ALL || item.classLabel === classFilter) &&
+    (unitFilter === ALL || item.question.unitId === unitFilter) &&
+    (questionFilter === ALL || item.question.id === questionFilter)
+  );
+  const selected = visible[Math.min(selectedIndex, visible.length - 1)] ?? null;
+
+  const handleGrade = async (item: TeacherGradeItem, action: TeacherGradeDecision['action']) => {
+    const comment = comments[item.id]?.trim() || null;
+    let decision: TeacherGradeDecision;
+
+    if (action === 'override') {
+      const score = Number(scores[item.id]);
+      if (scores[item.id] === undefined || scores[item.id].trim() === '' || !Number.isFinite(score) || score < 0 || score > 100) {
+        setError('Enter a score between 0 and 100 to override.');
+        scoreRef.current?.focus();
+        return;
+      }
+      decision = { action, score, comment };
+    } else {
+      decision = { action, comment };
+    }
+
+    setGradingId(item.id);
+    setError(null);
+
+    const success = await submitTeacherGrade(item.id, decision);
+    if (success) {
+      setItems((prev) => prev.filter((i) => i.id !== item.id));
+    } else {
+      setError('Could not save the grade. It may already have been graded.');
+    }
+
+    setGradingId(null);
+    queueRef.current?.focus();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    const typing = target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT';
+
+    if (typing) {
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        queueRef.current?.focus();
+      } else if (e.key === 'Enter' && target === scoreRef.current && selected) {
+        e.preventDefault();
+        handleGrade(selected, 'override');
+      }
+      return;
+    }
+
+    if (!selected || gradingId || e.ctrlKey || e.metaKey || e.altKey) return;
+
+    switch (e.key) {
+      case 'j':
+      case 'ArrowDown':
+        e.preventDefault();
+        setSelectedIndex(Math.min(visible.indexOf(selected) + 1, visible.length - 1));
+        break;
+      case 'k':
+      case 'ArrowUp':
+        e.preventDefault();
+        setSelectedIndex(Math.max(visible.indexOf(selected) - 1, 0));
+        break;
+      case 'a':
+        e.preventDefault();
+        handleGrade(selected, 'accept');
+        break;
+      case 'o':
+        e.preventDefault();
+        scoreRef.current?.focus();
+        scoreRef.current?.select();
+        break;
+      case 'c':
+        e.preventDefault();
+        commentRef.current?.focus();
+        break;
+    }
+  };
+
+  if (loading || items.length === 0) return null;
+
+  const selectClassName = 'px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+  return (
+    <div
+      ref={queueRef}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-6 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+    >
+      <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">
+        Teacher Grading ({items.length})
+      </h2>
+      <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+        Students saw the automated suggestion; your grade replaces it in their results and review schedule.
+        Scores of {CORRECTNESS_THRESHOLDS.CLAUDE_API_PASS} and above count as correct.
+        Keys: <kbd>j</kbd>/<kbd>k</kbd> move · <kbd>a</kbd> accept · <kbd>o</kbd> override · <kbd>c</kbd> comment · <kbd>Esc</kbd> back.
+      </p>
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        <select
+          value={classFilter}
+          onChange={(e) => { setClassFilter(e.target.value); setSelectedIndex(0); }}
+          className={selectClassName}
+          aria-label="Filter by class"
+        >
+          <option value={ALL}>All classes</option>
+          {classes.map((label) => <option key={label} value={label}>{label}</option>)}
+        </select>
+        <select
+          value={unitFilter}
+          onChange={(e) => { setUnitFilter(e.target.value); setSelectedIndex(0); }}
+          className={selectClassName}
+          aria-label="Filter by unit"
+        >
+          <option value={ALL}>All units</option>
+          {units.map((unitId) => <option key={unitId} value={unitId}>{unitId}</option>)}
+        </select>
+        <select
+          value={questionFilter}
+          onChange={(e) => { setQuestionFilter(e.target.value); setSelectedIndex(0); }}
+          className={`${selectClassName} max-w-xs`}
+          aria-label="Filter by question"
+        >
+          <option value={ALL}>All questions</option>
+          {questions.map(([id, text]) => <option key={id} value={id}>{text}</option>)}
+        </select>
+      </div>
+
+      {error && (
+        <p className="mb-4 text-sm text-red-700 dark:text-red-300">{error}</p>
+      )}
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 italic">No answers match these filters.</p>
+      ) : (
+        <div className="space-y-4">
+          {visible.map((item) => {
+            const isSelected = item.id === selected?.id;
+            return (
+              <div
+                key={item.id}
+                onClick={() => setSelectedIndex(visible.indexOf(item))}
+                className={`border-2 rounded-lg p-4 space-y-3 cursor-pointer ${
+                  isSelected
+                    ? 'border-indigo-500 dark:border-indigo-400'
+                    : 'border-gray-200 dark:border-gray-700'
+                }`}
+              >
+                <div>
+                  <div className="flex items-start justify-between gap-3">
+                    <p className="font-semibold text-gray-900 dark:text-white">{item.question.question}</p>
+                    {REASON_LABELS[item.reason] && (
+                      <span className="text-xs font-semibold shrink-0 px-2 py-1 rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200">
+                        {REASON_LABELS[item.reason]}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 capitalize">
+                    {item.question.unitId} · {item.question.topic} · {item.question.difficulty}
+                    {item.question.writingType && <> · {item.question.writingType.replace(/_/g, ' ')}</>}
+                    {item.classLabel && <> · <span className="normal-case">{item.classLabel}</span></>}
+                    {item.studyCode && <> · <code className="font-mono normal-case">{item.studyCode}</code></>}
+                  </p>
+                </div>
+
+                <div className="grid md:grid-cols-2 gap-3 text-sm">
+                  <div>
+                    <span className="font-semibold text-gray-700 dark:text-gray-300">Student answer:</span>
+                    <p className="font-mono bg-gray-50 dark:bg-gray-900/40 p-2 rounded mt-1 text-gray-900 dark:text-white whitespace-pre-wrap">
+                      {item.userAnswer}
+                    </p>
+                  </div>
+                  <div>
+                    <span className="font-semibold text-gray-700 dark:text-gray-300">Model answer:</span>
+                    <p className="font-mono bg-green-50 dark:bg-green-900/20 p-2 rounded mt-1 text-gray-900 dark:text-white">
+                      {item.question.correctAnswer}
+                    </p>
+                  </div>
+                </div>
+
+                <div className="text-sm text-gray-700 dark:text-gray-300">
+                  <span className="font-semibold">Suggestion:</span>{' '}
+                  {item.suggestion.isCorrect ? '✓ Correct' : '✗ Not quite'}
+                  {item.suggestion.score !== null && <> · {item.suggestion.score}%</>}
+                  {item.suggestion.feedback && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{item.suggestion.feedback}</p>
+                  )}
+                  {item.suggestion.rubric && (
+                    <ul className="text-xs text-gray-500 dark:text-gray-400 mt-1 space-y-0.5">
+                      {item.suggestion.rubric.criteria.map((criterion) => (
+                        <li key={criterion.criterion}>
+                          {criterion.label} ({criterion.weight}%): {criterion.level}/{criterion.maxLevel}
+                          {criterion.justification && <> — {criterion.justification}</>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {isSelected && (
+                  <div className="flex flex-wrap items-end gap-3 pt-2 border-t border-gray-200 dark:border-gray-700">
+                    <label className="text-sm text-gray-700 dark:text-gray-300">
+                      <span className="block text-xs font-semibold mb-1">Score (override)</span>
+                      <input
+                        ref={scoreRef}
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={scores[item.id] ?? ''}
+                        placeholder={item.suggestion.score !== null ? String(item.suggestion.score) : '0-100'}
+                        onChange={(e) => setScores((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                        className="w-24 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      />
+                    </label>
+                    <label className="flex-1 min-w-[16rem] text-sm text-gray-700 dark:text-gray-300">
+                      <span className="block text-xs font-semibold mb-1">Comment for the student (optional)</span>
+                      <textarea
+                        ref={commentRef}
+                        value={comments[item.id] ?? ''}
+                        onChange={(e) => setComments((prev) => ({ ...prev, [item.id]: e.target.value }))}
+                        rows={2}
+                        className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                      />
+                    </label>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleGrade(item, 'accept')}
+                        disabled={gradingId !== null}
+                        className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Accept (a)
+                      </button>
+                      <button
+                        onClick={() => handleGrade(item, 'override')}
+                        disabled={gradingId !== null}
+                        className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Override (o)
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
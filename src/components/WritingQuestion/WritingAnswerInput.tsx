@@ -1,10 +1,13 @@
 /**
  * AnswerInput - Text input with submit button
- * Supports both single-line (fill-in-blank) and multi-line (writing) variants
+ * Supports both single-line (fill-in-blank) and multi-line (writing) variants.
+ * Fill-in-blank questions with several blanks get one input per blank; the
+ * answers are joined into the stored "aimes, préfère" format.
  */
 
 import { useState, useEffect } from 'react';
 import { isHintDismissed, dismissHint } from '@/lib/onboarding';
+import { joinBlankAnswers } from '@/lib/writing-questions';
 
 interface AnswerInputProps {
   userAnswer: string;
@@ -16,6 +19,8 @@ interface AnswerInputProps {
   placeholder?: string;
   rows?: number;
   label?: string;
+  /** Number of blanks; more than one renders an input per blank */
+  blankCount?: number;
 }
 
 export function AnswerInput({
@@ -27,9 +32,30 @@ export function AnswerInput({
   variant = 'multi-line',
   placeholder = 'Type your answer in French...',
   rows = 2,
-  label = 'Your Answer (in French):'
+  label = 'Your Answer (in French):',
+  blankCount = 1
 }: AnswerInputProps) {
   const [showKeyboardTip, setShowKeyboardTip] = useState(false);
+  const [blankAnswers, setBlankAnswers] = useState<string[]>(() => Array(blankCount).fill(''));
+  const isMultiBlank = blankCount > 1;
+
+  // Clear the blanks when the parent resets the answer (new question, try again)
+  useEffect(() => {
+    if (isMultiBlank && userAnswer === '') {
+      setBlankAnswers(Array(blankCount).fill(''));
+    }
+  }, [userAnswer, blankCount, isMultiBlank]);
+
+  const handleBlankChange = (index: number, value: string) => {
+    const next = [...blankAnswers];
+    next[index] = value;
+    setBlankAnswers(next);
+    onAnswerChange(joinBlankAnswers(next));
+  };
+
+  const hasAnswer = isMultiBlank
+    ? blankAnswers.every((answer) => answer.trim())
+    : !!userAnswer.trim();
 
   useEffect(() => {
     if (typeof window !== 'undefined' && window.innerWidth < 768 && !isHintDismissed('keyboard_french')) {
@@ -49,7 +75,7 @@ export function AnswerInput({
     if (e.key === 'Enter') {
       if (variant === 'single-line' || !e.shiftKey) {
         e.preventDefault();
-        if (userAnswer.trim() && !isEvaluating && !disabled) {
+        if (hasAnswer && !isEvaluating && !disabled) {
           onSubmit();
         }
       }
@@ -60,7 +86,7 @@ export function AnswerInput({
 
   return (
     <div>
-      <label htmlFor="answer" className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
+      <label htmlFor={isMultiBlank ? 'answer-blank-1' : 'answer'} className="block text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">
         {label}
       </label>
 
@@ -84,7 +110,27 @@ export function AnswerInput({
         </div>
       )}
 
-      {variant === 'single-line' ? (
+      {isMultiBlank ? (
+        <div className="space-y-2">
+          {blankAnswers.map((answer, index) => (
+            <div key={index} className="flex items-center gap-3">
+              <span className="shrink-0 w-16 text-sm font-semibold text-gray-600 dark:text-gray-400">
+                Blank {index + 1}
+              </span>
+              <input
+                type="text"
+                id={`answer-blank-${index + 1}`}
+                value={answer}
+                onChange={(e) => handleBlankChange(index, e.target.value)}
+                onKeyDown={handleKeyDown}
+                disabled={disabled || isEvaluating}
+                placeholder={placeholder}
+                className={inputClassName}
+              />
+            </div>
+          ))}
+        </div>
+      ) : variant === 'single-line' ? (
         <input
           type="text"
           id="answer"
@@ -116,7 +162,7 @@ export function AnswerInput({
         </p>
         <button
           onClick={onSubmit}
-          disabled={!userAnswer.trim() || isEvaluating || disabled}
+          disabled={!hasAnswer || isEvaluating || disabled}
           className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors font-semibold"
         >
           {isEvaluating ? 'Evaluating...' : 'Submit Answer'}
@@ -3,19 +3,25 @@
  * Works with both fill-in-blank and writing question types
  */
 
+import { useState } from 'react';
 import type { Question } from '@/types';
-import type { EvaluationResult } from '@/app/api/evaluate-writing/route';
-import { highlightDifferences } from './highlightDifferences';
+import type { EvaluationResult } from '@/lib/answer-evaluation';
+import { highlightDifferences, DiffLegend } from './highlightDifferences';
 
 interface EvaluationResultDisplayProps {
   evaluation: EvaluationResult;
   userAnswer: string;
   correctAnswer?: string;
   explanation?: string;
-  onTryAgain: () => void;
+  /** Superuser "Try Another Answer" (not while streaming) */
+  onTryAgain?: () => void;
+  /** Appeal a wrong grade for teacher review (only for recorded answers) */
+  onAppeal?: (comment?: string) => Promise<boolean>;
   isSuperuser?: boolean;
   questionType: Question['type'];
   writingType?: Question['writingType'];
+  /** Feedback is still streaming in: the verdict is not known yet */
+  isStreaming?: boolean;
 }
 
 export function EvaluationResultDisplay({
@@ -24,10 +30,22 @@ export function EvaluationResultDisplay({
   correctAnswer,
   explanation,
   onTryAgain,
+  onAppeal,
   isSuperuser = false,
   questionType,
-  writingType
+  writingType,
+  isStreaming = false
 }: EvaluationResultDisplayProps) {
+  const [appealState, setAppealState] = useState<'idle' | 'editing' | 'submitting' | 'submitted' | 'failed'>('idle');
+  const [appealComment, setAppealComment] = useState('');
+
+  const handleAppeal = async () => {
+    if (!onAppeal) return;
+    setAppealState('submitting');
+    const success = await onAppeal(appealComment.trim() || undefined);
+    setAppealState(success ? 'submitted' : 'failed');
+  };
+
   // Format question type for display
   const questionTypeLabel = questionType === 'fill-in-blank'
     ? 'Fill in Blank'
@@ -38,7 +56,9 @@ export function EvaluationResultDisplay({
     : null;
   return (
     <div className={`rounded-xl p-6 ${
-      evaluation.isCorrect
+      isStreaming
+        ? 'bg-gray-50 dark:bg-gray-800/50 border-2 border-gray-200 dark:border-gray-700'
+        : evaluation.isCorrect
         ? 'bg-green-50 dark:bg-green-900/20 border-2 border-green-200 dark:border-green-800'
         : 'bg-red-50 dark:bg-red-900/20 border-2 border-red-200 dark:border-red-800'
     }`}>
@@ -46,20 +66,22 @@ export function EvaluationResultDisplay({
       <div className="flex items-center justify-between mb-4">
         <div className="flex items-center gap-3">
           <span className="text-4xl">
-            {evaluation.isCorrect ? '✅' : '❌'}
+            {isStreaming ? '⏳' : evaluation.isCorrect ? '✅' : '❌'}
           </span>
           <div>
             <h4 className={`text-xl font-bold ${
-              evaluation.isCorrect ? 'text-green-800 dark:text-green-200' : 'text-red-800 dark:text-red-200'
+              isStreaming
+                ? 'text-gray-800 dark:text-gray-200'
+                : evaluation.isCorrect ? 'text-green-800 dark:text-green-200' : 'text-red-800 dark:text-red-200'
             }`}>
-              {evaluation.isCorrect ? 'Correct!' : 'Not Quite Right'}
+              {isStreaming ? 'Grading…' : evaluation.isCorrect ? 'Correct!' : 'Not Quite Right'}
             </h4>
           </div>
         </div>
 
         {/* Accent Indicator */}
         <div className="text-right">
-          {evaluation.hasCorrectAccents !== null && (
+          {!isStreaming && evaluation.hasCorrectAccents !== null && (
             <div className={`inline-flex items-center gap-2 px-3 py-1 rounded-full text-sm font-semibold ${
               evaluation.hasCorrectAccents
                 ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200'
@@ -71,6 +93,13 @@ export function EvaluationResultDisplay({
         </div>
       </div>
 
+      {/* Teacher grading notice */}
+      {!isStreaming && evaluation.awaitingTeacherGrade && (
+        <p className="mb-4 text-sm text-indigo-800 dark:text-indigo-200 bg-indigo-50 dark:bg-indigo-900/30 p-3 rounded-lg">
+          🧑‍🏫 Your teacher will grade this answer. This result is only a suggestion until then; their grade and comments will appear on your progress page.
+        </p>
+      )}
+
       {/* Your Answer */}
       <div className="mb-4">
         <h5 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">
@@ -81,6 +110,35 @@ export function EvaluationResultDisplay({
         </p>
       </div>
 
+      {/* Per-blank results (multi-blank fill-in-blank) */}
+      {evaluation.blanks && evaluation.blanks.length > 0 && (
+        <div className="mb-4">
+          <h5 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">
+            Blanks ({evaluation.blanks.filter((b) => b.isCorrect).length}/{evaluation.blanks.length} correct):
+          </h5>
+          <ul className="space-y-1">
+            {evaluation.blanks.map((blank, index) => (
+              <li
+                key={index}
+                className={`flex items-center gap-3 p-2 rounded-lg text-sm ${
+                  blank.isCorrect
+                    ? 'bg-green-100 dark:bg-green-900/30 text-green-900 dark:text-green-100'
+                    : 'bg-red-100 dark:bg-red-900/30 text-red-900 dark:text-red-100'
+                }`}
+              >
+                <span className="shrink-0 font-semibold">
+                  {blank.isCorrect ? '✓' : '✗'} Blank {index + 1}
+                </span>
+                <span className="font-mono">{blank.userAnswer || '—'}</span>
+                {!blank.isCorrect && (
+                  <span className="font-mono">→ {blank.correctAnswer}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Corrected Answer */}
       {evaluation.correctedAnswer && evaluation.correctedAnswer !== userAnswer && (
         <div className="mb-4">
@@ -90,9 +148,20 @@ export function EvaluationResultDisplay({
           <p className="text-lg font-mono bg-green-100 dark:bg-green-900/30 p-3 rounded-lg text-green-900 dark:text-green-100">
             {highlightDifferences(userAnswer, evaluation.correctedAnswer)}
           </p>
-          <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 italic">
-            Highlighted words show corrections
+          <DiffLegend />
+        </div>
+      )}
+
+      {/* Expected Answer */}
+      {correctAnswer && correctAnswer !== userAnswer && correctAnswer !== evaluation.correctedAnswer && (
+        <div className="mb-4">
+          <h5 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">
+            Expected Answer:
+          </h5>
+          <p className="text-lg font-mono bg-white dark:bg-gray-800 p-3 rounded-lg text-gray-900 dark:text-gray-100">
+            {highlightDifferences(userAnswer, correctAnswer)}
           </p>
+          {!evaluation.correctedAnswer && <DiffLegend />}
         </div>
       )}
 
@@ -103,9 +172,53 @@ export function EvaluationResultDisplay({
         </h5>
         <p className="text-gray-800 dark:text-gray-200">
           {evaluation.feedback}
+          {isStreaming && (
+            <span className="inline-block w-2 h-4 ml-1 align-middle bg-gray-500 dark:bg-gray-400 animate-pulse" />
+          )}
         </p>
       </div>
 
+      {/* Rubric breakdown (open-ended and sentence-building, semantic grading) */}
+      {!isStreaming && evaluation.rubric && (
+        <div className="mb-4">
+          <h5 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">
+            Rubric:
+          </h5>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm bg-white dark:bg-gray-800 rounded-lg overflow-hidden">
+              <thead>
+                <tr className="text-left text-gray-600 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="px-3 py-2 font-semibold">Criterion</th>
+                  <th className="px-3 py-2 font-semibold">Level</th>
+                  <th className="px-3 py-2 font-semibold">Why</th>
+                </tr>
+              </thead>
+              <tbody>
+                {evaluation.rubric.criteria.map((criterion) => (
+                  <tr key={criterion.criterion} className="border-b border-gray-100 dark:border-gray-700 align-top">
+                    <td className="px-3 py-2 text-gray-900 dark:text-gray-100">
+                      <div className="font-medium">{criterion.label}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{criterion.weight}%</div>
+                    </td>
+                    <td className="px-3 py-2 text-gray-900 dark:text-gray-100">
+                      <div className="font-semibold whitespace-nowrap">{criterion.level}/{criterion.maxLevel}</div>
+                      <div className="text-xs text-gray-500 dark:text-gray-400">{criterion.descriptor}</div>
+                    </td>
+                    <td className="px-3 py-2 text-gray-700 dark:text-gray-300">{criterion.justification}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-semibold text-gray-900 dark:text-gray-100">
+                  <td className="px-3 py-2" colSpan={2}>Rubric score</td>
+                  <td className="px-3 py-2">{evaluation.rubric.score}/100</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        </div>
+      )}
+
       {/* Explanation (if provided) */}
       {explanation && (
         <div className="mb-4 p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg">
@@ -145,6 +258,19 @@ export function EvaluationResultDisplay({
             </div>
           )}
 
+          {evaluation.corrections.spelling && evaluation.corrections.spelling.length > 0 && (
+            <div>
+              <h5 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">
+                Spelling:
+              </h5>
+              <ul className="list-disc list-inside space-y-1">
+                {evaluation.corrections.spelling.map((item: string, index: number) => (
+                  <li key={index} className="text-sm text-gray-700 dark:text-gray-300">{item}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           {evaluation.corrections.suggestions && evaluation.corrections.suggestions.length > 0 && (
             <div>
               <h5 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-1">
@@ -160,8 +286,58 @@ export function EvaluationResultDisplay({
         </div>
       )}
 
+      {/* Appeal - "I think I was right" */}
+      {!isStreaming && !evaluation.isCorrect && !evaluation.awaitingTeacherGrade && onAppeal && (
+        <div className="mt-4">
+          {appealState === 'submitted' ? (
+            <p className="text-sm text-gray-700 dark:text-gray-300">
+              📨 Sent to your teacher for review. If they agree, your result will be updated.
+            </p>
+          ) : appealState === 'idle' ? (
+            <button
+              onClick={() => setAppealState('editing')}
+              className="text-sm text-indigo-600 dark:text-indigo-400 hover:underline font-medium"
+            >
+              I think I was right
+            </button>
+          ) : (
+            <div className="space-y-2">
+              <textarea
+                value={appealComment}
+                onChange={(e) => setAppealComment(e.target.value)}
+                placeholder="Optional: why is your answer correct?"
+                maxLength={500}
+                rows={2}
+                className="w-full px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg focus:border-indigo-500 focus:outline-none dark:bg-gray-700 dark:text-white"
+              />
+              {appealState === 'failed' && (
+                <p className="text-sm text-red-700 dark:text-red-300">
+                  Could not send your appeal. Please try again.
+                </p>
+              )}
+              <div className="flex gap-2">
+                <button
+                  onClick={handleAppeal}
+                  disabled={appealState === 'submitting'}
+                  className="px-4 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {appealState === 'submitting' ? 'Sending...' : 'Send to Teacher'}
+                </button>
+                <button
+                  onClick={() => setAppealState('idle')}
+                  disabled={appealState === 'submitting'}
+                  className="px-4 py-2 text-sm bg-gray-200 dark:bg-gray-700 text-gray-900 dark:text-white rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors font-medium"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Superuser Question Metadata */}
-      {isSuperuser && (
+      {isSuperuser && !isStreaming && (
         <div className="mt-6 pt-6 border-t border-gray-300 dark:border-gray-600">
           <h5 className="text-sm font-semibold text-purple-700 dark:text-purple-300 mb-3 flex items-center gap-2">
             <span className="text-lg">🔬</span>
@@ -214,8 +390,11 @@ export function EvaluationResultDisplay({
                     const tierMap: Record<string, string> = {
                       'empty_check': '1 - Empty Check',
                       'exact_match': '2 - Exact Match',
+                      'conjugation_engine': '2b - Conjugation Engine',
                       'fuzzy_logic': '3 - Fuzzy Logic',
-                      'claude_api': '4 - Semantic API'
+                      'claude_api': '4 - Semantic API',
+                      'provisional': '4 - Provisional (Semantic API unavailable)',
+                      'flagged_input': '4 - Flagged Input (teacher review)'
                     };
                     return tierMap[evaluation.metadata!.evaluationTier] || evaluation.metadata!.evaluationTier;
                   })()}
@@ -302,6 +481,22 @@ export function EvaluationResultDisplay({
                 </div>
               )}
 
+              {/* Second Opinion - low-confidence tier 4 only */}
+              {evaluation.metadata.secondOpinion && (
+                <div className="col-span-2">
+                  <span className="font-semibold text-purple-900 dark:text-purple-200">Second Opinion:</span>
+                  <span className="ml-2 text-purple-800 dark:text-purple-300">
+                    {evaluation.metadata.secondOpinion.isCorrect ? 'Correct' : 'Incorrect'} ({evaluation.metadata.secondOpinion.score}%) from{' '}
+                    <span className="font-mono text-xs">{evaluation.metadata.secondOpinion.model}</span>
+                  </span>
+                  {evaluation.metadata.secondOpinion.agreed ? (
+                    <span className="ml-2 text-green-700 dark:text-green-400">agrees</span>
+                  ) : (
+                    <span className="ml-2 font-semibold text-red-700 dark:text-red-400">disagrees, flagged for teacher review</span>
+                  )}
+                </div>
+              )}
+
               {/* Evaluation Reason - full width */}
               {evaluation.metadata.evaluationReason && (
                 <div className="col-span-2">
@@ -317,7 +512,7 @@ export function EvaluationResultDisplay({
       )}
 
       {/* Try Again Button - Superuser only */}
-      {isSuperuser && (
+      {isSuperuser && !isStreaming && onTryAgain && (
         <button
           onClick={onTryAgain}
           className="mt-4 w-full py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors font-semibold"
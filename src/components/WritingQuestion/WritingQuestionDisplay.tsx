@@ -1,12 +1,12 @@
 /**
  * QuestionDisplay - Displays question header, metadata, and explanation
- * Works with the unified Question type for both fill-in-blank and writing questions
+ * Works with quiz questions (answer key not required) for both fill-in-blank and writing questions
  */
 
-import type { Question } from '@/types';
+import type { QuizQuestion } from '@/types';
 
 interface QuestionDisplayProps {
-  question: Question;
+  question: QuizQuestion;
   showEvaluation?: boolean; // Kept for backward compatibility, not currently used
 }
 
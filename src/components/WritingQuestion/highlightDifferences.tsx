@@ -1,36 +1,84 @@
 /**
- * Utility to highlight differences between user answer and corrected answer
- * Returns JSX with differences highlighted
+ * Utility to highlight differences between the user answer and a target answer
+ * (corrected or expected). Uses the word/character alignment from answer-diff.
+ * Returns JSX with differences highlighted:
+ *   - missing words: green
+ *   - extra words: red, struck through
+ *   - misspelled words: amber, with changed letters marked
+ *   - accent-only changes: blue, with the accented letters marked
  */
 
-export function highlightDifferences(userAnswer: string, correctedAnswer: string): JSX.Element {
-  const userWords = userAnswer.split(/(\s+)/);
-  const correctedWords = correctedAnswer.split(/(\s+)/);
-  const maxLength = Math.max(userWords.length, correctedWords.length);
+import { diffAnswers, type CharDiff } from '@/lib/answer-diff';
 
-  const elements: JSX.Element[] = [];
-
-  for (let i = 0; i < maxLength; i++) {
-    const userWord = userWords[i] || '';
-    const correctedWord = correctedWords[i] || '';
-
-    // Preserve whitespace as-is
-    if (/^\s+$/.test(correctedWord)) {
-      elements.push(<span key={i}>{correctedWord}</span>);
-      continue;
+function renderChars(chars: CharDiff[], changedClassName: string): JSX.Element[] {
+  return chars.map((char, i) => {
+    if (char.op === 'equal') return <span key={i}>{char.text}</span>;
+    if (char.op === 'delete') {
+      return <del key={i} className="text-red-600 dark:text-red-400 opacity-70">{char.text}</del>;
     }
+    return <span key={i} className={changedClassName}>{char.text}</span>;
+  });
+}
+
+export function highlightDifferences(userAnswer: string, targetAnswer: string): JSX.Element {
+  const elements = diffAnswers(userAnswer, targetAnswer).map((word, i) => {
+    const space = word.space ? <span>{word.space}</span> : null;
 
-    if (userWord !== correctedWord) {
-      // Highlight the corrected word
-      elements.push(
-        <span key={i} className="bg-green-200 dark:bg-green-700 font-semibold px-1 rounded">
-          {correctedWord}
-        </span>
-      );
-    } else {
-      elements.push(<span key={i}>{correctedWord}</span>);
+    switch (word.op) {
+      case 'insert':
+        return (
+          <span key={i}>
+            {space}
+            <ins className="no-underline bg-green-200 dark:bg-green-700 font-semibold px-1 rounded" title="Missing word">
+              {word.text}
+            </ins>
+          </span>
+        );
+      case 'delete':
+        return (
+          <span key={i}>
+            {space}
+            <del className="bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300 px-1 rounded" title="Extra word">
+              {word.text}
+            </del>
+          </span>
+        );
+      case 'substitute':
+        return (
+          <span key={i}>
+            {space}
+            <span className="bg-amber-100 dark:bg-amber-900/50 px-1 rounded" title="Spelling">
+              {renderChars(word.chars, 'font-bold text-amber-800 dark:text-amber-200 underline')}
+            </span>
+          </span>
+        );
+      case 'accent':
+        return (
+          <span key={i}>
+            {space}
+            <span className="bg-blue-100 dark:bg-blue-900/50 px-1 rounded" title="Accent">
+              {renderChars(word.chars, 'font-bold text-blue-800 dark:text-blue-200 underline decoration-dotted')}
+            </span>
+          </span>
+        );
+      default:
+        return <span key={i}>{space}{word.text}</span>;
     }
-  }
+  });
 
   return <>{elements}</>;
 }
+
+/**
+ * Key for the highlight styles
+ */
+export function DiffLegend(): JSX.Element {
+  return (
+    <p className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-600 dark:text-gray-400 mt-1">
+      <span><span className="bg-green-200 dark:bg-green-700 px-1 rounded">missing</span></span>
+      <span><del className="bg-red-100 dark:bg-red-900/50 text-red-700 dark:text-red-300 px-1 rounded">extra</del></span>
+      <span><span className="bg-amber-100 dark:bg-amber-900/50 px-1 rounded">spelling</span></span>
+      <span><span className="bg-blue-100 dark:bg-blue-900/50 px-1 rounded">accent</span></span>
+    </p>
+  );
+}
@@ -6,10 +6,12 @@
 'use client';
 
 import { useEffect } from 'react';
-import type { Question } from '@/types';
-import type { EvaluationResult } from '@/app/api/evaluate-writing/route';
+import type { AnswerReveal, QuizQuestion } from '@/types';
+import type { EvaluationResult } from '@/lib/answer-evaluation';
 import { useQuestionEvaluation } from '@/hooks/useQuestionEvaluation';
 import { getSuperuserOverride } from '@/lib/superuser-override';
+import { submitAnswerAppeal } from '@/lib/quiz-session';
+import { countBlanks } from '@/lib/writing-questions';
 
 import { QuestionDisplay } from './WritingQuestionDisplay';
 import { QuestionHints } from './WritingQuestionHints';
@@ -17,21 +19,23 @@ import { AnswerInput } from './WritingAnswerInput';
 import { EvaluationResultDisplay } from './WritingEvaluationResult';
 
 interface TypedAnswerQuestionProps {
-  question: Question;
-  onSubmit?: (answer: string, evaluation: EvaluationResult) => void;
+  /** Answer key fields are filled in by the parent once revealed */
+  question: QuizQuestion;
+  /** Quiz session that grades the answer server-side */
+  sessionId: string | null;
+  onSubmit?: (answer: string, evaluation: EvaluationResult, reveal: AnswerReveal | null, recorded: boolean) => void;
   showHints?: boolean;
   disabled?: boolean;
   isSuperuser?: boolean;
-  studyCodeUuid?: string | null;
 }
 
 export default function TypedAnswerQuestion({
   question,
+  sessionId,
   onSubmit,
   showHints = true,
   disabled = false,
-  isSuperuser = false,
-  studyCodeUuid = null
+  isSuperuser = false
 }: TypedAnswerQuestionProps) {
   // Compute effective superuser status - sessionStorage override ALWAYS takes precedence
   const override = getSuperuserOverride();
@@ -43,6 +47,9 @@ export default function TypedAnswerQuestion({
     setUserAnswer,
     isEvaluating,
     evaluation,
+    streamingEvaluation,
+    recorded,
+    submitError,
     submitAnswer,
     resetAnswer
   } = useQuestionEvaluation({ onSubmit });
@@ -54,31 +61,23 @@ export default function TypedAnswerQuestion({
 
   // Determine input variant based on question type
   const inputVariant = question.type === 'fill-in-blank' ? 'single-line' : 'multi-line';
-  const questionType = question.type === 'fill-in-blank' ? 'fill_in_blank' : (question.writingType || 'translation');
 
   const handleSubmit = async () => {
-    if (!userAnswer.trim() || isEvaluating) return;
+    if (!userAnswer.trim() || isEvaluating || !sessionId) return;
 
     // Get superuser override from sessionStorage (if set via URL param)
     const superuserOverride = getSuperuserOverride();
 
-    await submitAnswer(
-      question.question,
-      question.correctAnswer,
-      questionType,
-      question.difficulty,
-      question.acceptableVariations || [],
-      studyCodeUuid || undefined,
-      superuserOverride
-    );
+    await submitAnswer(sessionId, question.id, superuserOverride);
   };
 
   // Determine placeholder text
+  const blankCount = question.type === 'fill-in-blank' ? countBlanks(question.question) : 1;
+
   const getPlaceholder = () => {
     if (question.type === 'fill-in-blank') {
-      const blankCount = (question.question.match(/___+/g) || []).length;
       return blankCount > 1
-        ? 'Type answers separated by commas...'
+        ? 'Type this blank in French...'
         : 'Type your answer in French...';
     }
     return question.requiresCompleteSentence
@@ -95,7 +94,7 @@ export default function TypedAnswerQuestion({
       />
 
       {/* Hints - Only for Superusers */}
-      {!evaluation && question.hints && question.hints.length > 0 && (
+      {!evaluation && !streamingEvaluation && question.hints && question.hints.length > 0 && (
         <QuestionHints
           hints={question.hints}
           isSuperuser={effectiveIsSuperuser}
@@ -104,7 +103,7 @@ export default function TypedAnswerQuestion({
       )}
 
       {/* Answer Input */}
-      {!evaluation && (
+      {!evaluation && !streamingEvaluation && (
         <AnswerInput
           userAnswer={userAnswer}
           onAnswerChange={setUserAnswer}
@@ -114,9 +113,17 @@ export default function TypedAnswerQuestion({
           variant={inputVariant}
           placeholder={getPlaceholder()}
           rows={question.requiresCompleteSentence ? 3 : 2}
+          blankCount={blankCount}
         />
       )}
 
+      {/* Submission failed: nothing was recorded, the answer can be submitted again */}
+      {submitError && !evaluation && !isEvaluating && (
+        <p role="alert" className="text-sm text-red-800 dark:text-red-200 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 p-3 rounded-lg">
+          {submitError}
+        </p>
+      )}
+
       {/* Superuser Metadata - Question Screen */}
       {effectiveIsSuperuser && !evaluation && (
         <div className="p-4 bg-purple-50 dark:bg-purple-900/20 border border-purple-200 dark:border-purple-800 rounded-lg">
@@ -155,6 +162,18 @@ export default function TypedAnswerQuestion({
         </div>
       )}
 
+      {/* Feedback streaming in (no Try Again: the final result would land on the reset answer) */}
+      {!evaluation && streamingEvaluation && (
+        <EvaluationResultDisplay
+          evaluation={streamingEvaluation}
+          userAnswer={userAnswer}
+          isSuperuser={effectiveIsSuperuser}
+          questionType={question.type}
+          writingType={question.writingType}
+          isStreaming
+        />
+      )}
+
       {/* Evaluation Result */}
       {evaluation && (
         <EvaluationResultDisplay
@@ -163,6 +182,9 @@ export default function TypedAnswerQuestion({
           correctAnswer={question.correctAnswer}
           explanation={question.explanation}
           onTryAgain={resetAnswer}
+          onAppeal={sessionId && recorded
+            ? (comment) => submitAnswerAppeal(sessionId, question.id, comment)
+            : undefined}
           isSuperuser={effectiveIsSuperuser}
           questionType={question.type}
           writingType={question.writingType}
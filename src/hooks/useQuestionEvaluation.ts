@@ -4,61 +4,86 @@
  */
 
 import { useState } from 'react';
-import type { EvaluationResult } from '@/app/api/evaluate-writing/route';
-import { evaluateWritingAnswer } from '@/lib/writing-questions';
+import type { AnswerReveal } from '@/types';
+import type { EvaluationResult } from '@/lib/answer-evaluation';
+import { isQuizAnswerFailure, submitQuizAnswer } from '@/lib/quiz-session';
+import { applyEvaluationProgress, type PartialEvaluation } from '@/lib/evaluation-stream';
 
 export interface UseQuestionEvaluationProps {
-  onSubmit?: (answer: string, evaluation: EvaluationResult) => void;
+  onSubmit?: (answer: string, evaluation: EvaluationResult, reveal: AnswerReveal | null, recorded: boolean) => void;
 }
 
 export function useQuestionEvaluation({ onSubmit }: UseQuestionEvaluationProps = {}) {
   const [userAnswer, setUserAnswer] = useState('');
   const [isEvaluating, setIsEvaluating] = useState(false);
   const [evaluation, setEvaluation] = useState<EvaluationResult | null>(null);
+  // Semantic API feedback streamed in before the final evaluation
+  const [partialEvaluation, setPartialEvaluation] = useState<PartialEvaluation | null>(null);
+  // Whether the answer being shown was recorded (only recorded answers can be appealed)
+  const [recorded, setRecorded] = useState(false);
+  // Why the last submission wasn't graded (the answer stays editable for resubmitting)
+  const [submitError, setSubmitError] = useState<string | null>(null);
 
   const submitAnswer = async (
-    question: string,
-    correctAnswer: string | null,
-    questionType: string,
-    difficulty: string,
-    acceptableVariations: string[] = [],
-    studyCodeId?: string,
+    sessionId: string,
+    questionId: string,
     superuserOverride?: boolean | null
   ) => {
     if (!userAnswer.trim() || isEvaluating) return;
 
     setIsEvaluating(true);
+    setSubmitError(null);
 
     try {
-      const result = await evaluateWritingAnswer(
-        question,
+      const response = await submitQuizAnswer(
+        sessionId,
+        questionId,
         userAnswer,
-        correctAnswer,
-        questionType,
-        difficulty,
-        acceptableVariations,
-        studyCodeId,
-        superuserOverride
+        superuserOverride,
+        (progress) => setPartialEvaluation((partial) => applyEvaluationProgress(partial, progress))
       );
 
-      setEvaluation(result);
+      // Nothing was recorded: keep the answer so the student can submit it again
+      if (isQuizAnswerFailure(response)) {
+        setSubmitError(response.error);
+        return null;
+      }
+
+      setEvaluation(response.evaluation);
+      setPartialEvaluation(null);
+      setRecorded(response.recorded);
 
       if (onSubmit) {
-        onSubmit(userAnswer, result);
+        onSubmit(userAnswer, response.evaluation, response.reveal, response.recorded);
       }
 
-      return result;
+      return response.evaluation;
     } catch (error) {
       console.error('Error evaluating answer:', error);
       return null;
     } finally {
       setIsEvaluating(false);
+      setPartialEvaluation(null);
     }
   };
 
+  // Streamed feedback to show while grading (the verdict is only known from the result)
+  const streamingEvaluation: EvaluationResult | null =
+    isEvaluating && partialEvaluation?.feedback
+      ? {
+          isCorrect: false, // Not known until the result; hidden while streaming
+          score: 0,
+          hasCorrectAccents: true,
+          feedback: partialEvaluation.feedback,
+          corrections: {},
+        }
+      : null;
+
   const resetAnswer = () => {
     setUserAnswer('');
     setEvaluation(null);
+    setRecorded(false);
+    setSubmitError(null);
   };
 
   return {
@@ -66,6 +91,9 @@ export function useQuestionEvaluation({ onSubmit }: UseQuestionEvaluationProps =
     setUserAnswer,
     isEvaluating,
     evaluation,
+    streamingEvaluation,
+    recorded,
+    submitError,
     submitAnswer,
     resetAnswer,
   };
@@ -4,6 +4,10 @@
  */
 
 import type { QuizHistory, ConceptMastery } from './supabase';
+import type { AnswerAppeal, AppealStatus } from './answer-appeals';
+import type { TeacherGradeDecision, TeacherGradeItem, TeacherGradeStatus } from './teacher-grading';
+import type { ClassEvaluationPolicyEntry } from './class-evaluation-policies';
+import type { ClassEvaluationPolicy } from './evaluation-policy';
 
 export interface ClasswideStats {
   totalStudents: number;
@@ -19,6 +23,7 @@ export interface StudentSummary {
   displayName: string | null;
   adminLabel: string | null;
   wrongAnswerCountdown: number | null;
+  scheduler: string | null;
   totalQuizzes: number;
   totalQuestions: number;
   correctAnswers: number;
@@ -120,6 +125,22 @@ export async function updateCountdownOverride(code: string, seconds: number | nu
   }
 }
 
+/**
+ * Update spaced repetition scheduler override for a study code (null = deployment default)
+ */
+export async function updateSchedulerOverride(code: string, scheduler: string | null): Promise<boolean> {
+  try {
+    const res = await fetch(`/api/admin/students/${encodeURIComponent(code)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ scheduler }),
+    });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Delete a single student and all their data
  */
@@ -159,6 +180,96 @@ export async function deleteStudents(codes: string[]): Promise<{
   }
 }
 
+/**
+ * Get answer appeals for the review queue (pending by default)
+ */
+export async function getAnswerAppeals(status: AppealStatus = 'pending'): Promise<AnswerAppeal[]> {
+  try {
+    const res = await fetch(`/api/admin/appeals?status=${status}`);
+    if (!res.ok) return [];
+    return await res.json();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Accept or reject a pending appeal
+ */
+export async function resolveAnswerAppeal(
+  appealId: string,
+  status: Exclude<AppealStatus, 'pending'>
+): Promise<boolean> {
+  try {
+    const res = await fetch(`/api/admin/appeals/${encodeURIComponent(appealId)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status }),
+    });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get answers held for teacher grading (pending by default)
+ */
+export async function getTeacherGrades(status: TeacherGradeStatus = 'pending'): Promise<TeacherGradeItem[]> {
+  try {
+    const res = await fetch(`/api/admin/teacher-grades?status=${status}`);
+    if (!res.ok) return [];
+    return await res.json();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Grade a held answer: accept the suggested verdict or override the score
+ */
+export async function submitTeacherGrade(gradeId: string, decision: TeacherGradeDecision): Promise<boolean> {
+  try {
+    const res = await fetch(`/api/admin/teacher-grades/${encodeURIComponent(gradeId)}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(decision),
+    });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the evaluation policy overrides of each class
+ */
+export async function getClassEvaluationPolicies(): Promise<ClassEvaluationPolicyEntry[]> {
+  try {
+    const res = await fetch('/api/admin/class-policies');
+    if (!res.ok) return [];
+    return await res.json();
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Set a class's evaluation policy override (null removes it)
+ */
+export async function updateClassEvaluationPolicy(classLabel: string, policy: ClassEvaluationPolicy | null): Promise<boolean> {
+  try {
+    const res = await fetch('/api/admin/class-policies', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ classLabel, policy }),
+    });
+    return res.ok;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Export all student data as CSV
  */
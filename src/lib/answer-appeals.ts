@@ -0,0 +1,264 @@
+/**
+ * Answer Appeals
+ * Students can dispute a typed answer that was graded wrong ("I think I was right").
+ * The recorded answer and its evaluation trace are copied into answer_appeals and
+ * wait in the admin review queue.
+ *
+ * Accepting an appeal:
+ *   1. accept_answer_appeal, in one transaction, appends the answer to the question's
+ *      acceptable_variations (which also clears the question's evaluation cache, see
+ *      schema triggers) and flips the recorded quiz_session_answers / question_results
+ *      row to correct, updating the quiz_history score
+ *   2. Replays the student's leitner_state for the question
+ */
+
+import { supabaseAdmin, isSupabaseAdminAvailable } from './supabase-admin';
+import { FEATURES } from './feature-flags';
+import { normalizeText, normalizePunctuationSpacing } from './writing-questions';
+import { replayReviews } from './progress-server';
+import type { EvaluationTrace } from './answer-evaluation';
+
+export type AppealStatus = 'pending' | 'accepted' | 'rejected';
+
+export const APPEAL_STATUSES: readonly AppealStatus[] = ['pending', 'accepted', 'rejected'];
+
+/** Maximum length of the optional student comment */
+const MAX_APPEAL_COMMENT_LENGTH = 500;
+
+/**
+ * Appeal with the question it disputes, as shown in the admin review queue
+ */
+export interface AnswerAppeal {
+  id: string;
+  status: AppealStatus;
+  userAnswer: string;
+  score: number | null;
+  feedback: string | null;
+  evaluationTrace: EvaluationTrace | null;
+  studentComment: string | null;
+  createdAt: string;
+  resolvedAt: string | null;
+  studyCode: string | null;
+  question: {
+    id: string;
+    question: string;
+    correctAnswer: string;
+    acceptableVariations: string[];
+    type: string;
+    difficulty: string;
+    topic: string;
+  };
+}
+
+/**
+ * Outcome of creating an appeal
+ */
+export type CreateAppealResult =
+  | { ok: true; appealId: string }
+  | { ok: false; status: number; error: string };
+
+export function isAppealStatus(value: unknown): value is AppealStatus {
+  return typeof value === 'string' && (APPEAL_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * Record an appeal for a recorded wrong typed answer (writing or fill-in-blank) in a
+ * quiz session. The disputed answer and trace come from quiz_session_answers, never
+ * the client.
+ */
+export async function createAppeal(
+  sessionId: string,
+  questionId: string,
+  studentComment?: string | null
+): Promise<CreateAppealResult> {
+  const { data: session } = await supabaseAdmin!
+    .from('quiz_sessions')
+    .select('id, study_code_id')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  if (!session) {
+    return { ok: false, status: 404, error: 'Quiz session not found' };
+  }
+
+  const { data: answer } = await supabaseAdmin!
+    .from('quiz_session_answers')
+    .select('user_answer, is_correct, score, evaluation_trace, feedback, teacher_grade')
+    .eq('session_id', sessionId)
+    .eq('question_id', questionId)
+    .maybeSingle();
+
+  if (!answer) {
+    return { ok: false, status: 404, error: 'No recorded answer for this question' };
+  }
+
+  if (answer.is_correct) {
+    return { ok: false, status: 400, error: 'Answer was already graded correct' };
+  }
+
+  if (answer.teacher_grade) {
+    return { ok: false, status: 400, error: 'Answer is graded by the teacher' };
+  }
+
+  // Only typed answers can be right in a way the answer key missed; accepting an appeal
+  // on a multiple-choice or true/false answer would add a wrong option to the key
+  const { data: question } = await supabaseAdmin!
+    .from('questions')
+    .select('type')
+    .eq('id', questionId)
+    .maybeSingle();
+
+  if (!question || (question.type !== 'writing' && question.type !== 'fill-in-blank')) {
+    return { ok: false, status: 400, error: 'Only typed answers can be appealed' };
+  }
+
+  const { data: inserted, error } = await supabaseAdmin!
+    .from('answer_appeals')
+    .upsert({
+      session_id: sessionId,
+      question_id: questionId,
+      study_code_id: session.study_code_id,
+      user_answer: answer.user_answer,
+      score: answer.score,
+      evaluation_trace: answer.evaluation_trace,
+      feedback: answer.feedback,
+      student_comment: studentComment?.trim().slice(0, MAX_APPEAL_COMMENT_LENGTH) || null,
+    }, { onConflict: 'session_id,question_id', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to record appeal: ${error.message}`);
+  }
+
+  if (!inserted || inserted.length === 0) {
+    return { ok: false, status: 409, error: 'This answer has already been appealed' };
+  }
+
+  return { ok: true, appealId: inserted[0].id as string };
+}
+
+/**
+ * List appeals with their questions (oldest first, so the queue is worked in order)
+ */
+export async function listAppeals(status: AppealStatus = 'pending'): Promise<AnswerAppeal[]> {
+  if (!isSupabaseAdminAvailable()) return [];
+
+  const { data, error } = await supabaseAdmin!
+    .from('answer_appeals')
+    .select(`
+      id, status, user_answer, score, feedback, evaluation_trace, student_comment, created_at, resolved_at,
+      study_codes(code),
+      questions!inner(id, question, correct_answer, acceptable_variations, type, difficulty, topic)
+    `)
+    .eq('status', status)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load appeals: ${error.message}`);
+  }
+
+  return (data || []).map((row) => {
+    const studyCode = row.study_codes as unknown as { code: string } | null;
+    const question = row.questions as unknown as Record<string, unknown>;
+    return {
+      id: row.id,
+      status: row.status,
+      userAnswer: row.user_answer,
+      score: row.score,
+      feedback: row.feedback,
+      evaluationTrace: row.evaluation_trace,
+      studentComment: row.student_comment,
+      createdAt: row.created_at,
+      resolvedAt: row.resolved_at,
+      studyCode: studyCode?.code ?? null,
+      question: {
+        id: question.id as string,
+        question: question.question as string,
+        correctAnswer: question.correct_answer as string,
+        acceptableVariations: (question.acceptable_variations as string[] | null) || [],
+        type: question.type as string,
+        difficulty: question.difficulty as string,
+        topic: question.topic as string,
+      },
+    };
+  });
+}
+
+/**
+ * Reject a pending appeal. Returns false if it wasn't pending.
+ */
+export async function rejectAppeal(appealId: string): Promise<boolean> {
+  const { data } = await supabaseAdmin!
+    .from('answer_appeals')
+    .update({ status: 'rejected', resolved_at: new Date().toISOString() })
+    .eq('id', appealId)
+    .eq('status', 'pending')
+    .select('id')
+    .maybeSingle();
+
+  return data !== null;
+}
+
+/**
+ * Accept a pending appeal and correct everything derived from the original grade.
+ * Returns false if it wasn't pending.
+ */
+export async function acceptAppeal(appealId: string): Promise<boolean> {
+  const { data: pending } = await supabaseAdmin!
+    .from('answer_appeals')
+    .select('question_id, user_answer')
+    .eq('id', appealId)
+    .eq('status', 'pending')
+    .maybeSingle();
+
+  if (!pending) return false;
+
+  const variation = await newAcceptableVariation(pending.question_id, pending.user_answer);
+
+  // Only accepts a pending appeal, so two teachers can't resolve the same one
+  const { data: accepted, error } = await supabaseAdmin!
+    .rpc('accept_answer_appeal', { p_appeal_id: appealId, p_variation: variation })
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to accept appeal: ${error.message}`);
+  }
+  if (!accepted) return false;
+
+  const appeal = accepted as { question_id: string; study_code_id: string | null; user_answer: string };
+
+  // The appeal is accepted either way; replaying again later rebuilds the same state
+  if (appeal.study_code_id && FEATURES.LEITNER_MODE) {
+    try {
+      await replayReviews(appeal.study_code_id, appeal.question_id);
+    } catch (replayError) {
+      console.error(`Failed to replay reviews after accepting appeal ${appealId}:`, replayError);
+    }
+  }
+
+  console.log(`✅ Appeal ${appealId} accepted: "${appeal.user_answer}" added to question ${appeal.question_id}`);
+  return true;
+}
+
+/**
+ * The answer to append to a question's acceptable_variations, or null if an
+ * equivalent one is already accepted
+ */
+async function newAcceptableVariation(questionId: string, answer: string): Promise<string | null> {
+  const { data: question, error } = await supabaseAdmin!
+    .from('questions')
+    .select('correct_answer, acceptable_variations')
+    .eq('id', questionId)
+    .single();
+
+  if (error || !question) {
+    throw new Error(`Failed to load question ${questionId}: ${error?.message}`);
+  }
+
+  const normalize = (text: string) => normalizePunctuationSpacing(normalizeText(text));
+  const variations = (question.acceptable_variations as string[] | null) || [];
+  const known = [question.correct_answer as string, ...variations].map(normalize);
+
+  // Accent-insensitive match: an accent-only difference is graded by the normal tiers
+  return known.includes(normalize(answer)) ? null : answer.trim();
+}
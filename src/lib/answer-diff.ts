@@ -0,0 +1,155 @@
+/**
+ * Answer Diff
+ * Aligns a student's answer with a target answer (corrected or expected) for highlighting.
+ *
+ * Words are aligned with a weighted edit distance and backtrace, so one inserted
+ * or missing word doesn't shift every following word. Changed words are then
+ * diffed character by character. Case-only differences count as equal (grading
+ * ignores case); accent-only differences get their own kind.
+ */
+
+import { normalizeText } from './writing-questions';
+
+export interface CharDiff {
+  /** insert = only in the target, delete = only in the student's answer */
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export type WordDiff =
+  /** Same word (ignoring case); shown as in the target */
+  | { op: 'equal'; space: string; text: string }
+  /** Missing from the student's answer */
+  | { op: 'insert'; space: string; text: string }
+  /** Extra word in the student's answer */
+  | { op: 'delete'; space: string; text: string }
+  /** Same word apart from accents */
+  | { op: 'accent'; space: string; text: string; chars: CharDiff[] }
+  /** Misspelled or changed word */
+  | { op: 'substitute'; space: string; text: string; chars: CharDiff[] };
+
+interface Token {
+  text: string;
+  /** Whitespace before the token in its source string */
+  space: string;
+}
+
+/** Substitution costs (insert/delete cost 1 each) */
+const ACCENT_COST = 0.1;
+const SIMILAR_COST = 1;
+const DISSIMILAR_COST = 2.1; // More than delete + insert: unrelated words show as removed/added
+
+/** Words, with elided prefixes (j', l', qu') and punctuation as separate tokens */
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.normalize('NFC').matchAll(/(\s*)(\p{L}+['’]|[\p{L}\p{N}-]+|[^\s\p{L}\p{N}])/gu)) {
+    tokens.push({ space: match[1], text: match[2] });
+  }
+  return tokens;
+}
+
+/** Character-level alignment (LCS backtrace) */
+export function diffChars(from: string, to: string): CharDiff[] {
+  const a = [...from];
+  const b = [...to];
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].toLowerCase() === b[j].toLowerCase()
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diffs: CharDiff[] = [];
+  const push = (op: CharDiff['op'], text: string) => {
+    const last = diffs[diffs.length - 1];
+    if (last && last.op === op) last.text += text;
+    else diffs.push({ op, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].toLowerCase() === b[j].toLowerCase()) {
+      push('equal', b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('delete', a[i++]);
+    } else {
+      push('insert', b[j++]);
+    }
+  }
+  while (i < a.length) push('delete', a[i++]);
+  while (j < b.length) push('insert', b[j++]);
+
+  return diffs;
+}
+
+function similarity(a: string, b: string): number {
+  const common = diffChars(normalizeText(a), normalizeText(b))
+    .filter((d) => d.op === 'equal')
+    .reduce((sum, d) => sum + d.text.length, 0);
+  return (2 * common) / (a.length + b.length);
+}
+
+function substitutionCost(a: string, b: string): number {
+  if (a.toLowerCase() === b.toLowerCase()) return 0;
+  if (normalizeText(a) === normalizeText(b)) return ACCENT_COST;
+  return similarity(a, b) >= 0.5 ? SIMILAR_COST : DISSIMILAR_COST;
+}
+
+/**
+ * Align a student's answer with a target answer word by word
+ */
+export function diffAnswers(userAnswer: string, targetAnswer: string): WordDiff[] {
+  const user = tokenize(userAnswer);
+  const target = tokenize(targetAnswer);
+  const n = user.length;
+  const m = target.length;
+
+  // cost[i][j] = cheapest alignment of user[i..] with target[j..]
+  const cost: number[][] = Array.from({ length: n + 1 }, () => Array(m + 1).fill(0));
+  for (let i = n; i >= 0; i--) {
+    for (let j = m; j >= 0; j--) {
+      if (i === n) cost[i][j] = m - j;
+      else if (j === m) cost[i][j] = n - i;
+      else {
+        cost[i][j] = Math.min(
+          cost[i + 1][j + 1] + substitutionCost(user[i].text, target[j].text),
+          cost[i + 1][j] + 1,
+          cost[i][j + 1] + 1
+        );
+      }
+    }
+  }
+
+  const diffs: WordDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m) {
+      const sub = substitutionCost(user[i].text, target[j].text);
+      if (cost[i][j] === cost[i + 1][j + 1] + sub) {
+        const { text, space } = target[j];
+        if (sub === 0) diffs.push({ op: 'equal', space, text });
+        else diffs.push({ op: sub === ACCENT_COST ? 'accent' : 'substitute', space, text, chars: diffChars(user[i].text, text) });
+        i++;
+        j++;
+        continue;
+      }
+    }
+    // Extra words before missing ones, so a replaced word reads "old → new"
+    if (i < n && (j === m || cost[i][j] === cost[i + 1][j] + 1)) {
+      diffs.push({ op: 'delete', space: user[i].space, text: user[i].text });
+      i++;
+    } else {
+      diffs.push({ op: 'insert', space: target[j].space, text: target[j].text });
+      j++;
+    }
+  }
+
+  return diffs;
+}
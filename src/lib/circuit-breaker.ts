@@ -0,0 +1,74 @@
+/**
+ * Circuit Breaker
+ * Stops calling a failing dependency for a while, so requests get a fallback
+ * right away instead of waiting for (and then failing on) every call.
+ *
+ * - closed:    calls go through; failureThreshold consecutive failures open the circuit
+ * - open:      calls are skipped until cooldownMs has passed
+ * - half_open: one trial call; success closes the circuit, failure re-opens it
+ *
+ * State is per instance (like the memory rate limit store): each server instance
+ * detects an outage on its own after a few failed calls.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerConfig {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export interface CircuitBreaker {
+  name: string;
+  state(): CircuitState;
+  /** Whether a call may be attempted now (in half_open, only the first caller gets the trial) */
+  allowRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+}
+
+export function createCircuitBreaker(name: string, config: CircuitBreakerConfig): CircuitBreaker {
+  let consecutiveFailures = 0;
+  let openedAt: number | null = null;
+  let trialInFlight = false;
+
+  function state(): CircuitState {
+    if (openedAt === null) return 'closed';
+    return Date.now() - openedAt >= config.cooldownMs ? 'half_open' : 'open';
+  }
+
+  return {
+    name,
+    state,
+
+    allowRequest(): boolean {
+      const current = state();
+      if (current === 'closed') return true;
+      if (current === 'open' || trialInFlight) return false;
+      trialInFlight = true;
+      return true;
+    },
+
+    recordSuccess(): void {
+      if (openedAt !== null) {
+        console.log(`🔌 Circuit ${name} closed: calls succeeding again`);
+      }
+      consecutiveFailures = 0;
+      openedAt = null;
+      trialInFlight = false;
+    },
+
+    recordFailure(): void {
+      consecutiveFailures++;
+      const wasTrial = trialInFlight;
+      trialInFlight = false;
+
+      if (wasTrial || consecutiveFailures >= config.failureThreshold) {
+        if (openedAt === null || wasTrial) {
+          console.warn(`🔌 Circuit ${name} open after ${consecutiveFailures} consecutive failures; retrying in ${config.cooldownMs / 1000}s`);
+        }
+        openedAt = Date.now();
+      }
+    },
+  };
+}
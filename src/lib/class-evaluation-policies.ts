@@ -0,0 +1,112 @@
+/**
+ * Class Evaluation Policies
+ * Evaluation policy overrides per class, stored in class_evaluation_policies and keyed
+ * by the class label: the admin_label of the students' study codes (see evaluation-policy.ts
+ * for how they combine with the difficulty defaults and question overrides).
+ *
+ * A change applies to answers graded from then on; recorded answers aren't re-graded.
+ * Cached evaluations are keyed by the resolved policy, so they never leak across classes.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabaseAdmin, isSupabaseAdminAvailable } from './supabase-admin';
+import { parseClassEvaluationPolicy, type ClassEvaluationPolicy } from './evaluation-policy';
+
+export interface ClassEvaluationPolicyEntry {
+  classLabel: string;
+  policy: ClassEvaluationPolicy;
+  updatedAt: string;
+}
+
+/**
+ * Policy override of the student's class (empty when the study code has no class
+ * label or the class has no override)
+ */
+export async function getStudentClassPolicy(
+  supabase: SupabaseClient,
+  studyCodeId: string | null | undefined
+): Promise<ClassEvaluationPolicy> {
+  if (!studyCodeId) return {};
+
+  const { data: studyCode, error: studyCodeError } = await supabase
+    .from('study_codes')
+    .select('admin_label')
+    .eq('id', studyCodeId)
+    .maybeSingle();
+
+  if (studyCodeError) {
+    throw new Error(`Failed to load study code class: ${studyCodeError.message}`);
+  }
+  if (!studyCode?.admin_label) return {};
+
+  const { data, error } = await supabase
+    .from('class_evaluation_policies')
+    .select('policy')
+    .eq('class_label', studyCode.admin_label)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load class evaluation policy: ${error.message}`);
+  }
+
+  return parseClassEvaluationPolicy(data?.policy);
+}
+
+/**
+ * getStudentClassPolicy with one lookup per study code, for jobs that grade many
+ * answers in one run
+ */
+export function createClassPolicyLookup(
+  supabase: SupabaseClient
+): (studyCodeId: string | null | undefined) => Promise<ClassEvaluationPolicy> {
+  const policies = new Map<string, Promise<ClassEvaluationPolicy>>();
+  return (studyCodeId) => {
+    if (!studyCodeId) return Promise.resolve({});
+    let policy = policies.get(studyCodeId);
+    if (!policy) {
+      policy = getStudentClassPolicy(supabase, studyCodeId);
+      policies.set(studyCodeId, policy);
+    }
+    return policy;
+  };
+}
+
+/**
+ * List class policy overrides, by class label
+ */
+export async function listClassEvaluationPolicies(): Promise<ClassEvaluationPolicyEntry[]> {
+  if (!isSupabaseAdminAvailable()) return [];
+
+  const { data, error } = await supabaseAdmin!
+    .from('class_evaluation_policies')
+    .select('class_label, policy, updated_at')
+    .order('class_label');
+
+  if (error) {
+    throw new Error(`Failed to load class evaluation policies: ${error.message}`);
+  }
+
+  return (data || []).map((row) => ({
+    classLabel: row.class_label,
+    policy: parseClassEvaluationPolicy(row.policy),
+    updatedAt: row.updated_at,
+  }));
+}
+
+/**
+ * Set a class's policy override. An empty policy removes the override.
+ */
+export async function setClassEvaluationPolicy(classLabel: string, policy: ClassEvaluationPolicy): Promise<void> {
+  const { error } = Object.keys(policy).length === 0
+    ? await supabaseAdmin!
+      .from('class_evaluation_policies')
+      .delete()
+      .eq('class_label', classLabel)
+    : await supabaseAdmin!
+      .from('class_evaluation_policies')
+      .upsert({ class_label: classLabel, policy, updated_at: new Date().toISOString() });
+
+  if (error) {
+    throw new Error(`Failed to save class evaluation policy: ${error.message}`);
+  }
+}
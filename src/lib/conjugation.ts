@@ -0,0 +1,483 @@
+/**
+ * French Conjugation Engine
+ * Deterministic present-tense conjugation for the verbs the course teaches,
+ * used to grade conjugation answers without Levenshtein or the Semantic API,
+ * and to verify generated answer keys.
+ *
+ * Supported:
+ *   - Regular -er verbs, incl. -ger/-cer spelling changes (mangeons, commençons)
+ *     and é→è stem changes (préférer → je préfère, nous préférons)
+ *   - Regular -ir verbs (finir) and -re verbs (vendre) from the lists below
+ *   - Irregular: être, avoir, aller, faire
+ *
+ * Anything else (acheter, appeler, payer, sortir, prendre, ...) is unsupported
+ * and returns null, so callers fall back to the normal grading tiers rather
+ * than trusting a wrong form.
+ */
+
+import { calculateSimilarity, normalizeText } from './writing-questions';
+import type { EvaluationResult } from './answer-evaluation';
+import type { ErrorCategory } from './error-taxonomy';
+import type { EvaluationPolicy } from './evaluation-policy';
+
+export const SUBJECT_PRONOUNS = ['je', 'tu', 'il', 'elle', 'on', 'nous', 'vous', 'ils', 'elles'] as const;
+
+export type SubjectPronoun = typeof SUBJECT_PRONOUNS[number];
+
+/** Present-tense forms in person order: je, tu, il/elle/on, nous, vous, ils/elles */
+export type PresentTense = [string, string, string, string, string, string];
+
+const PERSON_INDEX: Record<SubjectPronoun, number> = {
+  je: 0, tu: 1, il: 2, elle: 2, on: 2, nous: 3, vous: 4, ils: 5, elles: 5,
+};
+
+const PERSON_LABELS = ['je', 'tu', 'il/elle/on', 'nous', 'vous', 'ils/elles'];
+
+const IRREGULAR_VERBS: Record<string, PresentTense> = {
+  'être': ['suis', 'es', 'est', 'sommes', 'êtes', 'sont'],
+  avoir: ['ai', 'as', 'a', 'avons', 'avez', 'ont'],
+  aller: ['vais', 'vas', 'va', 'allons', 'allez', 'vont'],
+  faire: ['fais', 'fais', 'fait', 'faisons', 'faites', 'font'],
+};
+
+/** -ir verbs conjugated like finir (sortir, partir, dormir, ... are not) */
+const REGULAR_IR_VERBS = new Set([
+  'finir', 'choisir', 'réussir', 'réfléchir', 'grandir', 'grossir', 'maigrir',
+  'rougir', 'obéir', 'punir', 'remplir', 'bâtir', 'applaudir', 'agir',
+]);
+
+/** -re verbs conjugated like vendre (prendre, mettre, dire, ... are not) */
+const REGULAR_RE_VERBS = new Set([
+  'vendre', 'attendre', 'entendre', 'répondre', 'perdre', 'descendre',
+  'rendre', 'défendre', 'correspondre', 'tondre',
+]);
+
+const ENDINGS = {
+  er: ['e', 'es', 'e', 'ons', 'ez', 'ent'],
+  ir: ['is', 'is', 'it', 'issons', 'issez', 'issent'],
+  re: ['s', 's', '', 'ons', 'ez', 'ent'],
+};
+
+/** Persons whose stem carries the stress (préférer → je préfère, nous préférons) */
+const STRESSED_PERSONS = new Set([0, 1, 2, 5]);
+
+const CONSONANTS = 'bcdfghjklmnpqrstvwxz';
+
+/** e + single consonant + er (acheter, appeler, jeter, lever): è or doubled consonant, not modeled */
+const MUTE_E_STEM = new RegExp(`e[${CONSONANTS}]er$`);
+
+/** é + consonants + er (préférer, espérer, répéter, célébrer) */
+const ACUTE_E_STEM = new RegExp(`é([${CONSONANTS}]+)er$`);
+
+/**
+ * Present-tense forms of a verb, or null if the verb isn't supported
+ */
+export function getPresentTense(infinitive: string): PresentTense | null {
+  const verb = infinitive.trim().toLowerCase().normalize('NFC');
+
+  if (IRREGULAR_VERBS[verb]) return IRREGULAR_VERBS[verb];
+
+  if (verb.endsWith('er') && verb.length > 3) {
+    if (verb.endsWith('yer') || MUTE_E_STEM.test(verb)) return null;
+
+    const stem = verb.slice(0, -2);
+    const stressedStem = ACUTE_E_STEM.test(verb)
+      ? stem.replace(/é([^é]*)$/, 'è$1')
+      : stem;
+
+    return ENDINGS.er.map((ending, person) => {
+      if (person === 3 && stem.endsWith('g')) return `${stem}eons`;
+      if (person === 3 && stem.endsWith('c')) return `${stem.slice(0, -1)}çons`;
+      return (STRESSED_PERSONS.has(person) ? stressedStem : stem) + ending;
+    }) as PresentTense;
+  }
+
+  if (REGULAR_IR_VERBS.has(verb)) {
+    const stem = verb.slice(0, -2);
+    return ENDINGS.ir.map((ending) => stem + ending) as PresentTense;
+  }
+
+  if (REGULAR_RE_VERBS.has(verb)) {
+    const stem = verb.slice(0, -2);
+    return ENDINGS.re.map((ending) => stem + ending) as PresentTense;
+  }
+
+  return null;
+}
+
+/**
+ * Present-tense form for a subject pronoun ("manger", "nous" → "mangeons")
+ */
+export function conjugate(infinitive: string, pronoun: SubjectPronoun): string | null {
+  return getPresentTense(infinitive)?.[PERSON_INDEX[pronoun]] ?? null;
+}
+
+function startsWithVowelSound(word: string): boolean {
+  return /^[aeiouyhàâéèêëîïôûù]/i.test(word);
+}
+
+/**
+ * Subject pronoun + verb form with elision ("je", "aime" → "j'aime")
+ */
+export function withSubjectPronoun(pronoun: SubjectPronoun, form: string): string {
+  return pronoun === 'je' && startsWithVowelSound(form) ? `j'${form}` : `${pronoun} ${form}`;
+}
+
+// ─── Answer parsing ──────────────────────────────────────────────────────────
+
+/**
+ * A subject pronoun and the verb form that follows it in an answer
+ */
+export interface ConjugationPair {
+  pronoun: SubjectPronoun;
+  form: string;
+  /** Position of the form in the answer (for corrections) */
+  start: number;
+  end: number;
+  /** Verb follows je/j' directly and the elision is wrong ("je aime", "j'parle") */
+  elisionError: boolean;
+}
+
+/** Words that may sit between a subject pronoun and its verb */
+const SKIPPED_WORDS = new Set([
+  'ne', "n'", 'me', "m'", 'te', "t'", 'se', "s'", 'le', 'la', 'les', "l'", 'lui', 'leur', 'y', 'en',
+]);
+
+/** Words a list of conjugations may contain besides pronouns and verbs */
+const CONNECTOR_WORDS = new Set(['et', 'pas']);
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.normalize('NFC').matchAll(/[a-zà-ÿœæ]+['’]?/gi)) {
+    tokens.push({
+      word: match[0].toLowerCase().replace('’', "'"),
+      start: match.index!,
+      end: match.index! + match[0].length,
+    });
+  }
+  return tokens;
+}
+
+function toSubjectPronoun(word: string): SubjectPronoun | null {
+  if (word === "j'") return 'je';
+  return (SUBJECT_PRONOUNS as readonly string[]).includes(word) ? word as SubjectPronoun : null;
+}
+
+/**
+ * Find subject pronoun + verb pairs in an answer.
+ * Handles elision (j'aime), negation (je ne parle pas), object pronouns and
+ * pronoun groups ("il/elle/on parle" counts once, for the first pronoun).
+ * Also reports whether the answer contains anything besides the pairs.
+ */
+export function extractConjugationPairs(text: string): { pairs: ConjugationPair[]; hasOtherWords: boolean } {
+  const tokens = tokenize(text);
+  const pairs: ConjugationPair[] = [];
+  let hasOtherWords = false;
+
+  let i = 0;
+  while (i < tokens.length) {
+    const pronoun = toSubjectPronoun(tokens[i].word);
+    if (!pronoun) {
+      if (!CONNECTOR_WORDS.has(tokens[i].word)) hasOtherWords = true;
+      i++;
+      continue;
+    }
+
+    const pronounWord = tokens[i].word;
+    let j = i + 1;
+    while (j < tokens.length && toSubjectPronoun(tokens[j].word)) j++;
+    const directlyFollows = j === i + 1;
+    while (j < tokens.length && SKIPPED_WORDS.has(tokens[j].word)) j++;
+
+    if (j >= tokens.length) {
+      hasOtherWords = true;
+      break;
+    }
+
+    const verb = tokens[j];
+    const elisionError = directlyFollows && pronoun === 'je' &&
+      (pronounWord === 'je') === startsWithVowelSound(verb.word);
+
+    pairs.push({ pronoun, form: verb.word, start: verb.start, end: verb.end, elisionError });
+    i = j + 1;
+  }
+
+  return { pairs, hasOtherWords };
+}
+
+// ─── Verification and grading ────────────────────────────────────────────────
+
+function isFormOf(forms: PresentTense, word: string): boolean {
+  const normalized = normalizeText(word);
+  return forms.some((form) => normalizeText(form) === normalized);
+}
+
+/** Whether a pair looks like an attempt at the verb (a form of it, or close to the expected form) */
+function isAttemptAt(forms: PresentTense, pair: ConjugationPair): boolean {
+  return isFormOf(forms, pair.form) || calculateSimilarity(pair.form, forms[PERSON_INDEX[pair.pronoun]]) >= 0.6;
+}
+
+/**
+ * Find the verb a conjugation question asks about: a quoted or parenthesized
+ * supported verb in the question text that the answer key attempts, otherwise
+ * any supported verb in the question whose forms appear in the key.
+ */
+export function findTargetVerb(questionText: string, correctAnswer: string): string | null {
+  const text = questionText.normalize('NFC').toLowerCase();
+  const marked = [...text.matchAll(/['"«‘“(]\s*([a-zà-ÿ]+)\s*['"»’”)]/g)].map((m) => m[1]);
+  const words = text.match(/[a-zà-ÿ]+/g) || [];
+  const { pairs } = extractConjugationPairs(correctAnswer);
+
+  for (const candidate of marked) {
+    const forms = getPresentTense(candidate);
+    if (forms && pairs.some((pair) => isAttemptAt(forms, pair))) return candidate;
+  }
+  for (const candidate of words) {
+    const forms = getPresentTense(candidate);
+    if (forms && pairs.some((pair) => isFormOf(forms, pair.form))) return candidate;
+  }
+  return null;
+}
+
+/**
+ * Check a question's answer key against the engine (used before Stage 2 AI validation).
+ * Covers conjugation writing questions and fill-in-blank questions of the form
+ * "Nous _____ (manger) ...". Returns the problems found (empty = verified),
+ * or null if the engine doesn't apply to the question.
+ */
+export function verifyConjugationKey(
+  questionText: string,
+  correctAnswer: string,
+  blankAnswers?: string[]
+): string[] | null {
+  // Blanks hold the verb alone ("Je _____ (aimer)" → "aime"), so elision isn't checked there
+  const checks: { pronoun: string; answer: string; infinitive: string }[] = [];
+
+  if (blankAnswers) {
+    const segments = questionText.normalize('NFC').split(/_{3,}/);
+    for (let i = 0; i < segments.length - 1 && i < blankAnswers.length; i++) {
+      const pronoun = segments[i].match(/([a-zà-ÿ]+['’]?)\s*$/i)?.[1].toLowerCase();
+      const infinitive = segments[i + 1].match(/^\s*\(\s*([a-zà-ÿ]+)\s*\)/i)?.[1];
+      if (pronoun && toSubjectPronoun(pronoun.replace('’', "'")) && infinitive) {
+        checks.push({ pronoun, answer: blankAnswers[i], infinitive });
+      }
+    }
+  } else {
+    const infinitive = findTargetVerb(questionText, correctAnswer);
+    if (infinitive) checks.push({ pronoun: '', answer: correctAnswer, infinitive });
+  }
+
+  const problems: string[] = [];
+  let applied = false;
+
+  for (const { pronoun, answer, infinitive } of checks) {
+    const forms = getPresentTense(infinitive);
+    if (!forms) continue;
+
+    for (const pair of extractConjugationPairs(`${pronoun} ${answer}`).pairs) {
+      if (!isAttemptAt(forms, pair)) continue; // A different verb in the sentence
+      applied = true;
+
+      const expected = forms[PERSON_INDEX[pair.pronoun]];
+      if (pair.form !== expected) {
+        problems.push(`"${pair.pronoun} ${pair.form}" should be "${withSubjectPronoun(pair.pronoun, expected)}" (${infinitive})`);
+      } else if (pair.elisionError && !blankAnswers) {
+        problems.push(`"${pair.pronoun} ${pair.form}" should be elided: "${withSubjectPronoun(pair.pronoun, expected)}"`);
+      }
+    }
+  }
+
+  return applied ? problems : null;
+}
+
+type ConjugationItem =
+  | { pronoun: SubjectPronoun; expected: string; status: 'correct' | 'accents' | 'elision' }
+  | { pronoun: SubjectPronoun; expected: string; status: 'wrong_person' | 'wrong_form'; given: string; usedFor: string; stemChange?: boolean }
+  | { pronoun: SubjectPronoun; expected: string; status: 'missing' };
+
+function describeItem(item: ConjugationItem): string | null {
+  const person = `« ${PERSON_LABELS[PERSON_INDEX[item.pronoun]]} »`;
+  const expected = `« ${withSubjectPronoun(item.pronoun, item.expected)} »`;
+
+  switch (item.status) {
+    case 'wrong_person':
+      return `Mauvaise terminaison pour ${person} : ${expected} (« ${item.given} » est la forme de « ${item.usedFor} »).`;
+    case 'wrong_form':
+      if (item.stemChange) {
+        const rule = STRESSED_PERSONS.has(PERSON_INDEX[item.pronoun])
+          ? 'le « é » du radical devient « è » devant une terminaison muette'
+          : 'le radical garde « é » devant une terminaison prononcée';
+        return `Changement de radical pour ${person} : ${expected}, pas « ${item.given} » (${rule}).`;
+      }
+      return `Forme incorrecte pour ${person} : ${expected}, pas « ${item.given} ».`;
+    case 'missing':
+      return `Forme manquante pour ${person} : ${expected}.`;
+    case 'elision':
+      return `Élision : ${expected}.`;
+    case 'accents':
+      return `Accents pour ${person} : ${expected}.`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether a form spells the stem vowel of an é…er verb with the wrong accent
+ * (je préfére, nous préfèrons): a stem change mistake, not an accent slip.
+ * Leaving the accent out (je prefere) is an accent slip.
+ */
+function hasWrongStemVowel(infinitive: string, form: string, expected: string): boolean {
+  const verb = infinitive.trim().toLowerCase().normalize('NFC');
+  if (!ACUTE_E_STEM.test(verb)) return false;
+  const vowel = verb.slice(0, -2).search(/é[^é]*$/);
+  const given = form.toLowerCase().normalize('NFC')[vowel];
+  return (given === 'é' || given === 'è') && given !== expected[vowel];
+}
+
+const ITEM_CATEGORIES: Partial<Record<ConjugationItem['status'], ErrorCategory>> = {
+  wrong_person: 'conjugation',
+  wrong_form: 'conjugation',
+  elision: 'elision',
+  accents: 'accent',
+};
+
+const ITEM_SCORES: Record<ConjugationItem['status'], number> = {
+  correct: 100,
+  accents: 98,
+  elision: 95,
+  wrong_person: 0,
+  wrong_form: 0,
+  missing: 0,
+};
+
+/**
+ * Grade a conjugation answer with the engine.
+ *
+ * The verb and the persons asked for come from the question and answer key.
+ * Each person the key conjugates is graded against the engine: a wrong form is
+ * authoritative (with feedback such as "wrong ending for nous"), even inside a
+ * sentence. An all-correct answer is only authoritative when it contains nothing
+ * but the conjugations; the rest of a sentence is left to the other tiers.
+ *
+ * With policy.accents 'ignore', a form that only misses accents is correct; other
+ * policy rules are applied by the caller (see evaluation-policy.ts). The wrong accent
+ * on the stem vowel of an é…er verb (je préfére) is a stem change mistake, not an
+ * accent slip, under any policy.
+ *
+ * Returns null when the engine doesn't apply (unsupported verb, key that
+ * disagrees with the engine, no recognizable attempt at the verb).
+ */
+export function evaluateConjugation(
+  questionText: string,
+  userAnswer: string,
+  correctAnswer: string,
+  policy?: EvaluationPolicy
+): EvaluationResult | null {
+  const infinitive = findTargetVerb(questionText, correctAnswer);
+  const forms = infinitive ? getPresentTense(infinitive) : null;
+  if (!infinitive || !forms) return null;
+
+  const keyPairs = extractConjugationPairs(correctAnswer).pairs.filter((pair) => isFormOf(forms, pair.form));
+  if (keyPairs.length === 0) return null;
+  if (keyPairs.some((pair) => pair.form !== forms[PERSON_INDEX[pair.pronoun]])) {
+    console.warn(`⚠️  Answer key disagrees with the conjugation engine for "${infinitive}": "${correctAnswer}"`);
+    return null;
+  }
+
+  const { pairs: userPairs, hasOtherWords } = extractConjugationPairs(userAnswer);
+  const attempts = userPairs.filter((pair) => isAttemptAt(forms, pair));
+
+  const expectedPersons = [...new Set(keyPairs.map((pair) => PERSON_INDEX[pair.pronoun]))];
+  const items: ConjugationItem[] = [];
+  const corrections: { start: number; end: number; form: string }[] = [];
+
+  for (const person of expectedPersons) {
+    const keyPair = keyPairs.find((pair) => PERSON_INDEX[pair.pronoun] === person)!;
+    const attempt = attempts.find((pair) => PERSON_INDEX[pair.pronoun] === person);
+    const expected = forms[person];
+
+    if (!attempt) {
+      items.push({ pronoun: keyPair.pronoun, expected, status: 'missing' });
+      continue;
+    }
+
+    const { pronoun, form } = attempt;
+    if (form === expected) {
+      items.push({ pronoun, expected, status: attempt.elisionError ? 'elision' : 'correct' });
+    } else if (normalizeText(form) === normalizeText(expected) && hasWrongStemVowel(infinitive, form, expected)) {
+      items.push({ pronoun, expected, status: 'wrong_form', given: form, usedFor: '', stemChange: true });
+      corrections.push({ start: attempt.start, end: attempt.end, form: expected });
+    } else if (normalizeText(form) === normalizeText(expected)) {
+      items.push({ pronoun, expected, status: policy?.accents === 'ignore' ? 'correct' : 'accents' });
+    } else {
+      const usedFor = forms.findIndex((f) => normalizeText(f) === normalizeText(form));
+      items.push(usedFor >= 0
+        ? { pronoun, expected, status: 'wrong_person', given: form, usedFor: PERSON_LABELS[usedFor] }
+        : { pronoun, expected, status: 'wrong_form', given: form, usedFor: '' });
+      corrections.push({ start: attempt.start, end: attempt.end, form: expected });
+    }
+  }
+
+  const wrong = items.filter((item) => item.status === 'wrong_person' || item.status === 'wrong_form');
+  const missing = items.filter((item) => item.status === 'missing');
+
+  // Nothing the engine can vouch for: a sentence built differently, or correct forms with other words around them
+  if (wrong.length === 0 && (missing.length === items.length || hasOtherWords)) return null;
+
+  const isCorrect = wrong.length === 0 && missing.length === 0;
+  const hasCorrectAccents = items.every((item) => item.status !== 'accents');
+  const score = Math.round(items.reduce((sum, item) => sum + ITEM_SCORES[item.status], 0) / items.length);
+  const describe = (list: ConjugationItem[]) => list.map(describeItem).filter((m): m is string => m !== null);
+  const errors = describe([...wrong, ...missing]);
+  const accents = describe(items.filter((item) => item.status === 'accents'));
+  const spelling = describe(items.filter((item) => item.status === 'elision'));
+
+  let feedback: string;
+  if (isCorrect) {
+    if (!hasCorrectAccents) {
+      feedback = 'Correct ! Attention aux accents pour être parfait.';
+    } else if (spelling.length > 0) {
+      feedback = `Correct ! Attention à l'élision. ${spelling[0]}`;
+    } else {
+      feedback = `Parfait ! La conjugaison de « ${infinitive} » est correcte.`;
+    }
+  } else if (errors.length === 1) {
+    feedback = errors[0];
+  } else {
+    feedback = `${items.length - errors.length}/${items.length} formes de « ${infinitive} » correctes. Voir les corrections ci-dessous.`;
+  }
+
+  let correctedAnswer: string | undefined;
+  if (!isCorrect) {
+    correctedAnswer = missing.length > 0
+      ? correctAnswer
+      : corrections
+        .sort((a, b) => b.start - a.start)
+        .reduce((text, c) => text.slice(0, c.start) + c.form + text.slice(c.end), userAnswer.normalize('NFC'));
+  }
+
+  return {
+    isCorrect,
+    score,
+    hasCorrectAccents,
+    feedback,
+    corrections: {
+      ...(errors.length > 0 && { grammar: errors }),
+      ...(accents.length > 0 && { accents }),
+      ...(spelling.length > 0 && { spelling }),
+    },
+    correctedAnswer,
+    errorCategories: [...new Set(items.map((item) => ITEM_CATEGORIES[item.status]).filter((c): c is ErrorCategory => !!c))],
+    _matchInfo: {
+      matchedAgainst: 'primary_answer',
+      matchedSimilarity: score,
+      evaluationReason: `Conjugation engine: ${items.length - errors.length}/${items.length} forms of "${infinitive}" correct`,
+    },
+  };
+}
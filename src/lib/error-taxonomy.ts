@@ -0,0 +1,299 @@
+/**
+ * Error Taxonomy
+ * Deterministic classification of how a typed answer differs from the answer
+ * it was graded against: accents, elision, article gender, adjective agreement,
+ * negation, word order and punctuation spacing.
+ *
+ * Runs on every graded typed answer. The messages fill EvaluationResult.corrections
+ * and the categories are stored with the result (question_results.error_categories)
+ * so the progress page can point out recurring mistakes.
+ */
+
+import { calculateSimilarity, normalizeText } from './writing-questions';
+import type { EvaluationResult } from './answer-evaluation';
+
+export type ErrorCategory =
+  | 'accent'
+  | 'elision'
+  | 'article_gender'
+  | 'adjective_agreement'
+  | 'negation'
+  | 'word_order'
+  | 'punctuation_spacing'
+  | 'conjugation';
+
+/** Student-facing names, e.g. "you keep missing elision" */
+export const ERROR_CATEGORY_LABELS: Record<ErrorCategory, string> = {
+  accent: 'accents',
+  elision: 'elision',
+  article_gender: 'article gender',
+  adjective_agreement: 'adjective agreement',
+  negation: 'negation',
+  word_order: 'word order',
+  punctuation_spacing: 'punctuation spacing',
+  conjugation: 'verb endings',
+};
+
+/** Which corrections list each category's messages go to */
+const CORRECTION_FIELDS: Record<ErrorCategory, keyof EvaluationResult['corrections']> = {
+  accent: 'accents',
+  elision: 'spelling',
+  punctuation_spacing: 'spelling',
+  article_gender: 'grammar',
+  adjective_agreement: 'grammar',
+  negation: 'grammar',
+  word_order: 'grammar',
+  conjugation: 'grammar',
+};
+
+/**
+ * One classified difference between an answer and the expected answer
+ */
+export interface AnswerError {
+  category: ErrorCategory;
+  message: string;
+  /** 1-based word position in the student's answer, when the error is on one word */
+  position?: number;
+}
+
+/** Below this similarity the answers are too different to classify (unless only reordered) */
+const MIN_SIMILARITY = 0.5;
+
+/** Words that elide before a vowel sound (je → j') */
+const ELIDABLE_WORDS: Record<string, string> = {
+  je: "j'", me: "m'", te: "t'", se: "s'", le: "l'", la: "l'", de: "d'", ne: "n'", que: "qu'", ce: "c'",
+};
+
+/** Masculine ↔ feminine determiners */
+const GENDER_PAIRS: Record<string, string> = {
+  le: 'la', la: 'le', un: 'une', une: 'un', ce: 'cette', cet: 'cette', cette: 'ce',
+  mon: 'ma', ma: 'mon', ton: 'ta', ta: 'ton', son: 'sa', sa: 'son',
+  quel: 'quelle', quelle: 'quel',
+};
+
+const DETERMINERS = new Set([...Object.keys(GENDER_PAIRS), 'les', 'des', 'mes', 'tes', 'ses', 'ces', 'aux']);
+
+const SUBJECT_PRONOUNS = new Set(['je', "j'", 'tu', 'il', 'elle', 'on', 'nous', 'vous', 'ils', 'elles']);
+
+const NEGATION_PARTICLES = ['pas', 'plus', 'jamais', 'rien', 'personne'];
+
+/** Masculine → feminine adjective endings, longest first */
+const FEMININE_ENDINGS: [string, string][] = [
+  ['eux', 'euse'], ['if', 'ive'], ['er', 'ere'], ['on', 'onne'], ['el', 'elle'], ['en', 'enne'], ['', 'e'],
+];
+
+function tokenize(text: string): string[] {
+  return (text.normalize('NFC').toLowerCase().match(/[a-zà-ÿœæ]+['’]?|\d+/g) || [])
+    .map((word) => word.replace('’', "'"));
+}
+
+function startsWithVowelSound(word: string): boolean {
+  return /^[aeiouyhàâéèêëîïôûù]/.test(word);
+}
+
+/**
+ * Expand elided words so "j'aime" and "je aime" align word for word.
+ * l' stays as is: it could be le or la.
+ */
+function expandElision(words: string[]): string[] {
+  return words.map((word) => {
+    if (!word.endsWith("'") || word === "l'") return word;
+    return Object.keys(ELIDABLE_WORDS).find((w) => ELIDABLE_WORDS[w] === word) ?? word;
+  });
+}
+
+function sameBag(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) return false;
+  const sorted = (words: string[]) => [...words].sort().join(' ');
+  return sorted(a) === sorted(b);
+}
+
+/** Whether two words differ only by gender/number agreement (petit/petite/petits) */
+function isAgreementVariant(a: string, b: string): boolean {
+  if (a === b) return false;
+  const strip = (word: string) => word.replace(/s$/, '');
+  const [x, y] = [strip(a), strip(b)];
+  if (x === y) return true;
+  return FEMININE_ENDINGS.some(([masc, fem]) =>
+    (x.endsWith(masc) && y.endsWith(fem) && x.slice(0, x.length - masc.length) === y.slice(0, y.length - fem.length)) ||
+    (y.endsWith(masc) && x.endsWith(fem) && y.slice(0, y.length - masc.length) === x.slice(0, x.length - fem.length))
+  );
+}
+
+function checkPunctuationSpacing(userAnswer: string, expectedAnswer: string): AnswerError[] {
+  const errors: AnswerError[] = [];
+
+  if (/\s[,.]/.test(userAnswer)) {
+    errors.push({ category: 'punctuation_spacing', message: 'Pas d\'espace avant une virgule ou un point.' });
+  }
+  for (const mark of ['?', '!', ';', ':']) {
+    const expectedSpaced = new RegExp(`\\s\\${mark}`).test(expectedAnswer);
+    if (expectedSpaced && new RegExp(`[^\\s\\${mark}]\\${mark}`).test(userAnswer)) {
+      errors.push({ category: 'punctuation_spacing', message: `En français, on met une espace avant « ${mark} ».` });
+    }
+  }
+  return errors;
+}
+
+function checkElision(userWords: string[], expectedWords: string[]): AnswerError[] {
+  const errors: AnswerError[] = [];
+
+  for (let i = 0; i < userWords.length - 1; i++) {
+    const word = userWords[i];
+    const next = userWords[i + 1];
+
+    // Missing elision: "je aime" where the expected answer has "j'aime"
+    const elided = ELIDABLE_WORDS[word];
+    if (elided && startsWithVowelSound(next)) {
+      const expectedIndex = expectedWords.findIndex((w, j) => w === elided && normalizeText(expectedWords[j + 1] ?? '') === normalizeText(next));
+      if (expectedIndex >= 0 || !next.startsWith('h')) {
+        errors.push({ category: 'elision', message: `Élision : « ${elided}${next} », pas « ${word} ${next} ».`, position: i + 1 });
+      }
+    }
+
+    // Wrong elision: "j'parle"
+    if (word.endsWith("'") && word !== "aujourd'" && !startsWithVowelSound(next)) {
+      const full = Object.keys(ELIDABLE_WORDS).find((w) => ELIDABLE_WORDS[w] === word);
+      if (full) {
+        errors.push({ category: 'elision', message: `Pas d'élision devant une consonne : « ${full} ${next} ».`, position: i + 1 });
+      }
+    }
+  }
+  return errors;
+}
+
+function checkNegation(userWords: string[], expectedWords: string[]): AnswerError[] {
+  const hasNe = (words: string[]) => words.includes('ne') || words.includes("n'");
+  const particle = NEGATION_PARTICLES.find((p) => expectedWords.includes(p));
+
+  if (!hasNe(expectedWords) || !particle) return [];
+
+  const userHasNe = hasNe(userWords);
+  const userHasParticle = userWords.includes(particle);
+
+  if (!userHasNe && userHasParticle) {
+    return [{ category: 'negation', message: `Négation : il manque « ne » (ne … ${particle}).` }];
+  }
+  if (userHasNe && !userHasParticle) {
+    return [{ category: 'negation', message: `Négation : il manque « ${particle} » (ne … ${particle}).` }];
+  }
+  if (!userHasNe && !userHasParticle) {
+    return [{ category: 'negation', message: `La phrase doit être à la forme négative (ne … ${particle}).` }];
+  }
+  return [];
+}
+
+/**
+ * Classify the differences between a student's answer and the answer it was graded against.
+ * Returns an empty list when the answers match or are too different to compare.
+ */
+export function analyzeAnswerErrors(userAnswer: string, expectedAnswer: string): AnswerError[] {
+  if (!userAnswer.trim() || !expectedAnswer.trim()) return [];
+
+  const userWords = tokenize(userAnswer);
+  const expectedWords = tokenize(expectedAnswer);
+  const userFull = expandElision(userWords);
+  const expectedFull = expandElision(expectedWords);
+  const userBase = userFull.map(normalizeText);
+  const expectedBase = expectedFull.map(normalizeText);
+
+  // Reordering words drags character similarity down, so the same words in another
+  // order are always compared
+  const reordered = sameBag(userBase, expectedBase) && userBase.join(' ') !== expectedBase.join(' ');
+  if (!reordered && calculateSimilarity(userAnswer, expectedAnswer) < MIN_SIMILARITY) return [];
+
+  const errors: AnswerError[] = [
+    ...checkPunctuationSpacing(userAnswer.normalize('NFC'), expectedAnswer.normalize('NFC')),
+    ...checkElision(userWords, expectedWords),
+    ...checkNegation(userWords, expectedWords),
+  ];
+
+  // Accents: same word without accents, different with them
+  userFull.forEach((word, i) => {
+    if (expectedFull.includes(word)) return;
+    const match = expectedFull.find((e) => normalizeText(e) === userBase[i]);
+    if (match) {
+      errors.push({ category: 'accent', message: `Accent : « ${match} », pas « ${word} » (mot ${i + 1}).`, position: i + 1 });
+    }
+  });
+
+  // Article gender: "le maison" where the expected answer has "la maison"
+  userFull.forEach((word, i) => {
+    const counterpart = GENDER_PAIRS[word];
+    const noun = userBase[i + 1];
+    if (!counterpart || !noun) return;
+    const j = expectedBase.findIndex((e, k) => e === noun && k > 0);
+    if (j > 0 && expectedFull[j - 1] === counterpart) {
+      errors.push({
+        category: 'article_gender',
+        message: `Genre : « ${expectedFull[j - 1]} ${expectedFull[j]} », pas « ${word} ${userFull[i + 1]} ».`,
+        position: i + 1,
+      });
+    }
+  });
+
+  // Adjective agreement: word differs from an expected word only by its agreement ending
+  userBase.forEach((word, i) => {
+    if (expectedBase.includes(word) || DETERMINERS.has(word)) return;
+    if (i > 0 && SUBJECT_PRONOUNS.has(userFull[i - 1])) return; // Conjugated verb, not an adjective
+    const match = expectedBase.findIndex((e, k) =>
+      isAgreementVariant(word, e) && !DETERMINERS.has(e) && !(k > 0 && SUBJECT_PRONOUNS.has(expectedFull[k - 1]))
+    );
+    if (match >= 0) {
+      errors.push({
+        category: 'adjective_agreement',
+        message: `Accord : « ${expectedFull[match]} », pas « ${userFull[i]} ».`,
+        position: i + 1,
+      });
+    }
+  });
+
+  // Word order: the same words in a different order
+  if (reordered) {
+    errors.push({ category: 'word_order', message: `Ordre des mots : « ${expectedAnswer.trim()} ».` });
+  }
+
+  return errors;
+}
+
+/**
+ * Fill a graded result's corrections and error categories from the analyzer.
+ * With specificFeedback, the tier's feedback and notes are generic (exact match,
+ * fuzzy logic): its accent and spelling notes are replaced and its feedback gets the
+ * first note appended. Otherwise (conjugation engine, blanks, Semantic API) the
+ * tier's own notes are specific and the analyzer's are added after them.
+ * Categories in ignore (not graded under the evaluation policy) are left out.
+ */
+export function applyErrorAnalysis(
+  result: EvaluationResult,
+  userAnswer: string,
+  expectedAnswer: string | null | undefined,
+  { specificFeedback = false, ignore = [] }: { specificFeedback?: boolean; ignore?: ErrorCategory[] } = {}
+): EvaluationResult {
+  if (!expectedAnswer) return result;
+
+  const errors = analyzeAnswerErrors(userAnswer, expectedAnswer).filter((error) => !ignore.includes(error.category));
+  if (errors.length === 0) return result;
+
+  const corrections: EvaluationResult['corrections'] = { ...result.corrections };
+  const replaced = new Set<keyof EvaluationResult['corrections']>();
+
+  for (const error of errors) {
+    const field = CORRECTION_FIELDS[error.category];
+    if (specificFeedback && field !== 'grammar' && !replaced.has(field)) {
+      corrections[field] = [];
+      replaced.add(field);
+    }
+    const list = corrections[field] ?? [];
+    if (!list.includes(error.message)) corrections[field] = [...list, error.message];
+  }
+
+  const categories = new Set([...(result.errorCategories ?? []), ...errors.map((e) => e.category)]);
+
+  return {
+    ...result,
+    feedback: specificFeedback ? `${result.feedback} ${errors[0].message}` : result.feedback,
+    corrections,
+    errorCategories: [...categories],
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * Evaluation Cache
+ * Stores Semantic API (Tier 4) verdicts so repeated answers to the same question
+ * don't call Claude again — in a class doing the same assignment most typed
+ * answers are duplicates.
+ *
+ * Keyed on question ID + hash of the normalized answer + evaluator version.
+ * Accents are kept in the normalized answer because Claude grades them.
+ * Bumping EVALUATOR_VERSION (model or prompt change) makes old entries unreachable;
+ * entries for a question are deleted by trigger when its answer key changes,
+ * or by an admin via /api/admin/evaluation-cache.
+ */
+
+import { createHash } from 'crypto';
+import { supabaseAdmin, isSupabaseAdminAvailable } from './supabase-admin';
+import { normalizePunctuationSpacing } from './writing-questions';
+import type { EvaluationResult } from './answer-evaluation';
+import type { SecondOpinion } from './second-opinion';
+
+/**
+ * Verdict stored in the cache (metadata is rebuilt per request)
+ */
+export interface CachedEvaluation {
+  evaluation: Omit<EvaluationResult, 'metadata' | '_matchInfo'>;
+  claudeConfidence?: number;
+  /** Cross-provider verdict, for low-confidence entries (see second-opinion.ts) */
+  secondOpinion?: SecondOpinion;
+}
+
+/**
+ * Normalize an answer for cache lookup: case, whitespace and French
+ * punctuation spacing only. Accents are significant.
+ */
+export function normalizeAnswerForCache(answer: string): string {
+  return normalizePunctuationSpacing(
+    answer.normalize('NFC').toLowerCase().trim().replace(/\s+/g, ' ')
+  );
+}
+
+export function hashAnswer(answer: string): string {
+  return createHash('sha256').update(normalizeAnswerForCache(answer)).digest('hex');
+}
+
+/**
+ * Look up a cached verdict. Returns null on miss or if the cache is unavailable.
+ */
+export async function getCachedEvaluation(
+  questionId: string,
+  userAnswer: string,
+  evaluatorVersion: string
+): Promise<CachedEvaluation | null> {
+  if (!isSupabaseAdminAvailable()) return null;
+
+  try {
+    const { data, error } = await supabaseAdmin!
+      .from('evaluation_cache')
+      .select('evaluation, claude_confidence, second_opinion')
+      .eq('question_id', questionId)
+      .eq('answer_hash', hashAnswer(userAnswer))
+      .eq('evaluator_version', evaluatorVersion)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error reading evaluation cache:', error);
+      return null;
+    }
+    if (!data) return null;
+
+    return {
+      evaluation: data.evaluation as CachedEvaluation['evaluation'],
+      claudeConfidence: data.claude_confidence ?? undefined,
+      secondOpinion: data.second_opinion ?? undefined,
+    };
+  } catch (error) {
+    console.error('Failed to read evaluation cache:', error);
+    return null;
+  }
+}
+
+/**
+ * Store a Semantic API verdict. Failures are logged, never thrown.
+ */
+export async function storeEvaluation(
+  questionId: string,
+  userAnswer: string,
+  evaluatorVersion: string,
+  { evaluation, claudeConfidence, secondOpinion }: CachedEvaluation
+): Promise<void> {
+  if (!isSupabaseAdminAvailable()) return;
+
+  try {
+    const { error } = await supabaseAdmin!
+      .from('evaluation_cache')
+      .upsert({
+        question_id: questionId,
+        answer_hash: hashAnswer(userAnswer),
+        evaluator_version: evaluatorVersion,
+        normalized_answer: normalizeAnswerForCache(userAnswer),
+        evaluation,
+        claude_confidence: claudeConfidence ?? null,
+        second_opinion: secondOpinion ?? null,
+      }, { onConflict: 'question_id,answer_hash,evaluator_version', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('Error writing evaluation cache:', error);
+    }
+  } catch (error) {
+    console.error('Failed to write evaluation cache:', error);
+  }
+}
+
+/**
+ * Add a second opinion to an existing entry (cached before the escalation applied to it).
+ * Failures are logged, never thrown.
+ */
+export async function storeSecondOpinion(
+  questionId: string,
+  userAnswer: string,
+  evaluatorVersion: string,
+  secondOpinion: SecondOpinion
+): Promise<void> {
+  if (!isSupabaseAdminAvailable()) return;
+
+  try {
+    const { error } = await supabaseAdmin!
+      .from('evaluation_cache')
+      .update({ second_opinion: secondOpinion })
+      .eq('question_id', questionId)
+      .eq('answer_hash', hashAnswer(userAnswer))
+      .eq('evaluator_version', evaluatorVersion);
+
+    if (error) {
+      console.error('Error writing second opinion to evaluation cache:', error);
+    }
+  } catch (error) {
+    console.error('Failed to write second opinion to evaluation cache:', error);
+  }
+}
+
+/**
+ * Delete all cached verdicts for a question (every evaluator version).
+ * Returns the number of entries removed.
+ */
+export async function invalidateEvaluationCache(questionId: string): Promise<number> {
+  if (!isSupabaseAdminAvailable()) return 0;
+
+  const { data, error } = await supabaseAdmin!
+    .from('evaluation_cache')
+    .delete()
+    .eq('question_id', questionId)
+    .select('question_id');
+
+  if (error) {
+    throw new Error(`Failed to invalidate evaluation cache: ${error.message}`);
+  }
+
+  return (data || []).length;
+}
@@ -0,0 +1,260 @@
+/**
+ * Evaluation Policy
+ * How strictly typed answers are graded on form, beyond meaning and spelling:
+ *
+ *   - accents: 'ignore' (not reported or penalized), 'lenient' (reported, small score
+ *     penalty, still correct) or 'strict' (an accent mistake makes the answer wrong)
+ *   - punctuationSpacing: 'tolerant' (a space before ? ! ; : is optional) or 'strict'
+ *     (spacing must match the answer key)
+ *   - capitalization: 'ignore' or 'strict' (must match the answer key)
+ *   - completeSentence: questions with requiresCompleteSentence reject fragments
+ *
+ * Resolved per answer: difficulty defaults < question override (questions.evaluation_policy)
+ * < class override of the student's class, optionally per difficulty:
+ * {"accents":"lenient","advanced":{"accents":"strict"}} (see class-evaluation-policies.ts).
+ *
+ * The exact, conjugation, fuzzy and semantic tiers compare answers leniently, then
+ * applyEvaluationPolicy turns strict-rule mistakes into a wrong answer the same way
+ * for each of them. The semantic grader is also told the policy, so its score and
+ * feedback follow it.
+ */
+
+import { CORRECTNESS_THRESHOLDS, type DifficultyLevel } from './feature-flags';
+import { levenshteinDistance, normalizePunctuationSpacing } from './writing-questions';
+import type { EvaluationResult } from './answer-evaluation';
+import type { ErrorCategory } from './error-taxonomy';
+
+export interface EvaluationPolicy {
+  accents: 'ignore' | 'lenient' | 'strict';
+  punctuationSpacing: 'tolerant' | 'strict';
+  capitalization: 'ignore' | 'strict';
+  completeSentence: boolean;
+}
+
+/** Partial policy set on a question or by the class */
+export type EvaluationPolicyOverride = Partial<EvaluationPolicy>;
+
+/** Class override: applies to every difficulty, with optional per-difficulty overrides */
+export type ClassEvaluationPolicy = EvaluationPolicyOverride & Partial<Record<DifficultyLevel, EvaluationPolicyOverride>>;
+
+/** Strict rule an answer broke (recorded in the evaluation trace) */
+export type PolicyViolation = 'accents' | 'punctuation_spacing' | 'capitalization' | 'incomplete_sentence';
+
+/**
+ * Defaults by difficulty (the grading behavior before policies existed)
+ */
+export const DEFAULT_EVALUATION_POLICIES: Record<DifficultyLevel, EvaluationPolicy> = {
+  beginner: { accents: 'lenient', punctuationSpacing: 'tolerant', capitalization: 'ignore', completeSentence: false },
+  intermediate: { accents: 'lenient', punctuationSpacing: 'tolerant', capitalization: 'ignore', completeSentence: false },
+  advanced: { accents: 'lenient', punctuationSpacing: 'tolerant', capitalization: 'ignore', completeSentence: false },
+};
+
+const ALLOWED_VALUES: { [K in keyof EvaluationPolicy]: readonly EvaluationPolicy[K][] } = {
+  accents: ['ignore', 'lenient', 'strict'],
+  punctuationSpacing: ['tolerant', 'strict'],
+  capitalization: ['ignore', 'strict'],
+  completeSentence: [true, false],
+};
+
+const POLICY_NOTES: Record<PolicyViolation, string> = {
+  accents: 'Les accents comptent pour cette question.',
+  punctuation_spacing: 'L\'espacement avant ? ! ; : doit suivre la réponse attendue.',
+  capitalization: 'Les majuscules comptent pour cette question.',
+  incomplete_sentence: 'Cette question demande une phrase complète.',
+};
+
+/**
+ * Keep the valid fields of a policy override (from the database or an admin request)
+ */
+export function parseEvaluationPolicyOverride(raw: unknown): EvaluationPolicyOverride {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const input = raw as Record<string, unknown>;
+  const override: Record<string, unknown> = {};
+  for (const key of Object.keys(ALLOWED_VALUES) as (keyof EvaluationPolicy)[]) {
+    if ((ALLOWED_VALUES[key] as readonly unknown[]).includes(input[key])) override[key] = input[key];
+  }
+  return override as EvaluationPolicyOverride;
+}
+
+/**
+ * Keep the valid fields of a class override and of its per-difficulty overrides
+ */
+export function parseClassEvaluationPolicy(raw: unknown): ClassEvaluationPolicy {
+  const policy: ClassEvaluationPolicy = parseEvaluationPolicyOverride(raw);
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return policy;
+  for (const difficulty of Object.keys(DEFAULT_EVALUATION_POLICIES) as DifficultyLevel[]) {
+    const levelPolicy = (raw as Record<string, unknown>)[difficulty];
+    if (levelPolicy) policy[difficulty] = parseEvaluationPolicyOverride(levelPolicy);
+  }
+  return policy;
+}
+
+/**
+ * Resolve the policy for an answer: difficulty defaults < question < class
+ */
+export function resolveEvaluationPolicy(
+  difficulty: string,
+  questionPolicy?: EvaluationPolicyOverride | null,
+  classPolicy: ClassEvaluationPolicy = {}
+): EvaluationPolicy {
+  const level = (difficulty in DEFAULT_EVALUATION_POLICIES ? difficulty : 'intermediate') as DifficultyLevel;
+  const { beginner, intermediate, advanced, ...classWide } = classPolicy;
+  const classForLevel = { beginner, intermediate, advanced }[level];
+
+  return {
+    ...DEFAULT_EVALUATION_POLICIES[level],
+    ...parseEvaluationPolicyOverride(questionPolicy),
+    ...classWide,
+    ...classForLevel,
+  };
+}
+
+/**
+ * Short stable description of a policy (part of the evaluation cache key, since the
+ * semantic grader is prompted with it)
+ */
+export function policyFingerprint(policy: EvaluationPolicy, requiresCompleteSentence = false): string {
+  return [
+    `accents=${policy.accents}`,
+    `spacing=${policy.punctuationSpacing}`,
+    `case=${policy.capitalization}`,
+    `sentence=${policy.completeSentence && requiresCompleteSentence}`,
+  ].join(',');
+}
+
+type FormAspect = 'accents' | 'capitalization' | 'punctuation_spacing';
+
+/**
+ * Answer in comparable form: whitespace collapsed, and accents, case and French
+ * punctuation spacing normalized away except for the aspect being checked
+ */
+function comparableForm(text: string, keep: FormAspect | null): string {
+  let form = text.normalize('NFC').trim().replace(/\s+/g, ' ');
+  if (keep !== 'punctuation_spacing') form = normalizePunctuationSpacing(form);
+  if (keep !== 'accents') form = form.normalize('NFD').replace(/[\u0300-\u036f]/g, '').normalize('NFC');
+  if (keep !== 'capitalization') form = form.toLowerCase();
+  return form;
+}
+
+/**
+ * Whether the answer differs from the reference in one aspect of form: keeping that
+ * aspect makes the two further apart than ignoring it. Works on answers with typos.
+ */
+export function differsInForm(userAnswer: string, reference: string, aspect: FormAspect): boolean {
+  const ignoringAll = levenshteinDistance(comparableForm(userAnswer, null), comparableForm(reference, null));
+  const keepingAspect = levenshteinDistance(comparableForm(userAnswer, aspect), comparableForm(reference, aspect));
+  return keepingAspect > ignoringAll;
+}
+
+/**
+ * Fragment check for complete-sentence questions: a single word can't be a sentence.
+ * Anything longer is left to the answer key comparison and the semantic grader,
+ * which is told the question requires a complete sentence.
+ */
+export function isSentenceFragment(answer: string): boolean {
+  const words = answer.replace(/[.!?;:,«»"]/g, ' ').trim().split(/\s+/).filter(Boolean);
+  return words.length < 2;
+}
+
+/**
+ * Options for applying the policy to a verdict
+ */
+export interface PolicyCheckOptions {
+  userAnswer: string;
+  /** Answer the student's answer was graded against (matched key, variation or correction) */
+  reference?: string;
+  /** Accent mistakes as judged by the tier (default: compared with the reference) */
+  accentMistakes?: boolean;
+  requiresCompleteSentence?: boolean;
+}
+
+/**
+ * Apply the policy to a tier's verdict:
+ *   - strict rules the answer breaks make it wrong (feedback explains which), and are
+ *     recorded in the evaluation trace when there is one
+ *   - ignored accents aren't reported (hasCorrectAccents true, no accent corrections)
+ */
+export function applyEvaluationPolicy(
+  result: EvaluationResult,
+  policy: EvaluationPolicy,
+  { userAnswer, reference, accentMistakes, requiresCompleteSentence = false }: PolicyCheckOptions
+): EvaluationResult {
+  const hasAccentMistakes = accentMistakes ?? (reference !== undefined && differsInForm(userAnswer, reference, 'accents'));
+
+  if (policy.accents === 'ignore') {
+    result.hasCorrectAccents = true;
+    if (result.corrections.accents) {
+      const { accents, ...corrections } = result.corrections;
+      result.corrections = corrections;
+    }
+  }
+
+  const violations: PolicyViolation[] = [];
+  if (policy.accents === 'strict' && hasAccentMistakes) violations.push('accents');
+  if (reference !== undefined) {
+    if (policy.punctuationSpacing === 'strict' && differsInForm(userAnswer, reference, 'punctuation_spacing')) {
+      violations.push('punctuation_spacing');
+    }
+    if (policy.capitalization === 'strict' && differsInForm(userAnswer, reference, 'capitalization')) {
+      violations.push('capitalization');
+    }
+  }
+  if (policy.completeSentence && requiresCompleteSentence && isSentenceFragment(userAnswer)) {
+    violations.push('incomplete_sentence');
+  }
+
+  if (violations.length === 0) return result;
+
+  const notes = violations.map((violation) => POLICY_NOTES[violation]).join(' ');
+  if (result.isCorrect) {
+    result.isCorrect = false;
+    result.score = Math.min(result.score, CORRECTNESS_THRESHOLDS.CLAUDE_API_PASS - 1);
+    result.feedback = `Pas tout à fait. ${notes}`;
+    if (reference !== undefined) result.correctedAnswer = reference;
+  } else {
+    result.feedback = `${result.feedback} ${notes}`;
+  }
+  if (violations.includes('accents') && !result.corrections.accents && reference !== undefined) {
+    result.corrections = { ...result.corrections, accents: [`La réponse correcte est: "${reference}"`] };
+  }
+
+  if (result.metadata) {
+    result.metadata.policyViolations = violations;
+    result.metadata.evaluationReason += `; evaluation policy: ${violations.join(', ')} (strict)`;
+  }
+  return result;
+}
+
+/**
+ * Error taxonomy categories the policy doesn't grade (left out of corrections and stats)
+ */
+export function ignoredErrorCategories(policy: EvaluationPolicy): ErrorCategory[] {
+  return policy.accents === 'ignore' ? ['accent'] : [];
+}
+
+/**
+ * Grading instructions for the semantic grader's prompt
+ */
+export function describePolicyForPrompt(policy: EvaluationPolicy, requiresCompleteSentence = false): string[] {
+  const rules: string[] = [];
+
+  if (policy.accents === 'ignore') {
+    rules.push('Accents are not graded for this question: do not lower the score for missing or wrong accents, set "hasCorrectAccents" to true and leave the accents list empty.');
+  } else if (policy.accents === 'strict') {
+    rules.push(`Accents are graded strictly: any missing or wrong accent makes the answer incorrect (score below ${CORRECTNESS_THRESHOLDS.CLAUDE_API_PASS}); list each one under accents.`);
+  }
+
+  if (policy.punctuationSpacing === 'strict') {
+    rules.push('Punctuation spacing is graded strictly: the space (or no space) before ?, !, ; and : must match the expected answer; otherwise the answer is incorrect.');
+  }
+
+  if (policy.capitalization === 'strict') {
+    rules.push('Capitalization is graded strictly: a sentence must start with a capital letter and proper nouns must be capitalized; otherwise the answer is incorrect.');
+  }
+
+  if (policy.completeSentence && requiresCompleteSentence) {
+    rules.push(`This question requires a complete sentence (at least a subject and a conjugated verb): a fragment is incorrect (score below ${CORRECTNESS_THRESHOLDS.CLAUDE_API_PASS}).`);
+  }
+
+  return rules;
+}
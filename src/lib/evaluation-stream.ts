@@ -0,0 +1,177 @@
+/**
+ * Evaluation Streaming
+ * Streams a typed-answer evaluation to the browser as newline-delimited JSON,
+ * so students see the Semantic API's feedback as it's written, instead of a
+ * spinner until the end.
+ *
+ * Events, in order (feedback events only when the Semantic API is called):
+ *   {"type":"feedback","delta":"Good use of "}      (repeated)
+ *   {"type":"result","result":{...}}                 (same body as the non-streaming response)
+ *   {"type":"error","error":"..."}                   (instead of result, on failure)
+ *
+ * Only the feedback is streamed: the verdict, score and corrections come with the
+ * result, once validation, rubric scoring, the evaluation policy, the second opinion
+ * and the error taxonomy have run (any of them can change them, and the answer may
+ * still be held for the teacher).
+ * Callers opt in with an Accept: application/x-ndjson header.
+ */
+
+export const EVALUATION_STREAM_CONTENT_TYPE = 'application/x-ndjson';
+
+export type EvaluationProgress = { type: 'feedback'; delta: string };
+
+export type EvaluationProgressHandler = (progress: EvaluationProgress) => void;
+
+export type EvaluationStreamEvent<T> =
+  | EvaluationProgress
+  | { type: 'result'; result: T }
+  | { type: 'error'; error: string };
+
+/**
+ * Evaluation shown while the stream is in progress (feedback arriving, no verdict yet)
+ */
+export interface PartialEvaluation {
+  feedback: string;
+}
+
+// ─── Server ──────────────────────────────────────────────────────────────────
+
+/**
+ * Whether the request asked for a streamed evaluation
+ */
+export function wantsEvaluationStream(request: Request): boolean {
+  return (request.headers.get('accept') || '').includes(EVALUATION_STREAM_CONTENT_TYPE);
+}
+
+/**
+ * Streaming response: runs the evaluation, forwarding its progress, then sends the result.
+ * Errors thrown by run become an error event (the status is already 200 by then).
+ */
+export function createEvaluationStream<T>(
+  run: (onProgress: EvaluationProgressHandler) => Promise<T>,
+  errorMessage = 'Failed to evaluate answer'
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: EvaluationStreamEvent<T>) => {
+        controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      };
+
+      try {
+        const result = await run(send);
+        send({ type: 'result', result });
+      } catch (error) {
+        console.error('❌ Error in streamed evaluation:', error);
+        send({ type: 'error', error: errorMessage });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': EVALUATION_STREAM_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no', // Don't let a proxy buffer the stream
+    },
+  });
+}
+
+/**
+ * Read a JSON string value that may still be incomplete.
+ * Stops before a trailing partial escape sequence.
+ */
+function readPartialString(text: string, key: string): string | null {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(text);
+  if (!match) return null;
+
+  let raw = '';
+  for (let i = match.index + match[0].length; i < text.length;) {
+    const char = text[i];
+    if (char === '"') break;
+    if (char === '\\') {
+      const length = text[i + 1] === 'u' ? 6 : 2;
+      if (i + length > text.length) break;
+      raw += text.slice(i, i + length);
+      i += length;
+      continue;
+    }
+    raw += char === '\n' ? '\\n' : char;
+    i++;
+  }
+
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Incremental reader for the Semantic API's JSON answer (see the evaluation prompt):
+ * reports the feedback as it grows. Call with the full text received so far.
+ */
+export function createPartialEvaluationParser(onProgress: EvaluationProgressHandler): (text: string) => void {
+  let feedbackSent = 0;
+
+  return (text: string) => {
+    const feedback = readPartialString(text, 'feedback');
+    if (feedback && feedback.length > feedbackSent) {
+      onProgress({ type: 'feedback', delta: feedback.slice(feedbackSent) });
+      feedbackSent = feedback.length;
+    }
+  };
+}
+
+// ─── Browser ─────────────────────────────────────────────────────────────────
+
+/**
+ * Read a streamed evaluation, passing progress events to onProgress.
+ * Returns the final result, or null if the stream reported an error or ended early.
+ */
+export async function readEvaluationStream<T>(
+  response: Response,
+  onProgress: EvaluationProgressHandler
+): Promise<T | null> {
+  if (!response.body) return null;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line) continue;
+
+      const event = JSON.parse(line) as EvaluationStreamEvent<T>;
+      if (event.type === 'result') return event.result;
+      if (event.type === 'error') {
+        console.error('Streamed evaluation failed:', event.error);
+        return null;
+      }
+      onProgress(event);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Fold a progress event into the evaluation shown while streaming
+ */
+export function applyEvaluationProgress(
+  partial: PartialEvaluation | null,
+  progress: EvaluationProgress
+): PartialEvaluation {
+  return { feedback: (partial?.feedback ?? '') + progress.delta };
+}
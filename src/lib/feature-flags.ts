@@ -24,6 +24,9 @@ export const FEATURES = {
 
   // Leitner adaptive question selection (spaced repetition)
   LEITNER_MODE: process.env.NEXT_PUBLIC_ENABLE_LEITNER === 'true',
+
+  // Default spaced repetition scheduler: 'leitner' or 'sm2' (students can be overridden individually)
+  SCHEDULER: process.env.NEXT_PUBLIC_SCHEDULER || 'leitner',
 } as const;
 
 /**
@@ -52,8 +55,23 @@ export const CORRECTNESS_THRESHOLDS = {
   CLAUDE_API_PASS: 70,
 } as const;
 
+/**
+ * Second opinion for low-confidence Semantic API grades (see second-opinion.ts)
+ * Verdicts with a self-reported confidence below CONFIDENCE_THRESHOLD are re-graded
+ * by MODEL, which must be from a different provider than the Tier 4 model.
+ * Server-only; 0 (the default) disables the escalation.
+ */
+export const SECOND_OPINION = {
+  CONFIDENCE_THRESHOLD: Number(process.env.SECOND_OPINION_CONFIDENCE_THRESHOLD) || 0,
+  MODEL: process.env.SECOND_OPINION_MODEL || 'mistral-large-latest',
+} as const;
+
 export type DifficultyLevel = keyof typeof FUZZY_LOGIC_THRESHOLDS;
 
+export function isDifficultyLevel(value: unknown): value is DifficultyLevel {
+  return typeof value === 'string' && (Object.keys(FUZZY_LOGIC_THRESHOLDS) as string[]).includes(value);
+}
+
 /**
  * Get the fuzzy logic threshold for a given difficulty level
  */
@@ -61,6 +79,29 @@ export function getFuzzyLogicThreshold(difficulty: string): number {
   return FUZZY_LOGIC_THRESHOLDS[difficulty as DifficultyLevel] ?? FUZZY_LOGIC_THRESHOLDS.intermediate;
 }
 
+/**
+ * Thresholds used by fuzzy evaluation for one difficulty level (percentages)
+ */
+export interface FuzzyThresholds {
+  /** Minimum similarity to grade with fuzzy logic (below: Semantic API) */
+  fuzzyLogic: number;
+  /** Similarity counted correct at every difficulty */
+  minorTypo: number;
+  /** Similarity counted correct for beginners */
+  beginnerPass: number;
+}
+
+/**
+ * Get the shipped fuzzy evaluation thresholds for a given difficulty level
+ */
+export function getFuzzyThresholds(difficulty: string): FuzzyThresholds {
+  return {
+    fuzzyLogic: getFuzzyLogicThreshold(difficulty),
+    minorTypo: CORRECTNESS_THRESHOLDS.MINOR_TYPO,
+    beginnerPass: CORRECTNESS_THRESHOLDS.BEGINNER_PASS,
+  };
+}
+
 // Log feature status in development
 if (process.env.NODE_ENV === 'development') {
   console.log('🎛️  Feature Flags:', FEATURES);
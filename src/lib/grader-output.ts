@@ -0,0 +1,160 @@
+/**
+ * Grader Output
+ * Schema and runtime validation for semantic grader verdicts (Tier 4 and the
+ * second opinion). Claude answers through a forced tool call whose input must match
+ * EVALUATION_OUTPUT_SCHEMA; the second-opinion model answers in JSON mode. Either way
+ * the model output is untrusted, so every field is checked before it becomes a grade:
+ *
+ *   - Rejected (null): not an object, or isCorrect / score / hasCorrectAccents / feedback
+ *     missing or of the wrong type, or a non-finite score
+ *   - Clamped: score and confidenceScore to 0-100, text fields and lists to sane lengths
+ *   - Made consistent: isCorrect follows the score (>= CLAUDE_API_PASS), as the prompt defines it
+ *   - Dropped: unknown fields, unknown correction kinds and non-string list items
+ *
+ * For rubric-scored writing types (see rubrics.ts) the verdict also carries one level
+ * per criterion; when those are valid, the score is their weighted total.
+ */
+
+import { CORRECTNESS_THRESHOLDS } from './feature-flags';
+import { rubricScoresSchema, validateRubricScores, type Rubric, type RubricBreakdown } from './rubrics';
+
+/**
+ * Grader verdict, as requested by the evaluation prompt (includes confidence score)
+ */
+export interface ClaudeEvaluationResponse {
+  isCorrect: boolean;
+  score: number;
+  hasCorrectAccents: boolean;
+  feedback: string;
+  corrections: {
+    grammar?: string[];
+    spelling?: string[];
+    accents?: string[];
+    suggestions?: string[];
+  };
+  correctedAnswer?: string;
+  confidenceScore?: number; // Grader's self-reported confidence
+  rubric?: RubricBreakdown; // Per-criterion levels (rubric-scored writing types)
+}
+
+/** Tool Claude must call to submit its verdict */
+export const EVALUATION_TOOL_NAME = 'submit_evaluation';
+
+const CORRECTION_KINDS = ['grammar', 'spelling', 'accents', 'suggestions'] as const;
+
+const MAX_FEEDBACK_LENGTH = 1000;
+const MAX_CORRECTIONS_PER_KIND = 10;
+const MAX_CORRECTION_LENGTH = 300;
+const MAX_CORRECTED_ANSWER_LENGTH = 1000;
+
+const correctionList = {
+  type: 'array',
+  items: { type: 'string', maxLength: MAX_CORRECTION_LENGTH },
+  maxItems: MAX_CORRECTIONS_PER_KIND,
+} as const;
+
+/**
+ * JSON schema of the verdict (input schema of the evaluation tool)
+ */
+export const EVALUATION_OUTPUT_SCHEMA = {
+  type: 'object',
+  properties: {
+    isCorrect: { type: 'boolean', description: `true if score >= ${CORRECTNESS_THRESHOLDS.CLAUDE_API_PASS}` },
+    score: { type: 'integer', minimum: 0, maximum: 100 },
+    hasCorrectAccents: { type: 'boolean' },
+    feedback: { type: 'string', maxLength: MAX_FEEDBACK_LENGTH, description: 'Brief, encouraging feedback in English (2-3 sentences)' },
+    corrections: {
+      type: 'object',
+      properties: Object.fromEntries(CORRECTION_KINDS.map((kind) => [kind, correctionList])),
+      additionalProperties: false,
+    },
+    correctedAnswer: {
+      type: ['string', 'null'],
+      maxLength: MAX_CORRECTED_ANSWER_LENGTH,
+      description: 'The fully corrected version of their answer, or null if already perfect',
+    },
+    confidenceScore: { type: 'integer', minimum: 0, maximum: 100, description: 'Your confidence in this evaluation' },
+  },
+  required: ['isCorrect', 'score', 'hasCorrectAccents', 'feedback', 'corrections', 'confidenceScore'],
+  additionalProperties: false,
+} as const;
+
+/**
+ * Verdict schema for a question, with the rubric's per-criterion scores when it has one
+ */
+export function evaluationOutputSchema(rubric: Rubric | null) {
+  if (!rubric) return EVALUATION_OUTPUT_SCHEMA;
+  return {
+    ...EVALUATION_OUTPUT_SCHEMA,
+    properties: { ...EVALUATION_OUTPUT_SCHEMA.properties, rubricScores: rubricScoresSchema(rubric) },
+    required: [...EVALUATION_OUTPUT_SCHEMA.required, 'rubricScores'],
+  };
+}
+
+function clampScore(value: number): number {
+  return Math.max(0, Math.min(100, Math.round(value)));
+}
+
+function toStringList(value: unknown): string[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const items = value
+    .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+    .slice(0, MAX_CORRECTIONS_PER_KIND)
+    .map((item) => item.slice(0, MAX_CORRECTION_LENGTH));
+  return items.length > 0 ? items : undefined;
+}
+
+/**
+ * Validate a grader verdict (see rules above)
+ * Returns null, with the reason logged, if it can't be used as a grade.
+ * Unusable rubric scores only drop the breakdown (the holistic score is kept).
+ */
+export function validateGraderResponse(raw: unknown, rubric: Rubric | null = null): ClaudeEvaluationResponse | null {
+  const reject = (reason: string) => {
+    console.error(`❌ Grader verdict rejected: ${reason}`);
+    return null;
+  };
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return reject('not an object');
+  const input = raw as Record<string, unknown>;
+
+  if (typeof input.isCorrect !== 'boolean') return reject('isCorrect is not a boolean');
+  if (typeof input.score !== 'number' || !Number.isFinite(input.score)) return reject('score is not a number');
+  if (typeof input.hasCorrectAccents !== 'boolean') return reject('hasCorrectAccents is not a boolean');
+  if (typeof input.feedback !== 'string') return reject('feedback is not a string');
+
+  const breakdown = rubric ? validateRubricScores(input.rubricScores, rubric) : null;
+  const score = breakdown ? breakdown.score : clampScore(input.score);
+  const isCorrect = score >= CORRECTNESS_THRESHOLDS.CLAUDE_API_PASS;
+  if (isCorrect !== input.isCorrect) {
+    console.warn(`⚠️  Grader verdict inconsistent (isCorrect=${input.isCorrect}, score=${score}); using the score`);
+  }
+
+  const corrections: ClaudeEvaluationResponse['corrections'] = {};
+  if (input.corrections && typeof input.corrections === 'object') {
+    const rawCorrections = input.corrections as Record<string, unknown>;
+    for (const kind of CORRECTION_KINDS) {
+      const items = toStringList(rawCorrections[kind]);
+      if (items) corrections[kind] = items;
+    }
+  }
+
+  const correctedAnswer = typeof input.correctedAnswer === 'string' && input.correctedAnswer.trim()
+    ? input.correctedAnswer.slice(0, MAX_CORRECTED_ANSWER_LENGTH)
+    : undefined;
+
+  const confidenceScore = typeof input.confidenceScore === 'number' && Number.isFinite(input.confidenceScore)
+    ? clampScore(input.confidenceScore)
+    : undefined;
+
+  return {
+    isCorrect,
+    score,
+    hasCorrectAccents: input.hasCorrectAccents,
+    feedback: input.feedback.slice(0, MAX_FEEDBACK_LENGTH),
+    corrections,
+    correctedAnswer,
+    confidenceScore,
+    ...(breakdown && { rubric: breakdown }),
+  };
+}
@@ -8,8 +8,16 @@
  *
  * Box weights control selection probability during quiz generation:
  * higher weight = more likely to appear in a quiz.
+ *
+ * Each box also maps to a review interval. After an answer the question is
+ * scheduled for next_review_at = now + interval; questions that are not yet
+ * due are held back during selection, overdue ones are boosted.
+ *
+ * Exposed to the rest of the app as `leitnerScheduler` (see scheduler.ts).
  */
 
+import type { CardState, ReviewInput, Scheduler } from './scheduler';
+
 /** How many consecutive correct answers needed to promote from each box */
 export const BOX_PROMOTION_THRESHOLDS: Record<number, number> = {
   1: 1, // Box 1 → 2: 1 correct
@@ -27,6 +35,20 @@ export const BOX_WEIGHTS: Record<number, number> = {
   5: 1,
 };
 
+/** Review interval in days by box (box 1 is due again immediately) */
+export const BOX_REVIEW_INTERVALS_DAYS: Record<number, number> = {
+  1: 0,
+  2: 1,
+  3: 3,
+  4: 7,
+  5: 14,
+};
+
+/** Cap on the overdue boost multiplier (weight grows up to (1 + cap)x) */
+export const MAX_OVERDUE_BOOST = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
 /** Weight for questions the student has never seen */
 export const UNSEEN_QUESTION_WEIGHT = 3;
 
@@ -34,36 +56,109 @@ export const UNSEEN_QUESTION_WEIGHT = 3;
 export const MAX_BOX = 5;
 
 /**
- * Calculate the new box and consecutive_correct after an answer
+ * Leitner state for a single question, as used during selection
+ */
+export interface LeitnerEntry {
+  box: number;
+  /** When the question is next due (null = legacy row, treated as due) */
+  nextReviewAt: Date | null;
+}
+
+/**
+ * Get the review interval for a box in days
+ */
+export function getReviewIntervalDays(box: number): number {
+  return BOX_REVIEW_INTERVALS_DAYS[box] ?? BOX_REVIEW_INTERVALS_DAYS[1];
+}
+
+/**
+ * Calculate when a question in the given box is next due
+ */
+export function getNextReviewAt(box: number, from: Date = new Date()): Date {
+  return new Date(from.getTime() + getReviewIntervalDays(box) * DAY_MS);
+}
+
+/**
+ * Calculate the new box, consecutive_correct and next due time after an answer
  */
 export function calculateNewBox(
   currentBox: number,
   consecutiveCorrect: number,
-  isCorrect: boolean
-): { box: number; consecutiveCorrect: number } {
+  isCorrect: boolean,
+  now: Date = new Date()
+): { box: number; consecutiveCorrect: number; nextReviewAt: Date } {
+  const withDueDate = (box: number, consecutive: number) => ({
+    box,
+    consecutiveCorrect: consecutive,
+    nextReviewAt: getNextReviewAt(box, now),
+  });
+
   if (!isCorrect) {
-    return { box: 1, consecutiveCorrect: 0 };
+    return withDueDate(1, 0);
   }
 
   const newConsecutive = consecutiveCorrect + 1;
   const threshold = BOX_PROMOTION_THRESHOLDS[currentBox];
 
   if (!threshold || currentBox >= MAX_BOX) {
-    return { box: currentBox, consecutiveCorrect: newConsecutive };
+    return withDueDate(currentBox, newConsecutive);
   }
 
   if (newConsecutive >= threshold) {
-    return { box: currentBox + 1, consecutiveCorrect: 0 };
+    return withDueDate(currentBox + 1, 0);
   }
 
-  return { box: currentBox, consecutiveCorrect: newConsecutive };
+  return withDueDate(currentBox, newConsecutive);
 }
 
 /**
  * Get the selection weight for a question based on its Leitner box.
  * Returns UNSEEN_QUESTION_WEIGHT for questions with no Leitner state.
+ *
+ * Overdue questions are boosted in proportion to how far past their
+ * interval they are, capped at MAX_OVERDUE_BOOST.
  */
-export function getQuestionWeight(box: number | null): number {
-  if (box === null) return UNSEEN_QUESTION_WEIGHT;
-  return BOX_WEIGHTS[box] ?? UNSEEN_QUESTION_WEIGHT;
+export function getQuestionWeight(entry: LeitnerEntry | null, now: Date = new Date()): number {
+  if (entry === null) return UNSEEN_QUESTION_WEIGHT;
+
+  const baseWeight = BOX_WEIGHTS[entry.box] ?? UNSEEN_QUESTION_WEIGHT;
+  if (!entry.nextReviewAt) return baseWeight;
+
+  const overdueDays = (now.getTime() - entry.nextReviewAt.getTime()) / DAY_MS;
+  if (overdueDays <= 0) return baseWeight;
+
+  // Box 1 has a zero interval; measure its lateness against one day
+  const intervalDays = Math.max(getReviewIntervalDays(entry.box), 1);
+  return baseWeight * (1 + Math.min(overdueDays / intervalDays, MAX_OVERDUE_BOOST));
 }
+
+/**
+ * Leitner box scheduler
+ */
+export const leitnerScheduler: Scheduler = {
+  id: 'leitner',
+  label: 'Leitner boxes',
+
+  review(state: CardState | null, { isCorrect }: ReviewInput, now: Date = new Date()): CardState {
+    const { box, consecutiveCorrect, nextReviewAt } = calculateNewBox(
+      state?.box ?? 1,
+      state?.consecutiveCorrect ?? 0,
+      isCorrect,
+      now
+    );
+
+    return {
+      scheduler: 'leitner',
+      box,
+      consecutiveCorrect,
+      stability: null,
+      difficulty: null,
+      lastReviewed: now,
+      nextReviewAt,
+    };
+  },
+
+  getWeight(state: CardState | null, now: Date = new Date()): number {
+    return getQuestionWeight(state, now);
+  },
+};
@@ -0,0 +1,80 @@
+/**
+ * Model Router
+ * Sends a prompt to the right provider's API based on the model ID, so callers
+ * can switch models (and providers) with a config change.
+ *
+ * Provider detection matches scripts/lib/model-router.ts: Mistral models are
+ * detected by prefix, everything else is Anthropic.
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import { Mistral } from '@mistralai/mistralai';
+
+export type Provider = 'anthropic' | 'mistral';
+
+export function detectProvider(modelId: string): Provider {
+  if (modelId.startsWith('mistral-')) return 'mistral';
+  return 'anthropic';
+}
+
+const API_KEYS: Record<Provider, string | undefined> = {
+  anthropic: process.env.ANTHROPIC_API_KEY,
+  mistral: process.env.MISTRAL_API_KEY,
+};
+
+/**
+ * Whether the API key for a model's provider is configured
+ */
+export function isProviderConfigured(modelId: string): boolean {
+  return !!API_KEYS[detectProvider(modelId)];
+}
+
+let anthropicClient: Anthropic | null = null;
+let mistralClient: Mistral | null = null;
+
+export interface CompletionOptions {
+  maxTokens?: number;
+  temperature?: number;
+  /** Ask for a JSON object response (Mistral JSON mode; Anthropic relies on the prompt) */
+  json?: boolean;
+}
+
+/**
+ * Single-turn completion. Returns the response text; throws on API errors.
+ */
+export async function complete(
+  modelId: string,
+  prompt: string,
+  { maxTokens = 1024, temperature = 0.3, json = false }: CompletionOptions = {}
+): Promise<string> {
+  if (detectProvider(modelId) === 'mistral') {
+    mistralClient ??= new Mistral({ apiKey: API_KEYS.mistral });
+    const response = await mistralClient.chat.complete({
+      model: modelId,
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens,
+      temperature,
+      ...(json ? { responseFormat: { type: 'json_object' as const } } : {}),
+    });
+
+    const content = response.choices?.[0]?.message?.content;
+    if (!content || typeof content !== 'string') {
+      throw new Error('Empty response from Mistral');
+    }
+    return content;
+  }
+
+  anthropicClient ??= new Anthropic({ apiKey: API_KEYS.anthropic });
+  const response = await anthropicClient.messages.create({
+    model: modelId,
+    max_tokens: maxTokens,
+    temperature,
+    messages: [{ role: 'user', content: prompt }],
+  });
+
+  const textContent = response.content[0];
+  if (textContent.type !== 'text') {
+    throw new Error('Unexpected response type from Anthropic');
+  }
+  return textContent.text;
+}
@@ -0,0 +1,267 @@
+/**
+ * Server-side Progress Writes
+ * Records quiz results and spaced repetition state with the secret key.
+ * Only called from the quiz session routes, after answers were graded server-side,
+ * so scores and correctness never come from the browser.
+ */
+
+import { supabaseAdmin, isSupabaseAdminAvailable } from './supabase-admin';
+import { loadQuestionsByIds } from './question-loader';
+import type { EvaluationResult, EvaluationTrace } from './answer-evaluation';
+import type { ErrorCategory } from './error-taxonomy';
+import type { RubricBreakdown } from './rubrics';
+import {
+  CARD_STATE_COLUMNS,
+  cardStateFromRow,
+  cardStateToRow,
+  resolveScheduler,
+  type CardState,
+  type ReviewInput,
+} from './scheduler';
+
+/**
+ * Quiz session row needed to record results
+ */
+export interface SessionForResults {
+  id: string;
+  study_code_id: string;
+  unit_id: string;
+  difficulty: string | null;
+  question_ids: string[];
+  started_at: string;
+}
+
+/**
+ * Evaluation details stored with a graded answer (quiz_session_answers and question_results)
+ */
+export interface EvaluationRecord {
+  evaluation_trace: EvaluationTrace | null;
+  feedback: string | null;
+  corrections: EvaluationResult['corrections'] | null;
+  corrected_answer: string | null;
+  error_categories: ErrorCategory[] | null;
+  /** Per-criterion rubric grades (rubric-scored writing types) */
+  rubric_scores: RubricBreakdown | null;
+  /** Graded by best fuzzy match while the Semantic API was down; re-graded later */
+  provisional: boolean;
+}
+
+/** Columns selected from quiz_session_answers to build question_results */
+export const SESSION_ANSWER_COLUMNS =
+  'question_id, user_answer, is_correct, score, evaluation_trace, feedback, corrections, corrected_answer, error_categories, rubric_scores, provisional, teacher_grade, teacher_comment';
+
+/**
+ * Teacher grading state of a recorded answer (see teacher-grading.ts):
+ * 'pending' while held in the grading queue, 'graded' once the teacher set it
+ */
+export type TeacherGradeState = 'pending' | 'graded';
+
+/**
+ * Graded answer row from quiz_session_answers
+ */
+export interface SessionAnswerRow extends Partial<EvaluationRecord> {
+  question_id: string;
+  user_answer: string;
+  is_correct: boolean;
+  score: number | null;
+  teacher_grade?: TeacherGradeState | null;
+  teacher_comment?: string | null;
+}
+
+/**
+ * Columns recording how an answer was graded.
+ * The evaluation must have been run with metadata enabled for the trace to be present.
+ */
+export function toEvaluationRecord(evaluation: EvaluationResult): EvaluationRecord {
+  const hasCorrections = Object.values(evaluation.corrections || {}).some((list) => list && list.length > 0);
+  return {
+    evaluation_trace: evaluation.metadata ?? null,
+    feedback: evaluation.feedback || null,
+    corrections: hasCorrections ? evaluation.corrections : null,
+    corrected_answer: evaluation.correctedAnswer ?? null,
+    error_categories: evaluation.errorCategories?.length ? evaluation.errorCategories : null,
+    rubric_scores: evaluation.rubric ?? null,
+    provisional: evaluation.provisional === true,
+  };
+}
+
+/**
+ * Update spaced repetition state for a single question after it's graded.
+ * Uses the student's scheduler override (study_codes.scheduler) if set.
+ */
+export async function recordReview(
+  studyCodeId: string,
+  questionId: string,
+  input: ReviewInput
+): Promise<void> {
+  if (!isSupabaseAdminAvailable()) return;
+
+  try {
+    const [{ data: studyCode }, { data: existing, error: fetchError }] = await Promise.all([
+      supabaseAdmin!.from('study_codes').select('scheduler').eq('id', studyCodeId).maybeSingle(),
+      supabaseAdmin!
+        .from('leitner_state')
+        .select(CARD_STATE_COLUMNS)
+        .eq('study_code_id', studyCodeId)
+        .eq('question_id', questionId)
+        .maybeSingle(),
+    ]);
+
+    if (fetchError) {
+      console.error('Error fetching Leitner state:', fetchError);
+      return;
+    }
+
+    const scheduler = resolveScheduler(studyCode?.scheduler as string | null);
+    const newState = scheduler.review(existing ? cardStateFromRow(existing) : null, input);
+
+    const { error: upsertError } = await supabaseAdmin!
+      .from('leitner_state')
+      .upsert({
+        study_code_id: studyCodeId,
+        question_id: questionId,
+        ...cardStateToRow(newState),
+      }, { onConflict: 'study_code_id,question_id' });
+
+    if (upsertError) {
+      console.error('Error updating Leitner state:', upsertError);
+    }
+  } catch (error) {
+    console.error('Failed to update Leitner state:', error);
+  }
+}
+
+/**
+ * Rebuild a student's spaced repetition state for a question by replaying every
+ * recorded session answer in order. Used after a recorded result is corrected
+ * (accepted appeal, teacher grade), since later reviews depend on earlier ones.
+ * Answers still waiting for the teacher's grade are left out.
+ */
+export async function replayReviews(studyCodeId: string, questionId: string): Promise<void> {
+  if (!isSupabaseAdminAvailable()) return;
+
+  const [{ data: studyCode }, { data: answers, error: answersError }] = await Promise.all([
+    supabaseAdmin!.from('study_codes').select('scheduler').eq('id', studyCodeId).maybeSingle(),
+    supabaseAdmin!
+      .from('quiz_session_answers')
+      .select('is_correct, score, answered_at, quiz_sessions!inner(study_code_id)')
+      .eq('question_id', questionId)
+      .eq('quiz_sessions.study_code_id', studyCodeId)
+      .or('teacher_grade.is.null,teacher_grade.neq.pending')
+      .order('answered_at', { ascending: true }),
+  ]);
+
+  if (answersError) {
+    throw new Error(`Failed to load answers for replay: ${answersError.message}`);
+  }
+  if (!answers || answers.length === 0) return;
+
+  const scheduler = resolveScheduler(studyCode?.scheduler as string | null);
+  const state = answers.reduce<CardState | null>(
+    (current, answer) => scheduler.review(
+      current,
+      { isCorrect: answer.is_correct, score: answer.score ?? undefined },
+      new Date(answer.answered_at)
+    ),
+    null
+  );
+
+  const { error: upsertError } = await supabaseAdmin!
+    .from('leitner_state')
+    .upsert({
+      study_code_id: studyCodeId,
+      question_id: questionId,
+      ...cardStateToRow(state!),
+    }, { onConflict: 'study_code_id,question_id' });
+
+  if (upsertError) {
+    throw new Error(`Failed to update Leitner state: ${upsertError.message}`);
+  }
+}
+
+/**
+ * Save a finished session to quiz_history and question_results.
+ * Unanswered questions are recorded as incorrect.
+ * Returns quiz_history_id on success, null on failure
+ */
+export async function saveSessionResults(
+  session: SessionForResults,
+  answers: SessionAnswerRow[],
+  finishedAt: Date
+): Promise<string | null> {
+  if (!isSupabaseAdminAvailable()) return null;
+
+  try {
+    const questions = await loadQuestionsByIds(session.question_ids);
+    const answerMap = new Map(answers.map((a) => [a.question_id, a]));
+
+    const totalQuestions = session.question_ids.length;
+    // Answers waiting for the teacher's grade count once graded (apply_teacher_grade)
+    const correctAnswers = answers.filter((a) => a.is_correct && a.teacher_grade !== 'pending').length;
+    const timeSpentSeconds = Math.round(
+      (finishedAt.getTime() - new Date(session.started_at).getTime()) / 1000
+    );
+
+    const { data: quizData, error: quizError } = await supabaseAdmin!
+      .from('quiz_history')
+      .insert({
+        study_code_id: session.study_code_id,
+        unit_id: session.unit_id,
+        difficulty: session.difficulty,
+        total_questions: totalQuestions,
+        correct_answers: correctAnswers,
+        score_percentage: totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : 0,
+        time_spent_seconds: timeSpentSeconds,
+      })
+      .select('id')
+      .single();
+
+    if (quizError || !quizData) {
+      console.error('Error saving quiz history:', quizError);
+      return null;
+    }
+
+    const quizHistoryId = quizData.id as string;
+
+    const questionResults = questions.map((question) => {
+      const answer = answerMap.get(question.id);
+      const isCorrect = answer?.is_correct ?? false;
+
+      return {
+        quiz_history_id: quizHistoryId,
+        study_code_id: session.study_code_id,
+        question_id: question.id,
+        topic: question.topic,
+        difficulty: question.difficulty,
+        is_correct: isCorrect,
+        user_answer: answer?.user_answer ?? null,
+        correct_answer: question.correctAnswer,
+        score: answer?.score ?? (isCorrect ? 100 : 0),
+        evaluation_trace: answer?.evaluation_trace ?? null,
+        feedback: answer?.feedback ?? null,
+        corrections: answer?.corrections ?? null,
+        corrected_answer: answer?.corrected_answer ?? null,
+        error_categories: answer?.error_categories ?? null,
+        rubric_scores: answer?.rubric_scores ?? null,
+        provisional: answer?.provisional ?? false,
+        teacher_grade: answer?.teacher_grade ?? null,
+        teacher_comment: answer?.teacher_comment ?? null,
+      };
+    });
+
+    const { error: resultsError } = await supabaseAdmin!
+      .from('question_results')
+      .insert(questionResults);
+
+    if (resultsError) {
+      console.error('Error saving question results:', resultsError);
+      // Quiz history is saved, so we return the ID even if question details fail
+    }
+
+    // study_codes totals are maintained by triggers on quiz_history/question_results
+    return quizHistoryId;
+  } catch (error) {
+    console.error('Failed to save quiz results:', error);
+    return null;
+  }
+}
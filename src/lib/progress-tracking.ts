@@ -1,12 +1,10 @@
 /**
  * Progress Tracking
- * Saves quiz results and question-level data to database
+ * Reads progress data for a study code. Quiz results and spaced repetition
+ * state are written server-side by the quiz session routes (see progress-server.ts).
  */
 
 import { supabase, isSupabaseAvailable } from './supabase';
-import { Question } from '@/types';
-import { FEATURES } from './feature-flags';
-import { calculateNewBox } from './leitner';
 
 export interface QuizResult {
   studyCode: string;
@@ -15,148 +13,6 @@ export interface QuizResult {
   totalQuestions: number;
   correctAnswers: number;
   scorePercentage: number;
-  timeSpentSeconds?: number;
-  questions: Question[];
-  userAnswers: Record<string, string>;
-  evaluationResults?: Record<string, { isCorrect: boolean; score?: number }>;
-}
-
-/**
- * Save quiz results to database
- * Returns quiz_history_id on success, null on failure
- */
-export async function saveQuizResults(result: QuizResult): Promise<string | null> {
-  if (!isSupabaseAvailable()) {
-    console.log('Supabase not available, skipping save');
-    return null;
-  }
-
-  try {
-    // Get study code ID
-    const { data: studyCodeData, error: codeError } = await supabase!
-      .from('study_codes')
-      .select('id')
-      .eq('code', result.studyCode)
-      .single();
-
-    if (codeError || !studyCodeData) {
-      console.error('Study code not found:', codeError);
-      return null;
-    }
-
-    const studyCodeId = studyCodeData.id;
-
-    // Insert quiz history
-    const { data: quizData, error: quizError } = await supabase!
-      .from('quiz_history')
-      .insert({
-        study_code_id: studyCodeId,
-        unit_id: result.unitId,
-        difficulty: result.difficulty,
-        total_questions: result.totalQuestions,
-        correct_answers: result.correctAnswers,
-        score_percentage: result.scorePercentage,
-        time_spent_seconds: result.timeSpentSeconds || null,
-      })
-      .select()
-      .single();
-
-    if (quizError || !quizData) {
-      console.error('Error saving quiz history:', quizError);
-      return null;
-    }
-
-    const quizHistoryId = quizData.id;
-
-    // Insert question results
-    const questionResults = result.questions.map((question) => {
-      // For typed-answer questions with evaluation results, use evaluation's isCorrect
-      const evalResult = result.evaluationResults?.[question.id];
-      const isCorrect = evalResult
-        ? evalResult.isCorrect
-        : result.userAnswers[question.id] === question.correctAnswer;
-
-      return {
-        quiz_history_id: quizHistoryId,
-        study_code_id: studyCodeId,
-        question_id: question.id,
-        topic: question.topic,
-        difficulty: question.difficulty,
-        is_correct: isCorrect,
-        user_answer: result.userAnswers[question.id] || null,
-        correct_answer: question.correctAnswer,
-        score: evalResult?.score ?? (isCorrect ? 100 : 0),
-      };
-    });
-
-    const { error: resultsError } = await supabase!
-      .from('question_results')
-      .insert(questionResults);
-
-    if (resultsError) {
-      console.error('Error saving question results:', resultsError);
-      // Quiz history is saved, so we return the ID even if question details fail
-    }
-
-    // Update study code stats
-    await updateStudyCodeStats(studyCodeId);
-
-    // Leitner state is updated per-question (fire-and-forget in quiz page),
-    // not at quiz completion, to capture mastery signals from abandoned quizzes.
-
-    return quizHistoryId;
-  } catch (error) {
-    console.error('Failed to save quiz results:', error);
-    return null;
-  }
-}
-
-/**
- * Update aggregate stats for a study code
- */
-async function updateStudyCodeStats(studyCodeId: string): Promise<void> {
-  if (!isSupabaseAvailable()) return;
-
-  try {
-    // Get aggregated stats
-    const { data, error } = await supabase!
-      .from('question_results')
-      .select('is_correct', { count: 'exact' })
-      .eq('study_code_id', studyCodeId);
-
-    if (error || !data) {
-      console.error('Error getting stats:', error);
-      return;
-    }
-
-    const totalQuestions = data.length;
-    const correctAnswers = data.filter((r) => r.is_correct).length;
-
-    // Get total quizzes
-    const { data: quizData, error: quizError } = await supabase!
-      .from('quiz_history')
-      .select('id', { count: 'exact' })
-      .eq('study_code_id', studyCodeId);
-
-    if (quizError) {
-      console.error('Error getting quiz count:', quizError);
-      return;
-    }
-
-    const totalQuizzes = quizData?.length || 0;
-
-    // Update study code
-    await supabase!
-      .from('study_codes')
-      .update({
-        total_quizzes: totalQuizzes,
-        total_questions: totalQuestions,
-        correct_answers: correctAnswers,
-      })
-      .eq('id', studyCodeId);
-  } catch (error) {
-    console.error('Failed to update study code stats:', error);
-  }
 }
 
 /**
@@ -200,112 +56,19 @@ export async function getProgress(studyCode: string): Promise<{
 }
 
 /**
- * Update Leitner state for all questions in a completed quiz.
- * Creates entries for unseen questions, updates existing ones.
- */
-async function updateLeitnerState(
-  studyCodeId: string,
-  questionResults: Array<{ questionId: string; isCorrect: boolean }>
-): Promise<void> {
-  if (!isSupabaseAvailable()) return;
-
-  try {
-    const questionIds = questionResults.map((r) => r.questionId);
-
-    // Fetch existing Leitner state for these questions
-    const { data: existingStates, error: fetchError } = await supabase!
-      .from('leitner_state')
-      .select('question_id, box, consecutive_correct')
-      .eq('study_code_id', studyCodeId)
-      .in('question_id', questionIds);
-
-    if (fetchError) {
-      console.error('Error fetching Leitner state:', fetchError);
-      return;
-    }
-
-    const stateMap = new Map(
-      (existingStates || []).map((s) => [
-        s.question_id,
-        { box: s.box as number, consecutiveCorrect: s.consecutive_correct as number },
-      ])
-    );
-
-    // Calculate new states
-    const upserts = questionResults.map(({ questionId, isCorrect }) => {
-      const existing = stateMap.get(questionId);
-      const { box, consecutiveCorrect } = calculateNewBox(
-        existing?.box ?? 1,
-        existing?.consecutiveCorrect ?? 0,
-        isCorrect
-      );
-
-      return {
-        study_code_id: studyCodeId,
-        question_id: questionId,
-        box,
-        consecutive_correct: consecutiveCorrect,
-        last_reviewed: new Date().toISOString(),
-      };
-    });
-
-    const { error: upsertError } = await supabase!
-      .from('leitner_state')
-      .upsert(upserts, { onConflict: 'study_code_id,question_id' });
-
-    if (upsertError) {
-      console.error('Error updating Leitner state:', upsertError);
-    }
-  } catch (error) {
-    console.error('Failed to update Leitner state:', error);
-  }
-}
-
-/**
- * Update Leitner state for a single question immediately after it's answered.
- * Fire-and-forget: callers should not await this.
+ * Count questions due for spaced repetition review, as review mode would serve them
+ * (active questions only). Returns null when the count can't be determined.
  */
-export async function updateLeitnerStateForQuestion(
-  studyCodeId: string,
-  questionId: string,
-  isCorrect: boolean
-): Promise<void> {
-  if (!isSupabaseAvailable()) return;
-
+export async function getDueReviewCount(studyCode: string): Promise<number | null> {
   try {
-    const { data: existing, error: fetchError } = await supabase!
-      .from('leitner_state')
-      .select('box, consecutive_correct')
-      .eq('study_code_id', studyCodeId)
-      .eq('question_id', questionId)
-      .maybeSingle();
-
-    if (fetchError) {
-      console.error('Error fetching Leitner state:', fetchError);
-      return;
-    }
+    const response = await fetch(`/api/due-reviews?studyCode=${encodeURIComponent(studyCode)}`);
+    if (!response.ok) return null;
 
-    const { box, consecutiveCorrect } = calculateNewBox(
-      (existing?.box as number) ?? 1,
-      (existing?.consecutive_correct as number) ?? 0,
-      isCorrect
-    );
-
-    const { error: upsertError } = await supabase!
-      .from('leitner_state')
-      .upsert({
-        study_code_id: studyCodeId,
-        question_id: questionId,
-        box,
-        consecutive_correct: consecutiveCorrect,
-        last_reviewed: new Date().toISOString(),
-      }, { onConflict: 'study_code_id,question_id' });
-
-    if (upsertError) {
-      console.error('Error updating Leitner state:', upsertError);
-    }
+    const { count } = await response.json();
+    return typeof count === 'number' ? count : null;
   } catch (error) {
-    console.error('Failed to update Leitner state:', error);
+    console.error('Failed to count due reviews:', error);
+    return null;
   }
 }
 
@@ -0,0 +1,199 @@
+/**
+ * Question Bank Cache
+ * In-process cache of active questions, indexed by unit/topic/difficulty/type
+ * so quiz selection doesn't rescan the whole bank.
+ *
+ * Invalidation is versioned: triggers on the questions table bump
+ * question_bank_version on every insert, delete, and update (including
+ * quality_status changes, which also bump updated_at). Cached slices are
+ * reused until the version changes; the version row is re-checked at most
+ * every VERSION_CHECK_INTERVAL_MS.
+ */
+
+import { supabaseAdmin, isSupabaseAdminAvailable } from './supabase-admin';
+import { loadActiveQuestions, type QuestionLoadFilter } from './question-loader';
+import { isDifficultyLevel } from './feature-flags';
+import type { Question } from '@/types';
+
+/** How long a known bank version is trusted before re-checking the DB */
+export const VERSION_CHECK_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Questions plus lookup tables by each selection dimension
+ */
+export interface QuestionIndex {
+  questions: Question[];
+  byUnit: Map<string, Question[]>;
+  /** Keyed by lowercased topic */
+  byTopic: Map<string, Question[]>;
+  byDifficulty: Map<string, Question[]>;
+  byType: Map<Question['type'], Question[]>;
+}
+
+/**
+ * In-memory filters answered from the index
+ */
+export interface QuestionQuery {
+  unitId?: string;
+  topic?: string;
+  difficulty?: string;
+  types?: Question['type'][];
+}
+
+function addToBucket<K>(map: Map<K, Question[]>, key: K, question: Question): void {
+  const bucket = map.get(key);
+  if (bucket) bucket.push(question);
+  else map.set(key, [question]);
+}
+
+/**
+ * Build lookup tables for a set of questions
+ */
+export function buildQuestionIndex(questions: Question[]): QuestionIndex {
+  const index: QuestionIndex = {
+    questions,
+    byUnit: new Map(),
+    byTopic: new Map(),
+    byDifficulty: new Map(),
+    byType: new Map(),
+  };
+
+  for (const q of questions) {
+    addToBucket(index.byUnit, q.unitId, q);
+    addToBucket(index.byTopic, q.topic.toLowerCase(), q);
+    addToBucket(index.byDifficulty, q.difficulty, q);
+    addToBucket(index.byType, q.type, q);
+  }
+
+  return index;
+}
+
+function matchesQuery(q: Question, query: QuestionQuery): boolean {
+  if (query.unitId && query.unitId !== 'all' && q.unitId !== query.unitId && q.unitId !== 'all') return false;
+  if (query.topic && q.topic.toLowerCase() !== query.topic.toLowerCase()) return false;
+  if (query.difficulty && q.difficulty !== query.difficulty) return false;
+  if (query.types && query.types.length > 0 && !query.types.includes(q.type)) return false;
+  return true;
+}
+
+/**
+ * Find questions matching a query.
+ * Only the smallest matching index bucket is scanned; the other criteria are
+ * checked per question within it.
+ */
+export function queryQuestionIndex(index: QuestionIndex, query: QuestionQuery): Question[] {
+  const buckets: Question[][] = [];
+
+  // Questions with unitId='all' apply to any unit
+  if (query.unitId && query.unitId !== 'all') {
+    buckets.push([...(index.byUnit.get(query.unitId) || []), ...(index.byUnit.get('all') || [])]);
+  }
+  if (query.topic) {
+    buckets.push(index.byTopic.get(query.topic.toLowerCase()) || []);
+  }
+  if (query.difficulty) {
+    buckets.push(index.byDifficulty.get(query.difficulty) || []);
+  }
+  if (query.types && query.types.length > 0) {
+    buckets.push(query.types.flatMap((t) => index.byType.get(t) || []));
+  }
+
+  if (buckets.length === 0) return index.questions;
+
+  const smallest = buckets.reduce((a, b) => (b.length < a.length ? b : a));
+  return smallest.filter((q) => matchesQuery(q, query));
+}
+
+// ─── Cache ───────────────────────────────────────────────────────────────────
+
+/** Cached slices keyed by unit|difficulty; cleared whenever the bank version changes */
+const slices = new Map<string, QuestionIndex>();
+let knownVersion: number | null = null;
+let versionCheckedAt = 0;
+
+function sliceKey(filter: QuestionLoadFilter): string {
+  const unit = filter.unitId && filter.unitId !== 'all' ? filter.unitId : 'all';
+  return `${unit}|${filter.difficulty || '*'}`;
+}
+
+const FULL_BANK_KEY = sliceKey({});
+
+/**
+ * Current bank version (re-checked at most every VERSION_CHECK_INTERVAL_MS).
+ * Returns null if the version can't be read, which disables caching.
+ */
+async function getBankVersion(): Promise<number | null> {
+  if (knownVersion !== null && Date.now() - versionCheckedAt < VERSION_CHECK_INTERVAL_MS) {
+    return knownVersion;
+  }
+
+  const { data, error } = await supabaseAdmin!
+    .from('question_bank_version')
+    .select('version')
+    .maybeSingle();
+
+  if (error || !data) {
+    console.error('Error reading question bank version:', error);
+    return null;
+  }
+
+  const version = Number(data.version);
+  if (version !== knownVersion) {
+    if (knownVersion !== null) {
+      console.log(`🔄 Question bank changed (v${knownVersion} → v${version}), clearing cache`);
+    }
+    slices.clear();
+    knownVersion = version;
+  }
+  versionCheckedAt = Date.now();
+  return version;
+}
+
+/**
+ * Get active questions for a unit/difficulty, indexed for selection.
+ * Served from cache when the bank version is unchanged. On a miss, the slice is
+ * derived from the cached full bank if present, otherwise loaded with the
+ * unit/difficulty filters applied in the DB query.
+ */
+export async function getQuestionBank(filter: QuestionLoadFilter = {}): Promise<QuestionIndex> {
+  if (!isSupabaseAdminAvailable()) {
+    return buildQuestionIndex([]);
+  }
+
+  // Filters come from the client: malformed ones match nothing, so don't query or cache them
+  if ((filter.unitId !== undefined && typeof filter.unitId !== 'string') ||
+      (filter.difficulty && !isDifficultyLevel(filter.difficulty))) {
+    return buildQuestionIndex([]);
+  }
+
+  const key = sliceKey(filter);
+  const version = await getBankVersion();
+
+  const cached = version !== null ? slices.get(key) : undefined;
+  if (cached) return cached;
+
+  const fullBank = version !== null ? slices.get(FULL_BANK_KEY) : undefined;
+  const questions = fullBank
+    ? queryQuestionIndex(fullBank, filter)
+    : await loadActiveQuestions(filter);
+
+  const index = buildQuestionIndex(questions);
+  // Don't cache empty results: they are usually a transient load failure.
+  // Nor slices of unknown units (only unit 'all' questions), so the cache stays bounded
+  const isKnownUnit = !filter.unitId || filter.unitId === 'all' || index.byUnit.has(filter.unitId);
+  if (version !== null && questions.length > 0 && isKnownUnit) {
+    slices.set(key, index);
+  }
+
+  console.log(`📚 Question bank miss (${key}): ${questions.length} questions ${fullBank ? 'from cached bank' : 'from database'}`);
+  return index;
+}
+
+/**
+ * Get available topics for a unit
+ */
+export async function getAvailableTopics(unitId?: string): Promise<string[]> {
+  const bank = await getQuestionBank({ unitId });
+  const topicsSet = new Set(bank.questions.map(q => q.topic));
+  return Array.from(topicsSet).sort();
+}
@@ -1,6 +1,15 @@
-import { supabase, isSupabaseAvailable } from './supabase';
-import { Question } from '@/types';
-import { getQuestionWeight } from './leitner';
+/**
+ * Question Loader
+ * Server-side question bank access and quiz selection.
+ *
+ * The questions table is not readable with the anon key (answer keys stay
+ * server-side), so all loads go through the secret-key client.
+ */
+
+import { supabaseAdmin, isSupabaseAdminAvailable } from './supabase-admin';
+import { AnswerReveal, Question, QuizQuestion } from '@/types';
+import { isDue, CardState, Scheduler } from './scheduler';
+import { parseEvaluationPolicyOverride, type EvaluationPolicyOverride } from './evaluation-policy';
 
 /**
  * Database question row type
@@ -19,6 +28,8 @@ interface DBQuestion {
   writing_type: string | null;
   hints: string[];
   requires_complete_sentence: boolean;
+  evaluation_policy: EvaluationPolicyOverride | null;
+  teacher_graded: boolean | null;
 }
 
 /**
@@ -39,17 +50,30 @@ function dbToQuestion(row: DBQuestion): Question {
     writingType: row.writing_type as Question['writingType'],
     hints: row.hints,
     requiresCompleteSentence: row.requires_complete_sentence,
+    evaluationPolicy: row.evaluation_policy ? parseEvaluationPolicyOverride(row.evaluation_policy) : undefined,
+    teacherGraded: row.teacher_graded || undefined,
   };
 }
 
 const PAGE_SIZE = 1000;
 
 /**
- * Load all questions from database (paginated to bypass Supabase 1000-row default limit)
+ * DB-side filters for loading active questions
+ */
+export interface QuestionLoadFilter {
+  /** Unit to load ('all' or omitted = every unit). Questions with unit_id 'all' are always included */
+  unitId?: string;
+  difficulty?: string;
+}
+
+/**
+ * Load active questions from database (paginated to bypass Supabase 1000-row default limit).
+ * Unit and difficulty filters are applied in the query; meta-questions are dropped.
+ * Most callers should use getQuestionBank() (question-bank.ts), which caches the result.
  */
-export async function loadAllQuestions(): Promise<Question[]> {
-  if (!isSupabaseAvailable()) {
-    console.warn('Supabase not available. No questions loaded.');
+export async function loadActiveQuestions(filter: QuestionLoadFilter = {}): Promise<Question[]> {
+  if (!isSupabaseAdminAvailable()) {
+    console.warn('Supabase admin client not available. No questions loaded.');
     return [];
   }
 
@@ -58,10 +82,19 @@ export async function loadAllQuestions(): Promise<Question[]> {
     let page = 0;
 
     while (true) {
-      const { data, error } = await supabase!
+      let query = supabaseAdmin!
         .from('questions')
         .select('*')
-        .eq('quality_status', 'active')
+        .eq('quality_status', 'active');
+
+      if (filter.unitId && filter.unitId !== 'all') {
+        query = query.in('unit_id', [filter.unitId, 'all']);
+      }
+      if (filter.difficulty) {
+        query = query.eq('difficulty', filter.difficulty);
+      }
+
+      const { data, error } = await query
         .order('created_at', { ascending: false })
         .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
 
@@ -93,48 +126,48 @@ export async function loadAllQuestions(): Promise<Question[]> {
 }
 
 /**
- * Load questions for a specific unit (paginated)
+ * Load specific questions by ID (any quality status)
  */
-export async function loadUnitQuestions(unitId: string): Promise<Question[]> {
-  if (!isSupabaseAvailable()) {
-    console.warn('Supabase not available. No questions loaded.');
-    return [];
-  }
+export async function loadQuestionsByIds(ids: string[]): Promise<Question[]> {
+  if (!isSupabaseAdminAvailable() || ids.length === 0) return [];
 
   try {
-    const allData: DBQuestion[] = [];
-    let page = 0;
-
-    while (true) {
-      const { data, error } = await supabase!
-        .from('questions')
-        .select('*')
-        .eq('quality_status', 'active')
-        .or(`unit_id.eq.${unitId},unit_id.eq.all`)
-        .order('created_at', { ascending: false })
-        .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
-
-      if (error) {
-        console.error(`Error loading questions for unit ${unitId}:`, error);
-        return allData.length > 0 ? allData.map(dbToQuestion).filter(q => !isMetaQuestion(q)) : [];
-      }
-
-      if (!data || data.length === 0) break;
-      allData.push(...(data as unknown as DBQuestion[]));
-      if (data.length < PAGE_SIZE) break;
-      page++;
+    const { data, error } = await supabaseAdmin!
+      .from('questions')
+      .select('*')
+      .in('id', ids);
+
+    if (error) {
+      console.error('Error loading questions by ID:', error);
+      return [];
     }
 
-    const questions = allData.map(dbToQuestion);
-
-    // Filter out meta-questions
-    return questions.filter(q => !isMetaQuestion(q));
+    return (data as unknown as DBQuestion[]).map(dbToQuestion);
   } catch (error) {
-    console.error(`Error loading questions for unit ${unitId}:`, error);
+    console.error('Error loading questions by ID:', error);
     return [];
   }
 }
 
+/**
+ * Strip the answer key from a question before sending it to the browser
+ */
+export function toQuizQuestion(question: Question): QuizQuestion {
+  const { correctAnswer, acceptableVariations, explanation, ...rest } = question;
+  return rest;
+}
+
+/**
+ * Answer key to reveal once a question has been answered
+ */
+export function toAnswerReveal(question: Question): AnswerReveal {
+  return {
+    correctAnswer: question.correctAnswer,
+    acceptableVariations: question.acceptableVariations,
+    explanation: question.explanation,
+  };
+}
+
 /**
  * Filter out meta-questions about learning philosophy, motivation, or personal teacher information
  * These questions don't test French language knowledge
@@ -164,6 +197,14 @@ export function isMetaQuestion(question: Question): boolean {
   );
 }
 
+/**
+ * Per-student card states plus the scheduler that weights them
+ */
+export interface ReviewState {
+  cards: Map<string, CardState>;
+  scheduler: Scheduler;
+}
+
 /**
  * Result from question selection including any warnings
  */
@@ -188,8 +229,8 @@ export function selectQuestions(
     allowedTypes?: Question['type'][];
     /** Distribution ratios for each type (should sum to 1.0) */
     typeDistribution?: Partial<Record<Question['type'], number>>;
-    /** Leitner box weights for adaptive selection (questionId -> box number) */
-    leitnerWeights?: Map<string, number>;
+    /** Spaced repetition state for adaptive selection (questionId -> card) */
+    reviewState?: ReviewState;
   }
 ): SelectionResult {
   const warnings: string[] = [];
@@ -249,7 +290,7 @@ export function selectQuestions(
 
   if (criteria.typeDistribution) {
     // Select questions based on specified distribution
-    finalSelection = selectByDistribution(filtered, criteria.numQuestions, criteria.typeDistribution, warnings, criteria.leitnerWeights);
+    finalSelection = selectByDistribution(filtered, criteria.numQuestions, criteria.typeDistribution, warnings, criteria.reviewState);
   } else {
     // Legacy behavior: 30% writing, 70% traditional
     const writingQuestions = filtered.filter(q => q.type === 'writing');
@@ -262,7 +303,7 @@ export function selectQuestions(
     const desiredTraditionalCount = criteria.numQuestions - desiredWritingCount;
 
     const shuffleOrWeight = (qs: Question[]) =>
-      criteria.leitnerWeights ? weightedShuffle(qs, criteria.leitnerWeights) : [...qs].sort(() => Math.random() - 0.5);
+      criteria.reviewState ? weightedShuffle(qs, criteria.reviewState) : [...qs].sort(() => Math.random() - 0.5);
 
     const shuffledWriting = shuffleOrWeight(writingQuestions);
     const shuffledTraditional = shuffleOrWeight(traditionalQuestions);
@@ -299,18 +340,117 @@ export function selectQuestions(
   };
 }
 
+/**
+ * Questions with a due review card, most overdue first (legacy rows without a due
+ * date lead). Review mode serves these; the home page shows how many there are.
+ */
+export function getDueQuestions(
+  pool: Question[],
+  cards: Map<string, CardState>,
+  now: Date = new Date()
+): Question[] {
+  return pool
+    .filter(q => cards.has(q.id) && isDue(cards.get(q.id)!, now))
+    .sort((a, b) =>
+      (cards.get(a.id)!.nextReviewAt?.getTime() ?? 0) - (cards.get(b.id)!.nextReviewAt?.getTime() ?? 0)
+    );
+}
+
+/**
+ * Select a "review due" quiz: the student's due cards across all units
+ * (most overdue first), then unseen questions from their weakest topics.
+ * Falls back to unseen questions from any topic if the weak topics run out.
+ */
+export function selectDueQuestions(
+  allQuestions: Question[],
+  criteria: {
+    numQuestions: number;
+    /** Difficulty for filler questions (due cards are served regardless) */
+    difficulty?: string;
+    allowedTypes?: Question['type'][];
+    reviewState: ReviewState;
+    /** Topics ordered weakest first */
+    weakTopics: string[];
+  }
+): SelectionResult {
+  const warnings: string[] = [];
+  const now = new Date();
+  const { cards } = criteria.reviewState;
+
+  let pool = allQuestions;
+  if (criteria.allowedTypes && criteria.allowedTypes.length > 0) {
+    pool = pool.filter(q => criteria.allowedTypes!.includes(q.type));
+  }
+
+  const due = getDueQuestions(pool, cards, now);
+
+  const selected = due.slice(0, criteria.numQuestions);
+
+  // Fill remaining slots with unseen questions, weakest topics first
+  if (selected.length < criteria.numQuestions) {
+    let unseen = pool.filter(q => !cards.has(q.id));
+    if (criteria.difficulty) {
+      unseen = unseen.filter(q => q.difficulty === criteria.difficulty);
+    }
+    const shuffled = [...unseen].sort(() => Math.random() - 0.5);
+
+    const topicRank = new Map(criteria.weakTopics.map((t, i) => [t.toLowerCase(), i]));
+    const fromWeakTopics = shuffled
+      .filter(q => topicRank.has(q.topic.toLowerCase()))
+      .sort((a, b) => topicRank.get(a.topic.toLowerCase())! - topicRank.get(b.topic.toLowerCase())!);
+    const fromOtherTopics = shuffled.filter(q => !topicRank.has(q.topic.toLowerCase()));
+
+    const needed = criteria.numQuestions - selected.length;
+    const filler = fromWeakTopics.slice(0, needed);
+    if (filler.length < needed && fromOtherTopics.length > 0) {
+      filler.push(...fromOtherTopics.slice(0, needed - filler.length));
+    }
+    selected.push(...filler);
+  }
+
+  if (due.length === 0) {
+    warnings.push('Nothing is due for review today - practicing your weakest topics instead');
+  }
+  if (selected.length < criteria.numQuestions) {
+    warnings.push(`Only ${selected.length} questions available (requested ${criteria.numQuestions})`);
+  }
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log(`🔁 Review due: ${due.length} due, ${selected.length - Math.min(due.length, criteria.numQuestions)} filler`);
+  }
+
+  return {
+    questions: selected,
+    warnings,
+    requestedCount: criteria.numQuestions,
+    actualCount: selected.length,
+  };
+}
+
 /**
  * Weighted random shuffle: higher-weight questions appear first.
  * Uses weighted random sampling without replacement.
+ *
+ * Questions that are not yet due are held back: they are appended after all
+ * due/unseen questions (soonest due first), so they only fill a quiz when
+ * there aren't enough due questions.
  */
 function weightedShuffle(
   questions: Question[],
-  leitnerWeights: Map<string, number>
+  { cards, scheduler }: ReviewState
 ): Question[] {
-  const remaining = questions.map((q) => ({
-    question: q,
-    weight: getQuestionWeight(leitnerWeights.get(q.id) ?? null),
-  }));
+  const now = new Date();
+  const heldBack: { question: Question; dueAt: number }[] = [];
+  const remaining: { question: Question; weight: number }[] = [];
+
+  for (const q of questions) {
+    const entry = cards.get(q.id) ?? null;
+    if (isDue(entry, now)) {
+      remaining.push({ question: q, weight: scheduler.getWeight(entry, now) });
+    } else {
+      heldBack.push({ question: q, dueAt: entry!.nextReviewAt!.getTime() });
+    }
+  }
 
   const result: Question[] = [];
 
@@ -331,6 +471,9 @@ function weightedShuffle(
     remaining.splice(selectedIdx, 1);
   }
 
+  heldBack.sort((a, b) => a.dueAt - b.dueAt);
+  result.push(...heldBack.map((h) => h.question));
+
   return result;
 }
 
@@ -342,7 +485,7 @@ function selectByDistribution(
   numQuestions: number,
   distribution: Partial<Record<Question['type'], number>>,
   warnings: string[],
-  leitnerWeights?: Map<string, number>
+  reviewState?: ReviewState
 ): Question[] {
   const selected: Question[] = [];
 
@@ -353,10 +496,10 @@ function selectByDistribution(
     byType[q.type].push(q);
   }
 
-  // Shuffle each type group (weighted if Leitner active, random otherwise)
+  // Shuffle each type group (weighted if spaced repetition active, random otherwise)
   for (const type in byType) {
-    byType[type] = leitnerWeights
-      ? weightedShuffle(byType[type], leitnerWeights)
+    byType[type] = reviewState
+      ? weightedShuffle(byType[type], reviewState)
       : byType[type].sort(() => Math.random() - 0.5);
   }
 
@@ -408,15 +551,3 @@ function selectByDistribution(
   // Shuffle final selection
   return selected.sort(() => Math.random() - 0.5);
 }
-
-/**
- * Get available topics for a unit
- */
-export async function getAvailableTopics(unitId?: string): Promise<string[]> {
-  const questions = unitId && unitId !== 'all'
-    ? await loadUnitQuestions(unitId)
-    : await loadAllQuestions();
-
-  const topicsSet = new Set(questions.map(q => q.topic));
-  return Array.from(topicsSet).sort();
-}
@@ -5,7 +5,7 @@
 
 import { Question } from '@/types';
 
-export type QuizMode = 'practice' | 'assessment';
+export type QuizMode = 'practice' | 'assessment' | 'review';
 
 export interface QuizModeConfig {
   id: QuizMode;
@@ -14,6 +14,12 @@ export interface QuizModeConfig {
   allowedTypes: Question['type'][];
   /** Distribution ratios for each type (should sum to 1.0) */
   typeDistribution: Partial<Record<Question['type'], number>>;
+  /**
+   * Build the quiz from the student's due spaced repetition cards (all units),
+   * topped up with unseen questions from their weakest topics.
+   * Requires a study code and Leitner mode.
+   */
+  dueOnly?: boolean;
 }
 
 /**
@@ -43,6 +49,19 @@ export const QUIZ_MODES: Record<QuizMode, QuizModeConfig> = {
       'writing': 0.50,
     },
   },
+  review: {
+    id: 'review',
+    label: 'Review Due',
+    description: 'Questions scheduled for review today, across all units',
+    allowedTypes: ['multiple-choice', 'true-false', 'fill-in-blank', 'writing'],
+    typeDistribution: {
+      'multiple-choice': 0.35,
+      'true-false': 0.15,
+      'fill-in-blank': 0.20,
+      'writing': 0.30,
+    },
+    dueOnly: true,
+  },
 };
 
 /**
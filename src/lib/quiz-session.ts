@@ -0,0 +1,174 @@
+/**
+ * Quiz Session API Client
+ * Calls the server-side quiz session routes. The browser only ever receives
+ * questions without answer keys; each key is revealed after its answer is graded.
+ */
+
+import type { AnswerReveal, QuizQuestion } from '@/types';
+import type { EvaluationResult } from './answer-evaluation';
+import {
+  EVALUATION_STREAM_CONTENT_TYPE,
+  readEvaluationStream,
+  type EvaluationProgressHandler,
+} from './evaluation-stream';
+
+export interface StartQuizSessionRequest {
+  unitId: string;
+  topic?: string;
+  numQuestions: number;
+  difficulty: string;
+  mode: string;
+  studyCodeId?: string;
+  leitnerMode?: boolean;
+}
+
+export interface QuizSessionStart {
+  sessionId: string;
+  questions: QuizQuestion[];
+  warnings: string[];
+}
+
+export interface QuizAnswerResult {
+  evaluation: EvaluationResult;
+  reveal: AnswerReveal;
+  /** False when an earlier answer to this question was already recorded */
+  recorded: boolean;
+}
+
+/**
+ * Answer that wasn't graded or recorded (rate limited, server or network error):
+ * the student can resubmit it
+ */
+export interface QuizAnswerFailure {
+  error: string;
+  /** Seconds to wait before resubmitting (rate limited only) */
+  retryAfterSeconds: number | null;
+}
+
+export interface QuizSessionSummary {
+  totalQuestions: number;
+  answeredQuestions: number;
+  correctAnswers: number;
+  scorePercentage: number;
+  /** quiz_history row the results were saved to (null without a study code) */
+  quizHistoryId: string | null;
+}
+
+/**
+ * Start a quiz session (selects questions server-side)
+ * Throws with the server's error message on failure
+ */
+export async function startQuizSession(body: StartQuizSessionRequest): Promise<QuizSessionStart> {
+  const response = await fetch('/api/quiz-sessions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || 'Failed to generate questions');
+  }
+
+  const data = await response.json();
+  return {
+    sessionId: data.sessionId,
+    questions: data.questions,
+    warnings: data.warnings || [],
+  };
+}
+
+const SUBMIT_ANSWER_ERROR = 'Your answer could not be submitted. Please try again.';
+
+/**
+ * Submit an answer for grading
+ * With onProgress, the Semantic API feedback is streamed to it before the
+ * result arrives. Returns a QuizAnswerFailure if the answer wasn't graded
+ */
+export async function submitQuizAnswer(
+  sessionId: string,
+  questionId: string,
+  answer: string,
+  superuserOverride?: boolean | null,
+  onProgress?: EvaluationProgressHandler
+): Promise<QuizAnswerResult | QuizAnswerFailure> {
+  try {
+    const response = await fetch(`/api/quiz-sessions/${encodeURIComponent(sessionId)}/answer`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(onProgress && { Accept: EVALUATION_STREAM_CONTENT_TYPE }),
+      },
+      body: JSON.stringify({ questionId, answer, superuserOverride }),
+    });
+
+    if (response.status === 429) {
+      const retryAfterSeconds = Number(response.headers.get('Retry-After')) || null;
+      return {
+        error: retryAfterSeconds
+          ? `Too many answers at once. Please wait ${retryAfterSeconds} seconds and submit again.`
+          : 'Too many answers at once. Please wait a moment and submit again.',
+        retryAfterSeconds,
+      };
+    }
+    if (!response.ok) {
+      const data = await response.json().catch(() => null);
+      return { error: data?.error || SUBMIT_ANSWER_ERROR, retryAfterSeconds: null };
+    }
+
+    const result = onProgress
+      ? await readEvaluationStream<QuizAnswerResult>(response, onProgress)
+      : await response.json() as QuizAnswerResult;
+    return result ?? { error: SUBMIT_ANSWER_ERROR, retryAfterSeconds: null };
+  } catch (error) {
+    console.error('Error submitting answer:', error);
+    return { error: SUBMIT_ANSWER_ERROR, retryAfterSeconds: null };
+  }
+}
+
+/**
+ * Whether submitting an answer failed (nothing was recorded)
+ */
+export function isQuizAnswerFailure(result: QuizAnswerResult | QuizAnswerFailure): result is QuizAnswerFailure {
+  return 'error' in result;
+}
+
+/**
+ * Appeal a recorded answer that was graded wrong (queued for teacher review)
+ * Returns false if the request failed
+ */
+export async function submitAnswerAppeal(
+  sessionId: string,
+  questionId: string,
+  comment?: string
+): Promise<boolean> {
+  try {
+    const response = await fetch(`/api/quiz-sessions/${encodeURIComponent(sessionId)}/appeal`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ questionId, comment }),
+    });
+
+    return response.ok;
+  } catch (error) {
+    console.error('Error submitting appeal:', error);
+    return false;
+  }
+}
+
+/**
+ * Finish a quiz session: records the results server-side and returns the score
+ */
+export async function finishQuizSession(sessionId: string): Promise<QuizSessionSummary | null> {
+  try {
+    const response = await fetch(`/api/quiz-sessions/${encodeURIComponent(sessionId)}/finish`, {
+      method: 'POST',
+    });
+
+    if (!response.ok) return null;
+    return await response.json();
+  } catch (error) {
+    console.error('Error finishing quiz session:', error);
+    return null;
+  }
+}
@@ -1,27 +1,19 @@
 /**
- * In-memory sliding window rate limiter
- * Sufficient for classroom-scale apps on Vercel (per-instance limiting)
+ * Sliding window rate limiter with pluggable stores
+ *
+ * - memory:   per-instance Map (resets on cold start; fine for local dev)
+ * - postgres: shared sliding window in Supabase via the rate_limit_peek() and
+ *             rate_limit_hit() RPCs, durable across instances and cold starts
+ *             (expired hits are purged periodically with purge_rate_limit_hits())
+ *
+ * The store is chosen by RATE_LIMIT_STORE ('memory' | 'postgres', default 'memory').
+ * If the Postgres store is unavailable or errors, requests fall back to the
+ * memory store rather than failing open or blocking everyone.
+ *
+ * All per-route limits live in RATE_LIMIT_POLICIES below.
  */
 
-const store = new Map<string, number[]>();
-
-const CLEANUP_INTERVAL = 5 * 60 * 1000; // 5 minutes
-let lastCleanup = Date.now();
-
-function cleanup(windowMs: number) {
-  const now = Date.now();
-  if (now - lastCleanup < CLEANUP_INTERVAL) return;
-  lastCleanup = now;
-
-  for (const [key, timestamps] of store) {
-    const filtered = timestamps.filter(t => now - t < windowMs);
-    if (filtered.length === 0) {
-      store.delete(key);
-    } else {
-      store.set(key, filtered);
-    }
-  }
-}
+import { supabaseAdmin, isSupabaseAdminAvailable } from './supabase-admin';
 
 export interface RateLimitConfig {
   windowMs: number;
@@ -34,36 +26,264 @@ export interface RateLimitResult {
   resetAt: number;
 }
 
-export function checkRateLimit(key: string, config: RateLimitConfig): RateLimitResult {
-  const now = Date.now();
-  cleanup(config.windowMs);
+/**
+ * Backing store for request timestamps
+ */
+export interface RateLimitStore {
+  name: string;
+  /** Check key against the limit without recording a request */
+  peek(key: string, config: RateLimitConfig): Promise<RateLimitResult>;
+  /** Record a request for key if it is within the limit */
+  hit(key: string, config: RateLimitConfig): Promise<RateLimitResult>;
+}
 
-  let timestamps = store.get(key);
-  if (!timestamps) {
-    timestamps = [];
-    store.set(key, timestamps);
+// ─── Policies ────────────────────────────────────────────────────────────────
+
+/** What a limit is counted against */
+export type RateLimitScope = 'ip' | 'studyCode' | 'global';
+
+export interface RateLimitPolicy extends RateLimitConfig {
+  scope: RateLimitScope;
+}
+
+/**
+ * Per-route limits. A request must pass every policy for its route;
+ * study code limits are skipped when the request has no study code.
+ */
+export const RATE_LIMIT_POLICIES = {
+  /** Brute-force protection for study code lookup */
+  verifyCode: [
+    { scope: 'ip', windowMs: 60 * 1000, maxRequests: 20 },
+  ],
+  /** Study code creation */
+  generateCode: [
+    { scope: 'ip', windowMs: 60 * 1000, maxRequests: 10 },
+    { scope: 'global', windowMs: 60 * 60 * 1000, maxRequests: 500 },
+  ],
+  /** Admin password attempts */
+  adminLogin: [
+    { scope: 'ip', windowMs: 60 * 1000, maxRequests: 5 },
+  ],
+  /** Answer evaluation (may call the Semantic API): cost protection */
+  evaluate: [
+    { scope: 'ip', windowMs: 60 * 1000, maxRequests: 15 },
+    { scope: 'studyCode', windowMs: 60 * 1000, maxRequests: 15 },
+    { scope: 'global', windowMs: 60 * 1000, maxRequests: 300 },
+  ],
+} satisfies Record<string, RateLimitPolicy[]>;
+
+export type RateLimitRoute = keyof typeof RATE_LIMIT_POLICIES;
+
+/**
+ * Who a request is counted against
+ */
+export interface RateLimitSubject {
+  ip: string;
+  studyCodeId?: string | null;
+}
+
+// ─── Memory store ────────────────────────────────────────────────────────────
+
+const CLEANUP_INTERVAL = 5 * 60 * 1000; // 5 minutes
+
+/** Request timestamps for a key, with the window they are counted in */
+interface MemoryEntry {
+  windowMs: number;
+  timestamps: number[];
+}
+
+function createMemoryStore(): RateLimitStore {
+  const store = new Map<string, MemoryEntry>();
+  let lastCleanup = Date.now();
+
+  // Each key is pruned with its own window: an hour-long global bucket
+  // must survive a cleanup triggered by a one-minute policy
+  function cleanup() {
+    const now = Date.now();
+    if (now - lastCleanup < CLEANUP_INTERVAL) return;
+    lastCleanup = now;
+
+    for (const [key, entry] of store) {
+      const filtered = entry.timestamps.filter(t => now - t < entry.windowMs);
+      if (filtered.length === 0) {
+        store.delete(key);
+      } else {
+        entry.timestamps = filtered;
+      }
+    }
   }
 
-  // Remove timestamps outside the window
-  const filtered = timestamps.filter(t => now - t < config.windowMs);
-  store.set(key, filtered);
+  /** Timestamps of key inside the window (expired ones are dropped) */
+  function windowTimestamps(key: string, config: RateLimitConfig, now: number): number[] {
+    const filtered = (store.get(key)?.timestamps || []).filter(t => now - t < config.windowMs);
+    store.set(key, { windowMs: config.windowMs, timestamps: filtered });
+    return filtered;
+  }
 
-  if (filtered.length >= config.maxRequests) {
+  function denial(timestamps: number[], config: RateLimitConfig): RateLimitResult {
     return {
       allowed: false,
       remaining: 0,
-      resetAt: filtered[0] + config.windowMs,
+      resetAt: timestamps[0] + config.windowMs,
     };
   }
 
-  filtered.push(now);
   return {
-    allowed: true,
-    remaining: config.maxRequests - filtered.length,
-    resetAt: now + config.windowMs,
+    name: 'memory',
+
+    async peek(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
+      const now = Date.now();
+      cleanup();
+
+      const filtered = windowTimestamps(key, config, now);
+      if (filtered.length >= config.maxRequests) return denial(filtered, config);
+
+      return {
+        allowed: true,
+        remaining: config.maxRequests - filtered.length,
+        resetAt: now + config.windowMs,
+      };
+    },
+
+    async hit(key: string, config: RateLimitConfig): Promise<RateLimitResult> {
+      const now = Date.now();
+      cleanup();
+
+      const filtered = windowTimestamps(key, config, now);
+      if (filtered.length >= config.maxRequests) return denial(filtered, config);
+
+      filtered.push(now);
+      return {
+        allowed: true,
+        remaining: config.maxRequests - filtered.length,
+        resetAt: now + config.windowMs,
+      };
+    },
+  };
+}
+
+export const memoryRateLimitStore = createMemoryStore();
+
+// ─── Postgres store ──────────────────────────────────────────────────────────
+
+let lastPostgresPurge = Date.now();
+
+/**
+ * Delete expired hits of every key (rate_limit_hit only prunes the key it checks),
+ * at most once per CLEANUP_INTERVAL per instance. Doesn't hold up the request.
+ */
+function purgeExpiredHits() {
+  const now = Date.now();
+  if (now - lastPostgresPurge < CLEANUP_INTERVAL) return;
+  lastPostgresPurge = now;
+
+  supabaseAdmin!.rpc('purge_rate_limit_hits').then(({ error }) => {
+    if (error) console.error('⚠️ Failed to purge expired rate limit hits:', error);
+  });
+}
+
+/**
+ * Call rate_limit_peek or rate_limit_hit, falling back to the same memory store
+ * operation when Postgres is unavailable or errors
+ */
+async function postgresRateLimitCall(
+  operation: 'peek' | 'hit',
+  key: string,
+  config: RateLimitConfig
+): Promise<RateLimitResult> {
+  if (!isSupabaseAdminAvailable()) {
+    return memoryRateLimitStore[operation](key, config);
+  }
+
+  purgeExpiredHits();
+
+  const { data, error } = await supabaseAdmin!
+    .rpc(operation === 'peek' ? 'rate_limit_peek' : 'rate_limit_hit', {
+      p_key: key,
+      p_window_ms: config.windowMs,
+      p_max_requests: config.maxRequests,
+    })
+    .single<{ allowed: boolean; remaining: number; reset_at: string }>();
+
+  if (error || !data) {
+    console.error('⚠️ Postgres rate limit store failed, using memory store:', error);
+    return memoryRateLimitStore[operation](key, config);
+  }
+
+  return {
+    allowed: data.allowed,
+    remaining: data.remaining,
+    resetAt: new Date(data.reset_at).getTime(),
   };
 }
 
+export const postgresRateLimitStore: RateLimitStore = {
+  name: 'postgres',
+  peek: (key, config) => postgresRateLimitCall('peek', key, config),
+  hit: (key, config) => postgresRateLimitCall('hit', key, config),
+};
+
+/**
+ * Store selected by RATE_LIMIT_STORE (server-only env var)
+ */
+export function getRateLimitStore(): RateLimitStore {
+  return process.env.RATE_LIMIT_STORE === 'postgres' ? postgresRateLimitStore : memoryRateLimitStore;
+}
+
+// ─── Checks ──────────────────────────────────────────────────────────────────
+
+function policyKey(route: string, policy: RateLimitPolicy, subject: RateLimitSubject): string | null {
+  switch (policy.scope) {
+    case 'ip':
+      return `${route}:ip:${subject.ip}`;
+    case 'studyCode':
+      return subject.studyCodeId ? `${route}:study-code:${subject.studyCodeId}` : null;
+    case 'global':
+      return `${route}:global`;
+  }
+}
+
+/**
+ * Check every policy for a route. Returns the first denial, or the most
+ * restrictive allowed result.
+ *
+ * Every policy is peeked before any hit is recorded, so a request denied by one
+ * policy doesn't use up the others (a denied burst from one study code must not
+ * drain the global limit).
+ */
+export async function checkRateLimit(
+  route: RateLimitRoute,
+  subject: RateLimitSubject
+): Promise<RateLimitResult> {
+  const store = getRateLimitStore();
+  const policies = (RATE_LIMIT_POLICIES[route] as RateLimitPolicy[])
+    .map((policy) => ({ policy, key: policyKey(route, policy, subject) }))
+    .filter((p): p is { policy: RateLimitPolicy; key: string } => p.key !== null);
+
+  for (const { policy, key } of policies) {
+    const policyResult = await store.peek(key, policy);
+    if (!policyResult.allowed) return policyResult;
+  }
+
+  // A concurrent request can fill a window between peek and hit; hit still
+  // enforces the limit, so the request is denied then
+  let result: RateLimitResult | null = null;
+  for (const { policy, key } of policies) {
+    const policyResult = await store.hit(key, policy);
+    if (!policyResult.allowed) return policyResult;
+    if (!result || policyResult.remaining < result.remaining) result = policyResult;
+  }
+
+  return result ?? { allowed: true, remaining: Infinity, resetAt: Date.now() };
+}
+
+/**
+ * Seconds until a denied request may be retried (for the Retry-After header)
+ */
+export function getRetryAfterSeconds(result: RateLimitResult): number {
+  return Math.max(1, Math.ceil((result.resetAt - Date.now()) / 1000));
+}
+
 export function getClientIp(request: Request): string {
   const forwarded = request.headers.get('x-forwarded-for');
   if (forwarded) {
@@ -0,0 +1,237 @@
+/**
+ * Rubrics
+ * Multi-criterion scoring for free-form writing (open_ended and sentence_building).
+ * A single holistic score doesn't match how teachers grade on paper, so for these
+ * writing types the semantic grader picks a level for each criterion, with a
+ * justification, and the answer's score is the weighted total:
+ *
+ *   score = Σ weight × level / MAX_LEVEL   (weights add up to 100)
+ *
+ * The breakdown is returned with the result (EvaluationResult.rubric) and stored
+ * with it (rubric_scores). Other writing types keep the holistic score.
+ */
+
+/** Levels run from 1 (lowest) to MAX_LEVEL; descriptors are listed from the top */
+export const MAX_LEVEL = 4;
+
+const MAX_JUSTIFICATION_LENGTH = 300;
+
+export interface RubricCriterion {
+  id: string;
+  label: string;
+  /** Share of the score (percent) */
+  weight: number;
+  /** What each level looks like, from MAX_LEVEL down to 1 */
+  levels: [string, string, string, string];
+}
+
+export interface Rubric {
+  writingType: RubricWritingType;
+  criteria: RubricCriterion[];
+}
+
+/** Grade for one criterion */
+export interface RubricCriterionScore {
+  criterion: string;
+  label: string;
+  weight: number;
+  level: number;
+  maxLevel: number;
+  descriptor: string;
+  justification: string;
+}
+
+/** Per-criterion grades and the weighted score they add up to */
+export interface RubricBreakdown {
+  writingType: RubricWritingType;
+  criteria: RubricCriterionScore[];
+  score: number; // 0-100
+}
+
+export type RubricWritingType = 'open_ended' | 'sentence_building';
+
+const SPELLING_ACCENTS: RubricCriterion = {
+  id: 'spelling_accents',
+  label: 'Spelling & accents',
+  weight: 20,
+  levels: [
+    'Spelling and accents are correct',
+    'One or two spelling or accent slips',
+    'Several spelling or accent mistakes',
+    'Frequent spelling or accent mistakes',
+  ],
+};
+
+export const RUBRICS: Record<RubricWritingType, Rubric> = {
+  open_ended: {
+    writingType: 'open_ended',
+    criteria: [
+      {
+        id: 'task_completion',
+        label: 'Task completion',
+        weight: 30,
+        levels: [
+          'Fully answers the question with relevant detail',
+          'Answers the question with minor gaps',
+          'Partly answers the question or drifts off topic',
+          'Does not answer the question',
+        ],
+      },
+      {
+        id: 'grammar',
+        label: 'Grammar',
+        weight: 30,
+        levels: [
+          'Accurate conjugation, agreement and word order, at most a minor slip',
+          'A few errors that don\'t obscure the meaning',
+          'Frequent errors; the meaning is sometimes unclear',
+          'Errors prevent understanding',
+        ],
+      },
+      {
+        id: 'vocabulary',
+        label: 'Vocabulary range',
+        weight: 20,
+        levels: [
+          'Varied, precise vocabulary for the level',
+          'Adequate vocabulary with some repetition',
+          'Limited vocabulary or some wrong or English words',
+          'Too little French vocabulary to express the idea',
+        ],
+      },
+      SPELLING_ACCENTS,
+    ],
+  },
+  sentence_building: {
+    writingType: 'sentence_building',
+    criteria: [
+      {
+        id: 'task_completion',
+        label: 'Task completion',
+        weight: 30,
+        levels: [
+          'Builds a meaningful sentence using every required element',
+          'Builds a sentence that misses or misuses one element',
+          'Builds a fragment or misses several elements',
+          'Does not build a sentence from the elements',
+        ],
+      },
+      {
+        id: 'grammar',
+        label: 'Grammar & word order',
+        weight: 40,
+        levels: [
+          'Correct conjugation, agreement and word order',
+          'One error that doesn\'t obscure the meaning',
+          'Several errors; the meaning is sometimes unclear',
+          'Errors prevent understanding',
+        ],
+      },
+      {
+        id: 'vocabulary',
+        label: 'Vocabulary',
+        weight: 10,
+        levels: [
+          'Precise word choice, beyond the required elements where needed',
+          'Appropriate word choice',
+          'Some wrong or English words',
+          'Mostly wrong or English words',
+        ],
+      },
+      SPELLING_ACCENTS,
+    ],
+  },
+};
+
+/**
+ * Rubric for a question type (writing type), or null for holistic scoring
+ */
+export function getRubric(questionType: string): Rubric | null {
+  return RUBRICS[questionType as RubricWritingType] ?? null;
+}
+
+/**
+ * Descriptor for a criterion level (1 to MAX_LEVEL)
+ */
+export function levelDescriptor(criterion: RubricCriterion, level: number): string {
+  return criterion.levels[MAX_LEVEL - level];
+}
+
+/**
+ * Rubric instructions for the semantic grader's prompt
+ */
+export function describeRubricForPrompt(rubric: Rubric): string {
+  const criteria = rubric.criteria.map((criterion) => [
+    `- ${criterion.id}: ${criterion.label} (${criterion.weight}% of the score)`,
+    ...criterion.levels.map((descriptor, i) => `  ${MAX_LEVEL - i}: ${descriptor}`),
+  ].join('\n'));
+
+  return `Rubric: score every criterion below with the level (1-${MAX_LEVEL}) whose descriptor best matches the answer, and justify it in one sentence in English that refers to the student's answer. The overall score is the weighted total of the levels (level ${MAX_LEVEL} = full marks), so set "score" to match it.
+${criteria.join('\n')}`;
+}
+
+/**
+ * JSON schema of the rubricScores field of a grader verdict
+ */
+export function rubricScoresSchema(rubric: Rubric) {
+  return {
+    type: 'array',
+    description: 'One entry per rubric criterion',
+    minItems: rubric.criteria.length,
+    maxItems: rubric.criteria.length,
+    items: {
+      type: 'object',
+      properties: {
+        criterion: { type: 'string', enum: rubric.criteria.map((criterion) => criterion.id) },
+        level: { type: 'integer', minimum: 1, maximum: MAX_LEVEL },
+        justification: { type: 'string', maxLength: MAX_JUSTIFICATION_LENGTH },
+      },
+      required: ['criterion', 'level', 'justification'],
+      additionalProperties: false,
+    },
+  };
+}
+
+/**
+ * Validate the grader's per-criterion scores against the rubric and compute the
+ * weighted score. Returns null (reason logged) unless every criterion has exactly
+ * one usable level; levels are clamped and justifications truncated.
+ */
+export function validateRubricScores(raw: unknown, rubric: Rubric): RubricBreakdown | null {
+  const reject = (reason: string) => {
+    console.warn(`⚠️  Rubric scores rejected: ${reason}`);
+    return null;
+  };
+
+  if (!Array.isArray(raw)) return reject('not a list');
+
+  const entries = new Map<string, { level: number; justification: string }>();
+  for (const entry of raw) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { criterion, level, justification } = entry as Record<string, unknown>;
+    if (typeof criterion !== 'string' || typeof level !== 'number' || !Number.isFinite(level)) continue;
+    if (entries.has(criterion)) return reject(`criterion ${criterion} scored twice`);
+    entries.set(criterion, {
+      level: Math.max(1, Math.min(MAX_LEVEL, Math.round(level))),
+      justification: typeof justification === 'string' ? justification.slice(0, MAX_JUSTIFICATION_LENGTH) : '',
+    });
+  }
+
+  const criteria: RubricCriterionScore[] = [];
+  for (const criterion of rubric.criteria) {
+    const entry = entries.get(criterion.id);
+    if (!entry) return reject(`criterion ${criterion.id} missing`);
+    criteria.push({
+      criterion: criterion.id,
+      label: criterion.label,
+      weight: criterion.weight,
+      level: entry.level,
+      maxLevel: MAX_LEVEL,
+      descriptor: levelDescriptor(criterion, entry.level),
+      justification: entry.justification,
+    });
+  }
+
+  const score = Math.round(criteria.reduce((sum, c) => sum + (c.weight * c.level) / MAX_LEVEL, 0));
+  return { writingType: rubric.writingType, criteria, score };
+}
@@ -0,0 +1,123 @@
+/**
+ * Spaced Repetition Schedulers
+ *
+ * Common interface for the algorithms that decide when a question is next
+ * due and how likely it is to be picked for a quiz. Both the per-answer
+ * state update (progress-tracking) and quiz generation weighting
+ * (question-loader) go through a Scheduler, so algorithms can be swapped
+ * without touching the quiz page.
+ *
+ * The scheduler is chosen per deployment (NEXT_PUBLIC_SCHEDULER) and can be
+ * overridden per student (study_codes.scheduler). Card state for every
+ * algorithm lives in the leitner_state table; each row records which
+ * scheduler last wrote it so retention can be compared between algorithms.
+ */
+
+import { FEATURES } from './feature-flags';
+import { leitnerScheduler } from './leitner';
+import { sm2Scheduler } from './sm2';
+
+export const SCHEDULER_IDS = ['leitner', 'sm2'] as const;
+export type SchedulerId = typeof SCHEDULER_IDS[number];
+
+/**
+ * Per-student per-question scheduling state (one leitner_state row)
+ */
+export interface CardState {
+  /** Scheduler that last updated this card */
+  scheduler: SchedulerId;
+  /** Mastery bucket 1-5 (native for Leitner, derived from interval for SM-2) */
+  box: number;
+  consecutiveCorrect: number;
+  /** Current review interval in days (SM-2); null for Leitner cards */
+  stability: number | null;
+  /** Ease factor (SM-2); null for Leitner cards */
+  difficulty: number | null;
+  lastReviewed: Date | null;
+  /** When the card is next due (null = legacy row, treated as due) */
+  nextReviewAt: Date | null;
+}
+
+/**
+ * Outcome of a single answer, as seen by a scheduler
+ */
+export interface ReviewInput {
+  isCorrect: boolean;
+  /** Evaluation score 0-100 when available (typed answers) */
+  score?: number;
+}
+
+export interface Scheduler {
+  id: SchedulerId;
+  label: string;
+  /** Compute the new card state after an answer (state is null for unseen cards) */
+  review(state: CardState | null, input: ReviewInput, now?: Date): CardState;
+  /** Selection weight during quiz generation (higher = more likely to appear) */
+  getWeight(state: CardState | null, now?: Date): number;
+}
+
+const SCHEDULERS: Record<SchedulerId, Scheduler> = {
+  leitner: leitnerScheduler,
+  sm2: sm2Scheduler,
+};
+
+/** Columns to select from leitner_state to build a CardState */
+export const CARD_STATE_COLUMNS =
+  'question_id, scheduler, box, consecutive_correct, stability, difficulty, last_reviewed, next_review_at';
+
+export function isSchedulerId(value: unknown): value is SchedulerId {
+  return typeof value === 'string' && (SCHEDULER_IDS as readonly string[]).includes(value);
+}
+
+/**
+ * Get a scheduler by ID, falling back to Leitner for unknown IDs
+ */
+export function getScheduler(id: string | null | undefined): Scheduler {
+  return isSchedulerId(id) ? SCHEDULERS[id] : SCHEDULERS.leitner;
+}
+
+/**
+ * Resolve the scheduler for a student: per-student override, else deployment default
+ */
+export function resolveScheduler(studentOverride?: string | null): Scheduler {
+  return getScheduler(isSchedulerId(studentOverride) ? studentOverride : FEATURES.SCHEDULER);
+}
+
+/**
+ * Whether a card is due for review.
+ * Unseen cards and legacy rows without a due date count as due.
+ */
+export function isDue(state: Pick<CardState, 'nextReviewAt'> | null, now: Date = new Date()): boolean {
+  if (!state || !state.nextReviewAt) return true;
+  return state.nextReviewAt.getTime() <= now.getTime();
+}
+
+/**
+ * Build a CardState from a leitner_state row
+ */
+export function cardStateFromRow(row: Record<string, unknown>): CardState {
+  return {
+    scheduler: isSchedulerId(row.scheduler) ? row.scheduler : 'leitner',
+    box: (row.box as number) ?? 1,
+    consecutiveCorrect: (row.consecutive_correct as number) ?? 0,
+    stability: (row.stability as number | null) ?? null,
+    difficulty: (row.difficulty as number | null) ?? null,
+    lastReviewed: row.last_reviewed ? new Date(row.last_reviewed as string) : null,
+    nextReviewAt: row.next_review_at ? new Date(row.next_review_at as string) : null,
+  };
+}
+
+/**
+ * Convert a CardState to leitner_state columns (without the row keys)
+ */
+export function cardStateToRow(state: CardState) {
+  return {
+    scheduler: state.scheduler,
+    box: state.box,
+    consecutive_correct: state.consecutiveCorrect,
+    stability: state.stability,
+    difficulty: state.difficulty,
+    last_reviewed: (state.lastReviewed ?? new Date()).toISOString(),
+    next_review_at: state.nextReviewAt ? state.nextReviewAt.toISOString() : null,
+  };
+}
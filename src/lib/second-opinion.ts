@@ -0,0 +1,105 @@
+/**
+ * Second Opinion
+ * Escalation for low-confidence Semantic API (Tier 4) grades: when Claude's
+ * self-reported confidence is below SECOND_OPINION.CONFIDENCE_THRESHOLD, the same
+ * evaluation prompt is sent to a model from another provider (Mistral by default,
+ * routed by model-router.ts) — the grading counterpart of the pipeline's
+ * cross-provider audit.
+ *
+ * Reconciliation policy:
+ *   - Agree (same isCorrect): the primary verdict stands.
+ *   - Disagree: the lenient verdict wins (the answer counts as correct, with the
+ *     passing grader's score and feedback) and the result is flagged for teacher
+ *     review (needsTeacherReview): a recorded answer is held in the teacher grading
+ *     queue (teacher-grading.ts) until a teacher grades it.
+ *   - Second opinion unavailable (API error, bad JSON): the primary verdict stands, unflagged.
+ */
+
+import { SECOND_OPINION, CORRECTNESS_THRESHOLDS } from './feature-flags';
+import { complete, detectProvider, isProviderConfigured } from './model-router';
+import { validateGraderResponse } from './grader-output';
+import type { EvaluationResult } from './answer-evaluation';
+
+/**
+ * Verdict from the second grader (only what reconciliation needs)
+ */
+export interface SecondOpinion {
+  model: string;
+  isCorrect: boolean;
+  score: number; // 0-100
+  confidence?: number; // 0-100, self-reported
+  feedback: string;
+}
+
+/**
+ * Whether a primary verdict with this confidence should be escalated.
+ * False when the escalation is disabled or misconfigured.
+ */
+export function needsSecondOpinion(confidence: number | undefined, primaryModel: string): boolean {
+  if (SECOND_OPINION.CONFIDENCE_THRESHOLD <= 0 || confidence === undefined) return false;
+  if (confidence >= SECOND_OPINION.CONFIDENCE_THRESHOLD) return false;
+
+  if (detectProvider(SECOND_OPINION.MODEL) === detectProvider(primaryModel)) {
+    console.warn(`⚠️  Second opinion skipped: ${SECOND_OPINION.MODEL} is from the same provider as ${primaryModel}`);
+    return false;
+  }
+  if (!isProviderConfigured(SECOND_OPINION.MODEL)) {
+    console.warn(`⚠️  Second opinion skipped: no API key for ${SECOND_OPINION.MODEL}`);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Grade with the second-opinion model, using the primary grader's prompt.
+ * Returns null if the call fails or the response isn't a usable verdict.
+ */
+export async function getSecondOpinion(prompt: string): Promise<SecondOpinion | null> {
+  try {
+    const text = await complete(SECOND_OPINION.MODEL, prompt, { temperature: 0.3, json: true });
+    const verdict = validateGraderResponse(JSON.parse(text));
+
+    if (!verdict) {
+      console.error('Second opinion returned an unusable verdict:', text.substring(0, 200));
+      return null;
+    }
+
+    return {
+      model: SECOND_OPINION.MODEL,
+      isCorrect: verdict.isCorrect,
+      score: verdict.score,
+      confidence: verdict.confidenceScore,
+      feedback: verdict.feedback,
+    };
+  } catch (error) {
+    console.error('Second opinion error:', error);
+    return null;
+  }
+}
+
+/**
+ * Combine the primary verdict with the second opinion (see policy above)
+ */
+export function reconcileVerdicts(
+  primary: EvaluationResult,
+  second: SecondOpinion
+): { evaluation: EvaluationResult; agreed: boolean } {
+  if (primary.isCorrect === second.isCorrect) {
+    return { evaluation: primary, agreed: true };
+  }
+
+  const reviewNote = 'Your teacher will double-check this grade.';
+  const lenient: EvaluationResult = primary.isCorrect
+    ? primary
+    : {
+        ...primary,
+        isCorrect: true,
+        score: Math.max(second.score, CORRECTNESS_THRESHOLDS.CLAUDE_API_PASS),
+        feedback: second.feedback || primary.feedback,
+      };
+
+  return {
+    evaluation: { ...lenient, feedback: `${lenient.feedback} ${reviewNote}` },
+    agreed: false,
+  };
+}
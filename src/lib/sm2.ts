@@ -0,0 +1,122 @@
+/**
+ * SM-2 Spaced Repetition Scheduler
+ *
+ * Classic SuperMemo-2: each card keeps an ease factor (stored as
+ * `difficulty`) and a current interval in days (stored as `stability`).
+ * Answers are graded on SM-2's 0-5 quality scale, derived from the
+ * evaluation score when one is available:
+ * - Quality >= 3 → interval grows (1 day, 6 days, then interval × ease)
+ * - Quality < 3  → repetitions reset, card is due again immediately
+ *
+ * A Leitner-style box is derived from the interval so progress views and
+ * selection weights stay comparable across schedulers.
+ */
+
+import type { CardState, ReviewInput, Scheduler } from './scheduler';
+import {
+  BOX_REVIEW_INTERVALS_DAYS,
+  BOX_WEIGHTS,
+  MAX_BOX,
+  MAX_OVERDUE_BOOST,
+  UNSEEN_QUESTION_WEIGHT,
+} from './leitner';
+
+/** Starting ease factor for new cards */
+export const SM2_INITIAL_EASE = 2.5;
+
+/** Lower bound for the ease factor */
+export const SM2_MIN_EASE = 1.3;
+
+/** Minimum quality that counts as a successful recall */
+export const SM2_PASS_QUALITY = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Map an answer to SM-2 quality (0-5).
+ * MCQ/TF answers have no score, so they map to 5 (correct) or 1 (wrong).
+ */
+export function getQuality({ isCorrect, score }: ReviewInput): number {
+  if (score === undefined) return isCorrect ? 5 : 1;
+
+  if (isCorrect) {
+    if (score >= 95) return 5;
+    if (score >= 85) return 4;
+    return 3;
+  }
+
+  if (score >= 50) return 2;
+  if (score >= 25) return 1;
+  return 0;
+}
+
+/**
+ * Update the ease factor for a given quality (SM-2 formula)
+ */
+export function updateEase(ease: number, quality: number): number {
+  const delta = 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02);
+  return Math.max(SM2_MIN_EASE, ease + delta);
+}
+
+/**
+ * Derive a 1-5 box from an interval, using the Leitner box intervals as cut-offs
+ */
+export function boxForInterval(intervalDays: number): number {
+  let box = 1;
+  for (let b = 1; b <= MAX_BOX; b++) {
+    if (intervalDays >= BOX_REVIEW_INTERVALS_DAYS[b]) box = b;
+  }
+  return box;
+}
+
+/**
+ * SM-2 scheduler
+ */
+export const sm2Scheduler: Scheduler = {
+  id: 'sm2',
+  label: 'SM-2',
+
+  review(state: CardState | null, input: ReviewInput, now: Date = new Date()): CardState {
+    const quality = getQuality(input);
+    const ease = updateEase(state?.difficulty ?? SM2_INITIAL_EASE, quality);
+    // Cards migrated from Leitner start from their box interval
+    const previousInterval = state?.stability ?? BOX_REVIEW_INTERVALS_DAYS[state?.box ?? 1] ?? 0;
+    const repetitions = state?.consecutiveCorrect ?? 0;
+
+    let interval: number;
+    let newRepetitions: number;
+    if (quality < SM2_PASS_QUALITY) {
+      // SM-2 repeats failed items within the same session
+      interval = 0;
+      newRepetitions = 0;
+    } else {
+      newRepetitions = repetitions + 1;
+      if (newRepetitions === 1) interval = 1;
+      else if (newRepetitions === 2) interval = 6;
+      else interval = Math.round(Math.max(previousInterval, 1) * ease);
+    }
+
+    return {
+      scheduler: 'sm2',
+      box: boxForInterval(interval),
+      consecutiveCorrect: newRepetitions,
+      stability: interval,
+      difficulty: ease,
+      lastReviewed: now,
+      nextReviewAt: new Date(now.getTime() + interval * DAY_MS),
+    };
+  },
+
+  getWeight(state: CardState | null, now: Date = new Date()): number {
+    if (state === null) return UNSEEN_QUESTION_WEIGHT;
+
+    const interval = state.stability ?? BOX_REVIEW_INTERVALS_DAYS[state.box] ?? 0;
+    const baseWeight = BOX_WEIGHTS[boxForInterval(interval)];
+    if (!state.nextReviewAt) return baseWeight;
+
+    const overdueDays = (now.getTime() - state.nextReviewAt.getTime()) / DAY_MS;
+    if (overdueDays <= 0) return baseWeight;
+
+    return baseWeight * (1 + Math.min(overdueDays / Math.max(interval, 1), MAX_OVERDUE_BOOST));
+  },
+};
@@ -7,7 +7,7 @@
  * Word lists are stored server-side in study_code_source_words (never in source).
  */
 
-import { supabase, isSupabaseAvailable, StudyCode, QuizHistory, ConceptMastery } from './supabase';
+import { supabase, isSupabaseAvailable, StudyCode, QuizHistory, ConceptMastery, ErrorPattern, TeacherFeedback } from './supabase';
 
 // Local storage key for study code
 const STUDY_CODE_KEY = 'french_study_code';
@@ -305,3 +305,75 @@ export async function getWeakTopics(code: string): Promise<ConceptMastery[]> {
     return [];
   }
 }
+
+/**
+ * Get recurring mistake categories for a study code (seen at least twice, most frequent first)
+ */
+export async function getErrorPatterns(code: string): Promise<ErrorPattern[]> {
+  if (!isSupabaseAvailable()) return [];
+
+  try {
+    // First get the study code ID
+    const { data: studyCodeData } = await supabase!
+      .from('study_codes')
+      .select('id')
+      .eq('code', code)
+      .single();
+
+    if (!studyCodeData) return [];
+
+    const { data, error } = await supabase!
+      .from('error_patterns')
+      .select('*')
+      .eq('study_code_id', studyCodeData.id)
+      .gte('occurrences', 2)
+      .order('occurrences', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching error patterns:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Failed to get error patterns:', error);
+    return [];
+  }
+}
+
+/**
+ * Get teacher-graded answers for a study code (most recent first): answers still
+ * waiting for the teacher's grade, and graded ones with the teacher's comment
+ */
+export async function getTeacherFeedback(code: string, limit = 10): Promise<TeacherFeedback[]> {
+  if (!isSupabaseAvailable()) return [];
+
+  try {
+    // First get the study code ID
+    const { data: studyCodeData } = await supabase!
+      .from('study_codes')
+      .select('id')
+      .eq('code', code)
+      .single();
+
+    if (!studyCodeData) return [];
+
+    const { data, error } = await supabase!
+      .from('question_results')
+      .select('id, topic, user_answer, is_correct, score, teacher_grade, teacher_comment, attempted_at')
+      .eq('study_code_id', studyCodeData.id)
+      .or('teacher_grade.eq.pending,teacher_comment.not.is.null')
+      .order('attempted_at', { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error('Error fetching teacher feedback:', error);
+      return [];
+    }
+
+    return (data || []) as TeacherFeedback[];
+  } catch (error) {
+    console.error('Failed to get teacher feedback:', error);
+    return [];
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
+import type { ErrorCategory } from './error-taxonomy';
 
 // Supabase configuration from environment variables
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -40,6 +41,7 @@ export interface StudyCode {
   total_questions: number;
   correct_answers: number;
   wrong_answer_countdown: number | null;
+  scheduler: string | null;
 }
 
 export interface QuizHistory {
@@ -63,3 +65,22 @@ export interface ConceptMastery {
   last_attempted: string;
 }
 
+export interface TeacherFeedback {
+  id: string;
+  topic: string;
+  user_answer: string | null;
+  is_correct: boolean;
+  score: number | null;
+  teacher_grade: 'pending' | 'graded';
+  teacher_comment: string | null;
+  attempted_at: string;
+}
+
+export interface ErrorPattern {
+  study_code_id: string;
+  category: ErrorCategory;
+  occurrences: number;
+  questions_affected: number;
+  last_seen: string;
+}
+
@@ -0,0 +1,227 @@
+/**
+ * Teacher Grading
+ * Some typed answers shouldn't be trusted to automated grading at all. Answers to
+ * questions with teacher_graded set, and every typed answer in a quiz mode listed in
+ * TEACHER_GRADED_MODES (server-only, comma-separated, e.g. "assessment"), are still
+ * graded by the tier chain, but that verdict is only a suggestion: the recorded
+ * answer is marked teacher_grade = 'pending' and copied into teacher_grades (by a
+ * trigger, in the same transaction), where it waits in the admin grading queue.
+ * Pending answers don't count as correct in quiz or study code totals, don't update
+ * spaced repetition state, can't be appealed and aren't re-graded after answer key changes.
+ *
+ * Any typed answer whose automated verdict can't be trusted (needsTeacherReview) is
+ * held the same way: answers with instruction-like text (prompt-injection.ts) and
+ * answers the Semantic API and the second opinion disagree on (second-opinion.ts).
+ *
+ * Grading an answer (accepting the suggestion or overriding the score, with an
+ * optional comment for the student):
+ *   1. apply_teacher_grade closes the queue entry and updates the recorded
+ *      quiz_session_answers and question_results rows in one transaction, so the
+ *      quiz score and study_codes totals follow
+ *   2. Replays the student's leitner_state for the question
+ * The comment is shown on the student's progress page.
+ */
+
+import { supabaseAdmin, isSupabaseAdminAvailable } from './supabase-admin';
+import { CORRECTNESS_THRESHOLDS, FEATURES } from './feature-flags';
+import { replayReviews } from './progress-server';
+import type { EvaluationTrace } from './answer-evaluation';
+import type { RubricBreakdown } from './rubrics';
+import type { Question } from '@/types';
+
+export type TeacherGradeStatus = 'pending' | 'graded';
+
+/** Why an answer was held: teacher-graded question or mode, or an untrusted automated verdict */
+export type TeacherGradeReason = 'teacher_graded' | 'flagged_input' | 'graders_disagreed';
+
+export const TEACHER_GRADE_STATUSES: readonly TeacherGradeStatus[] = ['pending', 'graded'];
+
+/** Maximum length of the teacher's comment */
+export const MAX_TEACHER_COMMENT_LENGTH = 1000;
+
+/**
+ * Held answer with its question and the automated suggestion, as shown in the
+ * admin grading queue
+ */
+export interface TeacherGradeItem {
+  id: string;
+  status: TeacherGradeStatus;
+  reason: TeacherGradeReason;
+  userAnswer: string;
+  suggestion: {
+    isCorrect: boolean;
+    score: number | null;
+    feedback: string | null;
+    rubric: RubricBreakdown | null;
+    evaluationTrace: EvaluationTrace | null;
+  };
+  /** Final grade (null while pending) */
+  isCorrect: boolean | null;
+  score: number | null;
+  teacherComment: string | null;
+  createdAt: string;
+  gradedAt: string | null;
+  studyCode: string | null;
+  /** Admin label of the student's study code (used as their class) */
+  classLabel: string | null;
+  question: {
+    id: string;
+    question: string;
+    correctAnswer: string;
+    unitId: string;
+    type: string;
+    writingType: string | null;
+    difficulty: string;
+    topic: string;
+  };
+}
+
+/**
+ * Teacher's decision: keep the suggested verdict, or set the score
+ * (CORRECTNESS_THRESHOLDS.CLAUDE_API_PASS and above counts as correct)
+ */
+export type TeacherGradeDecision =
+  | { action: 'accept'; comment?: string | null }
+  | { action: 'override'; score: number; comment?: string | null };
+
+export function isTeacherGradeStatus(value: unknown): value is TeacherGradeStatus {
+  return typeof value === 'string' && (TEACHER_GRADE_STATUSES as readonly string[]).includes(value);
+}
+
+/** Quiz modes whose typed answers are all teacher graded, read once per process */
+let teacherGradedModes: Set<string> | null = null;
+
+function getTeacherGradedModes(): Set<string> {
+  teacherGradedModes ??= new Set(
+    (process.env.TEACHER_GRADED_MODES || '')
+      .split(',')
+      .map((mode) => mode.trim())
+      .filter(Boolean)
+  );
+  return teacherGradedModes;
+}
+
+/**
+ * Whether an answer to this question in this quiz mode is held for the teacher's grade
+ * (typed answers only: MCQ/TF have nothing to judge)
+ */
+export function isTeacherGraded(question: Question, mode: string): boolean {
+  if (question.type !== 'writing' && question.type !== 'fill-in-blank') return false;
+  return question.teacherGraded === true || getTeacherGradedModes().has(mode);
+}
+
+function gradeReason(trace: EvaluationTrace | null): TeacherGradeReason {
+  if (trace?.evaluationTier === 'flagged_input') return 'flagged_input';
+  if (trace?.secondOpinion && !trace.secondOpinion.agreed) return 'graders_disagreed';
+  return 'teacher_graded';
+}
+
+/**
+ * List held answers with their questions (pending oldest first, so the queue is worked
+ * in order; graded newest first)
+ */
+export async function listTeacherGrades(status: TeacherGradeStatus = 'pending'): Promise<TeacherGradeItem[]> {
+  if (!isSupabaseAdminAvailable()) return [];
+
+  const { data, error } = await supabaseAdmin!
+    .from('teacher_grades')
+    .select(`
+      id, status, user_answer, suggested_is_correct, suggested_score, evaluation_trace, feedback, rubric_scores,
+      is_correct, score, teacher_comment, created_at, graded_at,
+      study_codes(code, admin_label),
+      questions!inner(id, question, correct_answer, unit_id, type, writing_type, difficulty, topic)
+    `)
+    .eq('status', status)
+    .order('created_at', { ascending: status === 'pending' });
+
+  if (error) {
+    throw new Error(`Failed to load teacher grading queue: ${error.message}`);
+  }
+
+  return (data || []).map((row) => {
+    const studyCode = row.study_codes as unknown as { code: string; admin_label: string | null } | null;
+    const question = row.questions as unknown as Record<string, unknown>;
+    return {
+      id: row.id,
+      status: row.status,
+      reason: gradeReason(row.evaluation_trace),
+      userAnswer: row.user_answer,
+      suggestion: {
+        isCorrect: row.suggested_is_correct,
+        score: row.suggested_score,
+        feedback: row.feedback,
+        rubric: row.rubric_scores,
+        evaluationTrace: row.evaluation_trace,
+      },
+      isCorrect: row.is_correct,
+      score: row.score,
+      teacherComment: row.teacher_comment,
+      createdAt: row.created_at,
+      gradedAt: row.graded_at,
+      studyCode: studyCode?.code ?? null,
+      classLabel: studyCode?.admin_label ?? null,
+      question: {
+        id: question.id as string,
+        question: question.question as string,
+        correctAnswer: question.correct_answer as string,
+        unitId: question.unit_id as string,
+        type: question.type as string,
+        writingType: (question.writing_type as string | null) ?? null,
+        difficulty: question.difficulty as string,
+        topic: question.topic as string,
+      },
+    };
+  });
+}
+
+/**
+ * Grade a held answer and correct everything derived from the suggested verdict.
+ * Returns false if it doesn't exist or was already graded.
+ */
+export async function gradeAnswer(gradeId: string, decision: TeacherGradeDecision): Promise<boolean> {
+  const { data: grade } = await supabaseAdmin!
+    .from('teacher_grades')
+    .select('suggested_is_correct, suggested_score')
+    .eq('id', gradeId)
+    .eq('status', 'pending')
+    .maybeSingle();
+
+  if (!grade) return false;
+
+  const score = decision.action === 'accept'
+    ? grade.suggested_score ?? (grade.suggested_is_correct ? 100 : 0)
+    : Math.max(0, Math.min(100, Math.round(decision.score)));
+  const isCorrect = decision.action === 'accept'
+    ? grade.suggested_is_correct as boolean
+    : score >= CORRECTNESS_THRESHOLDS.CLAUDE_API_PASS;
+  const teacherComment = decision.comment?.trim().slice(0, MAX_TEACHER_COMMENT_LENGTH) || null;
+
+  // Only grades a pending answer, so two teachers can't grade the same one
+  const { data: graded, error } = await supabaseAdmin!
+    .rpc('apply_teacher_grade', {
+      p_grade_id: gradeId,
+      p_is_correct: isCorrect,
+      p_score: score,
+      p_teacher_comment: teacherComment,
+    })
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to apply teacher grade: ${error.message}`);
+  }
+  if (!graded) return false;
+
+  const { question_id: questionId, study_code_id: studyCodeId } = graded as { question_id: string; study_code_id: string | null };
+
+  // The grade is recorded either way; replaying again later rebuilds the same state
+  if (studyCodeId && FEATURES.LEITNER_MODE) {
+    try {
+      await replayReviews(studyCodeId, questionId);
+    } catch (replayError) {
+      console.error(`Failed to replay reviews after grading ${gradeId}:`, replayError);
+    }
+  }
+
+  console.log(`🧑‍🏫 Answer ${gradeId} graded ${isCorrect ? 'correct' : 'wrong'} (${score}) by the teacher`);
+  return true;
+}
@@ -3,8 +3,9 @@
  * Functions for French writing questions with typed answers
  */
 
-import { getFuzzyLogicThreshold, CORRECTNESS_THRESHOLDS } from './feature-flags';
-import type { EvaluationResult } from '@/app/api/evaluate-writing/route';
+import { getFuzzyThresholds, type FuzzyThresholds } from './feature-flags';
+import type { BlankResult, EvaluationResult } from './answer-evaluation';
+import type { EvaluationPolicy } from './evaluation-policy';
 
 /**
  * Normalize text for comparison (remove accents, lowercase, trim)
@@ -88,13 +89,19 @@ export function calculateSimilarity(str1: string, str2: string): number {
 /**
  * Evaluate answer using fuzzy logic with confidence scoring
  * Returns null if confidence is too low (should fall back to API)
+ * thresholds defaults to the shipped settings for the difficulty; candidate
+ * settings are passed when replaying answers (scripts/audit-tune-grading-thresholds.ts)
+ * With policy.accents 'ignore', an exact match with accent mistakes is perfect; other
+ * policy rules are applied by the caller (see evaluation-policy.ts)
  */
 export function fuzzyEvaluateAnswer(
   userAnswer: string,
   correctAnswer: string | null,
   acceptableVariations: string[],
   difficulty: 'beginner' | 'intermediate' | 'advanced',
-  questionType: string
+  questionType: string,
+  thresholds: FuzzyThresholds = getFuzzyThresholds(difficulty),
+  policy?: EvaluationPolicy
 ): EvaluationResult | null {
   // Can't fuzzy evaluate open-ended questions without a correct answer
   if (!correctAnswer) {
@@ -105,8 +112,10 @@ export function fuzzyEvaluateAnswer(
   const normalizedUser = normalizePunctuationSpacing(normalizeText(userAnswer));
   const normalizedCorrect = normalizePunctuationSpacing(normalizeText(correctAnswer));
 
+  const ignoreAccents = policy?.accents === 'ignore';
+
   if (normalizedUser === normalizedCorrect) {
-    const hasAccents = hasCorrectAccents(userAnswer, correctAnswer);
+    const hasAccents = ignoreAccents || hasCorrectAccents(userAnswer, correctAnswer);
     return {
       isCorrect: true,
       score: hasAccents ? 100 : 98,
@@ -132,7 +141,7 @@ export function fuzzyEvaluateAnswer(
 
     // Exact match against variation
     if (normalizedVariation === normalizedUser) {
-      const hasAccents = hasCorrectAccents(userAnswer, variation);
+      const hasAccents = ignoreAccents || hasCorrectAccents(userAnswer, variation);
       return {
         isCorrect: true,
         score: hasAccents ? 98 : 96,
@@ -154,7 +163,7 @@ export function fuzzyEvaluateAnswer(
 
     // Similarity match against variation (catches typos in acceptable answers)
     const variationSimilarity = calculateSimilarity(userAnswer, variation);
-    if (variationSimilarity >= 0.95) {
+    if (variationSimilarity >= thresholds.minorTypo / 100) {
       const hasAccents = hasCorrectAccents(userAnswer, variation);
       return {
         isCorrect: true,
@@ -177,7 +186,7 @@ export function fuzzyEvaluateAnswer(
 
   // Calculate similarity for fuzzy matching
   const similarity = calculateSimilarity(userAnswer, correctAnswer);
-  const threshold = getFuzzyLogicThreshold(difficulty) / 100; // Convert percentage to decimal
+  const threshold = thresholds.fuzzyLogic / 100; // Convert percentage to decimal
 
   // If similarity is below threshold, return null (need API evaluation)
   if (similarity < threshold) {
@@ -192,23 +201,23 @@ export function fuzzyEvaluateAnswer(
   let feedback = '';
   let correctnessBand = '';
 
-  if (similarityPercent >= CORRECTNESS_THRESHOLDS.MINOR_TYPO) {
+  if (similarityPercent >= thresholds.minorTypo) {
     // Very close - probably a minor typo
     isCorrect = true;
     feedback = 'Presque parfait ! Attention aux petites erreurs.';
-    correctnessBand = `${CORRECTNESS_THRESHOLDS.MINOR_TYPO}%+ (minor typo)`;
-  } else if (similarityPercent >= CORRECTNESS_THRESHOLDS.BEGINNER_PASS) {
+    correctnessBand = `${thresholds.minorTypo}%+ (minor typo)`;
+  } else if (similarityPercent >= thresholds.beginnerPass) {
     // Close - some errors but recognizable
     isCorrect = difficulty === 'beginner'; // Only count as correct for beginners
     feedback = isCorrect
       ? 'Bon effort ! Quelques petites erreurs à corriger.'
       : 'Pas mal, mais il y a des erreurs à corriger.';
-    correctnessBand = `${CORRECTNESS_THRESHOLDS.BEGINNER_PASS}-${CORRECTNESS_THRESHOLDS.MINOR_TYPO - 1}% (beginner pass only)`;
+    correctnessBand = `${thresholds.beginnerPass}-${thresholds.minorTypo - 1}% (beginner pass only)`;
   } else {
     // Below beginner pass threshold
     isCorrect = false;
     feedback = 'Vous êtes sur la bonne voie, mais il y a plusieurs erreurs.';
-    correctnessBand = `below ${CORRECTNESS_THRESHOLDS.BEGINNER_PASS}% (incorrect)`;
+    correctnessBand = `below ${thresholds.beginnerPass}% (incorrect)`;
   }
 
   const hasAccents = hasCorrectAccents(userAnswer, correctAnswer);
@@ -231,52 +240,135 @@ export function fuzzyEvaluateAnswer(
   };
 }
 
+
+/** Blank placeholder in fill-in-blank question text (3+ underscores) */
+const BLANK_PATTERN = /_{3,}/g;
+
+/**
+ * Count the blanks in a fill-in-blank question ("Tu _____ le football" → 1)
+ */
+export function countBlanks(questionText: string): number {
+  return (questionText.match(BLANK_PATTERN) || []).length;
+}
+
 /**
- * Evaluate a writing answer using the API
+ * Split a multi-blank answer ("aimes, préfère") into one answer per blank.
+ * Returns null if the number of parts doesn't match the blank count.
  */
-export async function evaluateWritingAnswer(
-  question: string,
+export function splitBlankAnswers(answer: string, blankCount: number): string[] | null {
+  const parts = answer.split(',').map((part) => part.trim());
+  return parts.length === blankCount ? parts : null;
+}
+
+/**
+ * Join per-blank answers into the stored answer format ("aimes, préfère")
+ */
+export function joinBlankAnswers(answers: string[]): string {
+  return answers.map((answer) => answer.trim()).join(', ');
+}
+
+/**
+ * Grade a multi-blank fill-in-blank answer blank by blank, with partial credit.
+ *
+ * Each blank is matched against its part of the answer key and of every acceptable
+ * variation with the same number of parts. The overall score is the average blank
+ * score; the answer is correct only if every blank is.
+ *
+ * Blanks hold short, constrained answers, so a blank below the fuzzy threshold is
+ * graded wrong rather than sent to the Semantic API (valid alternatives belong in
+ * acceptable_variations). Without fuzzy logic, only exact blank matches are graded
+ * locally; anything else returns null.
+ *
+ * Returns null if the answer or key don't split into blankCount parts.
+ */
+export function evaluateBlanks(
   userAnswer: string,
-  correctAnswer: string | null,
-  questionType: string,
-  difficulty: string,
-  acceptableVariations: string[] = [],
-  studyCodeId?: string,
-  superuserOverride?: boolean | null
-): Promise<EvaluationResult> {
-  try {
-    const response = await fetch('/api/evaluate-writing', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        question,
-        userAnswer,
-        correctAnswer,
-        questionType,
-        difficulty,
-        acceptableVariations,
-        studyCodeId,
-        superuserOverride
-      })
-    });
-
-    if (!response.ok) {
-      throw new Error('Evaluation API request failed');
+  correctAnswer: string,
+  acceptableVariations: string[],
+  difficulty: 'beginner' | 'intermediate' | 'advanced',
+  blankCount: number,
+  useFuzzyLogic = true,
+  policy?: EvaluationPolicy
+): EvaluationResult | null {
+  const userParts = splitBlankAnswers(userAnswer, blankCount);
+  const correctParts = splitBlankAnswers(correctAnswer, blankCount);
+  if (!userParts || !correctParts) return null;
+
+  const variationParts = acceptableVariations
+    .map((variation) => splitBlankAnswers(variation, blankCount))
+    .filter((parts): parts is string[] => parts !== null);
+
+  const blanks: BlankResult[] = [];
+  for (let i = 0; i < blankCount; i++) {
+    const userPart = userParts[i];
+    const correctPart = correctParts[i];
+
+    if (!userPart) {
+      blanks.push({ userAnswer: '', correctAnswer: correctPart, isCorrect: false, score: 0, hasCorrectAccents: false });
+      continue;
     }
 
-    const result: EvaluationResult = await response.json();
-    return result;
-  } catch (error) {
-    console.error('Error evaluating answer:', error);
+    const alternatives = variationParts.map((parts) => parts[i]);
+    const result = fuzzyEvaluateAnswer(userPart, correctPart, alternatives, difficulty, 'fill_in_blank', getFuzzyThresholds(difficulty), policy);
+    const isExact = result?._matchInfo?.matchedSimilarity === 100;
 
-    // Fallback evaluation
-    return {
-      isCorrect: false,
-      score: 0,
-      hasCorrectAccents: false,
-      feedback: 'Unable to evaluate. Please try again.',
-      corrections: {}
-    };
+    if (!useFuzzyLogic && !isExact) return null;
+
+    blanks.push(result
+      ? {
+        userAnswer: userPart,
+        correctAnswer: result.correctedAnswer ?? correctPart,
+        isCorrect: result.isCorrect,
+        score: result.score,
+        hasCorrectAccents: result.hasCorrectAccents,
+      }
+      : {
+        userAnswer: userPart,
+        correctAnswer: correctPart,
+        isCorrect: false,
+        score: Math.round(calculateSimilarity(userPart, correctPart) * 100),
+        hasCorrectAccents: hasCorrectAccents(userPart, correctPart),
+      });
+  }
+
+  const correctCount = blanks.filter((b) => b.isCorrect).length;
+  const score = Math.round(blanks.reduce((sum, b) => sum + b.score, 0) / blankCount);
+  const allCorrect = correctCount === blankCount;
+  const allAccents = blanks.every((b) => b.hasCorrectAccents);
+
+  let feedback: string;
+  if (allCorrect) {
+    feedback = allAccents
+      ? 'Parfait ! Tous les blancs sont corrects.'
+      : 'Correct ! Attention aux accents pour être parfait.';
+  } else if (correctCount > 0) {
+    feedback = `${correctCount}/${blankCount} blancs corrects. Regardez les blancs marqués en rouge.`;
+  } else {
+    feedback = 'Aucun blanc n\'est correct. Vérifiez chaque réponse.';
   }
-}
 
+  const suggestions = blanks
+    .map((b, i) => (b.isCorrect ? null : `Blanc ${i + 1} : "${b.correctAnswer}"`))
+    .filter((s): s is string => s !== null);
+  const accents = blanks
+    .map((b, i) => (b.isCorrect && !b.hasCorrectAccents ? `Blanc ${i + 1} : "${b.correctAnswer}"` : null))
+    .filter((s): s is string => s !== null);
+
+  return {
+    isCorrect: allCorrect,
+    score,
+    hasCorrectAccents: allAccents,
+    feedback,
+    corrections: {
+      ...(suggestions.length > 0 && { suggestions }),
+      ...(accents.length > 0 && { accents }),
+    },
+    correctedAnswer: allCorrect ? undefined : joinBlankAnswers(blanks.map((b) => (b.isCorrect ? b.userAnswer : b.correctAnswer))),
+    blanks,
+    _matchInfo: {
+      matchedAgainst: 'primary_answer',
+      matchedSimilarity: score,
+      evaluationReason: `Per-blank grading: ${correctCount}/${blankCount} blanks correct`,
+    },
+  };
+}
@@ -1,3 +1,5 @@
+import type { EvaluationPolicyOverride } from '@/lib/evaluation-policy';
+
 export interface Topic {
   name: string;
   headings: string[];
@@ -27,8 +29,21 @@ export interface Question {
   acceptableVariations?: string[];
   hints?: string[];
   requiresCompleteSentence?: boolean;
+  /** Grading strictness for this question (see evaluation-policy.ts) */
+  evaluationPolicy?: EvaluationPolicyOverride;
+  /** Typed answers are held for the teacher's grade (see teacher-grading.ts) */
+  teacherGraded?: boolean;
 }
 
+/** Answer key fields withheld from the browser until a question has been answered */
+export type AnswerKeyField = 'correctAnswer' | 'acceptableVariations' | 'explanation';
+
+/** Answer key revealed by the server after an answer is submitted */
+export type AnswerReveal = Pick<Question, AnswerKeyField>;
+
+/** Question as held by the quiz page: the answer key is only present once revealed */
+export type QuizQuestion = Omit<Question, AnswerKeyField> & Partial<AnswerReveal>;
+
 export interface LearningResource {
   id: string;
   unit_id: string;
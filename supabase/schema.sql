@@ -14,7 +14,8 @@ CREATE TABLE study_codes (
   total_quizzes INTEGER DEFAULT 0,
   total_questions INTEGER DEFAULT 0,
   correct_answers INTEGER DEFAULT 0,
-  wrong_answer_countdown INTEGER DEFAULT NULL -- Per-user override for wrong answer countdown (NULL = global default)
+  wrong_answer_countdown INTEGER DEFAULT NULL, -- Per-user override for wrong answer countdown (NULL = global default)
+  scheduler TEXT DEFAULT NULL CHECK (scheduler IS NULL OR scheduler IN ('leitner', 'sm2')) -- Per-user spaced repetition scheduler (NULL = deployment default)
   -- No code_format constraint: validation happens in application layer
   -- Supports both old "study-xxxxxxxx" and new "adjective animal" formats
 );
@@ -85,6 +86,8 @@ CREATE TABLE questions (
   writing_type TEXT CHECK (writing_type IS NULL OR writing_type IN ('translation', 'conjugation', 'open_ended', 'question_formation', 'sentence_building')),
   hints TEXT[] DEFAULT '{}',                 -- Progressive hints (optional)
   requires_complete_sentence BOOLEAN DEFAULT FALSE,
+  evaluation_policy JSONB,                   -- Writing/fill-in-blank: grading strictness override (NULL = difficulty default)
+  teacher_graded BOOLEAN NOT NULL DEFAULT FALSE, -- Writing/fill-in-blank: answers are held for the teacher's grade
 
   -- Metadata for tracking/deduplication
   content_hash TEXT,                         -- MD5 hash for deduplication
@@ -93,6 +96,7 @@ CREATE TABLE questions (
   generated_by TEXT,                         -- Model ID that generated this question (per-question for multi-model support)
   quality_status TEXT DEFAULT 'pending' CHECK (quality_status IN ('active', 'flagged', 'pending')),
   audit_metadata JSONB,                      -- Stage 3 audit & remediation diagnostic snapshot
+  answer_key_version INTEGER NOT NULL DEFAULT 1, -- Bumped when correct_answer/acceptable_variations/evaluation_policy change
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -109,6 +113,34 @@ CREATE INDEX idx_questions_unit_topic_diff ON questions(unit_id, topic, difficul
 CREATE INDEX idx_questions_unit_type ON questions(unit_id, type);
 CREATE INDEX idx_questions_quality_status ON questions(quality_status);
 
+-- Question Bank Version Table
+-- Single-row counter bumped on every questions change; app servers use it to invalidate cached question banks
+CREATE TABLE question_bank_version (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  version BIGINT NOT NULL DEFAULT 0,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO question_bank_version DEFAULT VALUES;
+
+ALTER TABLE question_bank_version ENABLE ROW LEVEL SECURITY;
+-- No anon policies → invisible to public API, only accessible via service role
+
+-- Rate Limit Hits Table
+-- Request timestamps for the shared sliding-window rate limiter (RATE_LIMIT_STORE=postgres)
+CREATE TABLE rate_limit_hits (
+  id BIGSERIAL PRIMARY KEY,
+  key TEXT NOT NULL,
+  hit_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL -- End of the hit's window (idle keys are purged after it)
+);
+
+CREATE INDEX idx_rate_limit_hits_key_hit_at ON rate_limit_hits(key, hit_at);
+CREATE INDEX idx_rate_limit_hits_expires_at ON rate_limit_hits(expires_at);
+
+ALTER TABLE rate_limit_hits ENABLE ROW LEVEL SECURITY;
+-- No anon policies → invisible to public API, only accessible via service role
+
 -- Question Results Table
 -- Stores individual question attempts for detailed analytics
 CREATE TABLE question_results (
@@ -122,26 +154,47 @@ CREATE TABLE question_results (
   user_answer TEXT,
   correct_answer TEXT NOT NULL,
   score INTEGER DEFAULT NULL CHECK (score IS NULL OR (score >= 0 AND score <= 100)),
+  evaluation_trace JSONB,                    -- How the answer was graded (tier, similarity, confidence, model)
+  feedback TEXT,
+  corrections JSONB,                         -- { grammar, spelling, accents, suggestions }
+  corrected_answer TEXT,
+  error_categories TEXT[],                   -- Error taxonomy categories (accent, elision, article_gender, ...)
+  rubric_scores JSONB,                       -- Per-criterion rubric grades (open_ended, sentence_building)
+  provisional BOOLEAN NOT NULL DEFAULT false, -- Graded by best fuzzy match while the Semantic API was down
+  teacher_grade TEXT CHECK (teacher_grade IS NULL OR teacher_grade IN ('pending', 'graded')), -- Held for the teacher (NULL = graded automatically)
+  teacher_comment TEXT,                      -- Teacher's comment, shown on the student's progress page
+  answer_key_version INTEGER,                -- questions.answer_key_version the verdict was graded against (NULL = legacy)
   attempted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
 CREATE INDEX idx_question_results_study_code ON question_results(study_code_id);
 CREATE INDEX idx_question_results_topic ON question_results(study_code_id, topic);
+CREATE INDEX idx_question_results_question ON question_results(question_id);
+CREATE INDEX idx_question_results_evaluation_tier ON question_results((evaluation_trace->>'evaluationTier'));
+CREATE INDEX idx_question_results_needs_review ON question_results(attempted_at)
+  WHERE (evaluation_trace->>'needsTeacherReview')::boolean;
+CREATE INDEX idx_question_results_provisional ON question_results(quiz_history_id, question_id) WHERE provisional;
+CREATE INDEX idx_question_results_teacher_comment ON question_results(study_code_id, attempted_at DESC) WHERE teacher_comment IS NOT NULL;
 
 -- Leitner Spaced Repetition State
 -- Tracks per-student per-question box assignments for adaptive question selection
 CREATE TABLE leitner_state (
   study_code_id UUID NOT NULL REFERENCES study_codes(id) ON DELETE CASCADE,
   question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  scheduler TEXT NOT NULL DEFAULT 'leitner' CHECK (scheduler IN ('leitner', 'sm2')),
   box INTEGER NOT NULL DEFAULT 1 CHECK (box >= 1 AND box <= 5),
   consecutive_correct INTEGER NOT NULL DEFAULT 0,
+  stability REAL,     -- SM-2: current review interval in days
+  difficulty REAL,    -- SM-2: ease factor
   last_reviewed TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  next_review_at TIMESTAMP WITH TIME ZONE,  -- Set by the scheduler on every review; NULL = legacy row
 
   PRIMARY KEY (study_code_id, question_id)
 );
 
 CREATE INDEX idx_leitner_state_study_code ON leitner_state(study_code_id);
 CREATE INDEX idx_leitner_state_box ON leitner_state(study_code_id, box);
+CREATE INDEX idx_leitner_state_due ON leitner_state(study_code_id, next_review_at);
 
 -- Units Table
 -- Course unit definitions with topic/heading mappings (source of truth for unit structure)
@@ -200,6 +253,157 @@ CREATE INDEX idx_study_code_source_words_category_letter
 ALTER TABLE study_code_source_words ENABLE ROW LEVEL SECURITY;
 -- No anon policies → invisible to public API, only accessible via service role
 
+-- Quiz Sessions Table
+-- Server-side quiz state: the question set is fixed at start so answers are graded against stored keys
+CREATE TABLE quiz_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  study_code_id UUID REFERENCES study_codes(id) ON DELETE CASCADE,
+  unit_id TEXT NOT NULL,
+  difficulty TEXT,
+  mode TEXT NOT NULL,
+  question_ids UUID[] NOT NULL,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  quiz_history_id UUID REFERENCES quiz_history(id) ON DELETE SET NULL
+);
+
+CREATE INDEX idx_quiz_sessions_study_code ON quiz_sessions(study_code_id, started_at DESC);
+
+-- Quiz Session Answers Table
+-- First graded answer per question in a session (retries are graded but not recorded)
+CREATE TABLE quiz_session_answers (
+  session_id UUID NOT NULL REFERENCES quiz_sessions(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  user_answer TEXT NOT NULL,
+  is_correct BOOLEAN NOT NULL,
+  score INTEGER CHECK (score >= 0 AND score <= 100),
+  evaluation_trace JSONB,
+  feedback TEXT,
+  corrections JSONB,
+  corrected_answer TEXT,
+  error_categories TEXT[],
+  rubric_scores JSONB,
+  provisional BOOLEAN NOT NULL DEFAULT false,
+  teacher_grade TEXT CHECK (teacher_grade IS NULL OR teacher_grade IN ('pending', 'graded')),
+  teacher_comment TEXT,
+  answered_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  PRIMARY KEY (session_id, question_id)
+);
+
+CREATE INDEX idx_quiz_session_answers_provisional ON quiz_session_answers(answered_at) WHERE provisional;
+
+ALTER TABLE quiz_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quiz_session_answers ENABLE ROW LEVEL SECURITY;
+-- No anon policies → invisible to public API, only accessible via service role
+
+-- Question Result Regrades Table
+-- Audit trail of verdicts changed by re-grading after an answer key change,
+-- plus borderline results queued for the semantic tier
+CREATE TABLE question_result_regrades (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  question_result_id UUID NOT NULL REFERENCES question_results(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  study_code_id UUID REFERENCES study_codes(id) ON DELETE CASCADE,
+  answer_key_version INTEGER NOT NULL,       -- Answer key the result was re-graded against
+  old_is_correct BOOLEAN NOT NULL,
+  old_score INTEGER,
+  new_is_correct BOOLEAN,                    -- NULL while queued
+  new_score INTEGER,
+  evaluation_tier TEXT,                      -- Tier that produced the new verdict
+  status TEXT NOT NULL CHECK (status IN ('applied', 'queued', 'unchanged')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_question_result_regrades_result ON question_result_regrades(question_result_id);
+CREATE INDEX idx_question_result_regrades_queued ON question_result_regrades(created_at) WHERE status = 'queued';
+
+ALTER TABLE question_result_regrades ENABLE ROW LEVEL SECURITY;
+-- No anon policies → invisible to public API, only accessible via service role
+
+-- Answer Appeals Table
+-- Student disputes of a recorded wrong answer ("I think I was right"), reviewed by a teacher
+CREATE TABLE answer_appeals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES quiz_sessions(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  study_code_id UUID REFERENCES study_codes(id) ON DELETE CASCADE,
+  user_answer TEXT NOT NULL,                 -- Copied from quiz_session_answers
+  score INTEGER,
+  evaluation_trace JSONB,
+  feedback TEXT,
+  student_comment TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+
+  UNIQUE (session_id, question_id)
+);
+
+CREATE INDEX idx_answer_appeals_status ON answer_appeals(status, created_at);
+
+ALTER TABLE answer_appeals ENABLE ROW LEVEL SECURITY;
+-- No anon policies → invisible to public API, only accessible via service role
+
+-- Teacher Grades Table
+-- Typed answers held for a teacher's grade (teacher-graded questions or quiz modes),
+-- with the automated verdict as a suggestion
+CREATE TABLE teacher_grades (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  session_id UUID NOT NULL REFERENCES quiz_sessions(id) ON DELETE CASCADE,
+  question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  study_code_id UUID REFERENCES study_codes(id) ON DELETE CASCADE,
+  user_answer TEXT NOT NULL,                 -- Copied from quiz_session_answers
+  suggested_is_correct BOOLEAN NOT NULL,     -- Automated verdict shown to the student meanwhile
+  suggested_score INTEGER,
+  evaluation_trace JSONB,
+  feedback TEXT,
+  rubric_scores JSONB,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'graded')),
+  is_correct BOOLEAN,                        -- Final grade (NULL while pending)
+  score INTEGER CHECK (score IS NULL OR (score >= 0 AND score <= 100)),
+  teacher_comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  graded_at TIMESTAMP WITH TIME ZONE,
+
+  UNIQUE (session_id, question_id)
+);
+
+CREATE INDEX idx_teacher_grades_status ON teacher_grades(status, created_at);
+
+ALTER TABLE teacher_grades ENABLE ROW LEVEL SECURITY;
+-- No anon policies → invisible to public API, only accessible via service role
+
+-- Evaluation Cache Table
+-- Semantic API verdicts for typed answers, reused when another student submits the same normalized answer
+CREATE TABLE evaluation_cache (
+  question_id UUID NOT NULL REFERENCES questions(id) ON DELETE CASCADE,
+  answer_hash TEXT NOT NULL,                 -- SHA-256 of the normalized answer
+  evaluator_version TEXT NOT NULL,           -- Model + prompt version (EVALUATOR_VERSION)
+  normalized_answer TEXT NOT NULL,
+  evaluation JSONB NOT NULL,                 -- EvaluationResult without metadata
+  claude_confidence INTEGER,
+  second_opinion JSONB,                      -- Cross-provider verdict for low-confidence entries (SecondOpinion)
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  PRIMARY KEY (question_id, answer_hash, evaluator_version)
+);
+
+ALTER TABLE evaluation_cache ENABLE ROW LEVEL SECURITY;
+-- No anon policies → invisible to public API, only accessible via service role
+
+-- Class Evaluation Policies Table
+-- Evaluation policy override per class (students share a class through their study code's admin_label)
+CREATE TABLE class_evaluation_policies (
+  class_label TEXT PRIMARY KEY,              -- Matches study_codes.admin_label
+  policy JSONB NOT NULL DEFAULT '{}',        -- ClassEvaluationPolicy, optionally per difficulty
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE class_evaluation_policies ENABLE ROW LEVEL SECURITY;
+-- No anon policies → invisible to public API, only accessible via service role
+
 -- Concept Mastery View
 -- Aggregates performance by topic for each student
 CREATE VIEW concept_mastery WITH (security_invoker = true) AS
@@ -229,6 +433,20 @@ FROM concept_mastery
 WHERE mastery_percentage < 70 AND total_attempts >= 1
 ORDER BY mastery_percentage ASC;
 
+-- Error Patterns View
+-- Recurring kinds of mistakes per student (from the error taxonomy), most frequent first
+CREATE VIEW error_patterns WITH (security_invoker = true) AS
+SELECT
+  qr.study_code_id,
+  category,
+  COUNT(*) as occurrences,
+  COUNT(DISTINCT qr.question_id) as questions_affected,
+  MAX(qr.attempted_at) as last_seen
+FROM question_results qr
+CROSS JOIN LATERAL unnest(qr.error_categories) AS category
+GROUP BY qr.study_code_id, category
+ORDER BY occurrences DESC;
+
 -- Strong Topics View
 -- Identifies topics where student has mastered (>= 85% accuracy)
 CREATE VIEW strong_topics WITH (security_invoker = true) AS
@@ -283,6 +501,178 @@ AFTER INSERT ON quiz_history
 FOR EACH ROW
 EXECUTE FUNCTION update_last_active();
 
+-- Function to keep study_codes.total_quizzes in sync with quiz_history
+-- Statement-level: one UPDATE per student per statement, regardless of row count
+CREATE OR REPLACE FUNCTION sync_study_code_quiz_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE study_codes sc
+    SET total_quizzes = COALESCE(sc.total_quizzes, 0) + d.quizzes
+    FROM (
+      SELECT study_code_id, COUNT(*) AS quizzes
+      FROM new_rows
+      GROUP BY study_code_id
+    ) d
+    WHERE sc.id = d.study_code_id;
+  ELSE
+    UPDATE study_codes sc
+    SET total_quizzes = GREATEST(COALESCE(sc.total_quizzes, 0) - d.quizzes, 0)
+    FROM (
+      SELECT study_code_id, COUNT(*) AS quizzes
+      FROM old_rows
+      GROUP BY study_code_id
+    ) d
+    WHERE sc.id = d.study_code_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+CREATE TRIGGER sync_study_code_quiz_stats_insert
+AFTER INSERT ON quiz_history
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION sync_study_code_quiz_stats();
+
+CREATE TRIGGER sync_study_code_quiz_stats_delete
+AFTER DELETE ON quiz_history
+REFERENCING OLD TABLE AS old_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION sync_study_code_quiz_stats();
+
+-- Function to keep study_codes.total_questions/correct_answers in sync with question_results
+-- Applies the net delta of the statement (inserted rows minus deleted rows).
+-- Answers waiting for the teacher's grade don't count as correct until graded.
+CREATE OR REPLACE FUNCTION sync_study_code_question_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE study_codes sc
+    SET total_questions = COALESCE(sc.total_questions, 0) + d.questions,
+        correct_answers = COALESCE(sc.correct_answers, 0) + d.correct
+    FROM (
+      SELECT study_code_id, COUNT(*) AS questions,
+        COUNT(*) FILTER (WHERE is_correct AND teacher_grade IS DISTINCT FROM 'pending') AS correct
+      FROM new_rows
+      GROUP BY study_code_id
+    ) d
+    WHERE sc.id = d.study_code_id;
+  END IF;
+
+  IF TG_OP IN ('DELETE', 'UPDATE') THEN
+    UPDATE study_codes sc
+    SET total_questions = GREATEST(COALESCE(sc.total_questions, 0) - d.questions, 0),
+        correct_answers = GREATEST(COALESCE(sc.correct_answers, 0) - d.correct, 0)
+    FROM (
+      SELECT study_code_id, COUNT(*) AS questions,
+        COUNT(*) FILTER (WHERE is_correct AND teacher_grade IS DISTINCT FROM 'pending') AS correct
+      FROM old_rows
+      GROUP BY study_code_id
+    ) d
+    WHERE sc.id = d.study_code_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+CREATE TRIGGER sync_study_code_question_stats_insert
+AFTER INSERT ON question_results
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION sync_study_code_question_stats();
+
+CREATE TRIGGER sync_study_code_question_stats_update
+AFTER UPDATE ON question_results
+REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION sync_study_code_question_stats();
+
+CREATE TRIGGER sync_study_code_question_stats_delete
+AFTER DELETE ON question_results
+REFERENCING OLD TABLE AS old_rows
+FOR EACH STATEMENT
+EXECUTE FUNCTION sync_study_code_question_stats();
+
+-- Function to recompute study_codes counters from quiz_history/question_results
+-- Returns only students whose counters drifted; fixes them unless apply_fix is false
+CREATE OR REPLACE FUNCTION repair_study_code_stats(apply_fix BOOLEAN DEFAULT true)
+RETURNS TABLE(
+  study_code_id UUID,
+  code TEXT,
+  stored_quizzes INTEGER,
+  actual_quizzes INTEGER,
+  stored_questions INTEGER,
+  actual_questions INTEGER,
+  stored_correct INTEGER,
+  actual_correct INTEGER
+) AS $$
+  WITH drifted AS (
+    SELECT
+      sc.id AS study_code_id,
+      sc.code,
+      COALESCE(sc.total_quizzes, 0) AS stored_quizzes,
+      COALESCE(qh.quizzes, 0)::INTEGER AS actual_quizzes,
+      COALESCE(sc.total_questions, 0) AS stored_questions,
+      COALESCE(qr.questions, 0)::INTEGER AS actual_questions,
+      COALESCE(sc.correct_answers, 0) AS stored_correct,
+      COALESCE(qr.correct, 0)::INTEGER AS actual_correct
+    FROM study_codes sc
+    LEFT JOIN (
+      SELECT study_code_id, COUNT(*) AS quizzes
+      FROM quiz_history
+      GROUP BY study_code_id
+    ) qh ON qh.study_code_id = sc.id
+    LEFT JOIN (
+      SELECT study_code_id, COUNT(*) AS questions,
+        COUNT(*) FILTER (WHERE is_correct AND teacher_grade IS DISTINCT FROM 'pending') AS correct
+      FROM question_results
+      GROUP BY study_code_id
+    ) qr ON qr.study_code_id = sc.id
+    WHERE COALESCE(sc.total_quizzes, 0) <> COALESCE(qh.quizzes, 0)
+       OR COALESCE(sc.total_questions, 0) <> COALESCE(qr.questions, 0)
+       OR COALESCE(sc.correct_answers, 0) <> COALESCE(qr.correct, 0)
+  ),
+  fixed AS (
+    UPDATE study_codes sc
+    SET total_quizzes = d.actual_quizzes,
+        total_questions = d.actual_questions,
+        correct_answers = d.actual_correct
+    FROM drifted d
+    WHERE sc.id = d.study_code_id
+      AND apply_fix
+  )
+  SELECT * FROM drifted;
+$$ LANGUAGE sql
+SET search_path = public;
+
+-- Function to aggregate class-wide stats for the admin dashboard
+CREATE OR REPLACE FUNCTION get_classwide_stats()
+RETURNS TABLE(
+  total_students BIGINT,
+  total_quizzes BIGINT,
+  total_questions BIGINT,
+  total_correct BIGINT,
+  active_students_last_7_days BIGINT,
+  active_students_last_30_days BIGINT
+) AS $$
+  SELECT
+    COUNT(*)::BIGINT,
+    COALESCE(SUM(total_quizzes), 0)::BIGINT,
+    COALESCE(SUM(total_questions), 0)::BIGINT,
+    COALESCE(SUM(correct_answers), 0)::BIGINT,
+    COUNT(*) FILTER (WHERE last_active_at >= NOW() - INTERVAL '7 days')::BIGINT,
+    COUNT(*) FILTER (WHERE last_active_at >= NOW() - INTERVAL '30 days')::BIGINT
+  FROM study_codes;
+$$ LANGUAGE sql STABLE
+SET search_path = public;
+
+-- Admin-only functions: not callable with the anon key
+REVOKE EXECUTE ON FUNCTION repair_study_code_stats(BOOLEAN) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION get_classwide_stats() FROM PUBLIC, anon;
+
 -- Function to calculate overall stats
 CREATE OR REPLACE FUNCTION calculate_overall_stats(code_id UUID)
 RETURNS TABLE(
@@ -325,6 +715,426 @@ CREATE TRIGGER questions_updated_at
   FOR EACH ROW
   EXECUTE FUNCTION update_questions_updated_at();
 
+-- Function to bump the question bank version (invalidates app-side question caches)
+CREATE OR REPLACE FUNCTION bump_question_bank_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE question_bank_version
+  SET version = version + 1,
+      changed_at = NOW();
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+-- Statement-level: one bump per write, regardless of row count
+-- (every UPDATE changes updated_at, so quality_status changes are covered)
+CREATE TRIGGER questions_bank_version
+  AFTER INSERT OR UPDATE OR DELETE OR TRUNCATE ON questions
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION bump_question_bank_version();
+
+-- Sliding-window rate limit check: records a hit for p_key if it is under the limit.
+-- The advisory lock serializes concurrent hits on the same key across app instances.
+CREATE OR REPLACE FUNCTION rate_limit_hit(p_key TEXT, p_window_ms INTEGER, p_max_requests INTEGER)
+RETURNS TABLE(allowed BOOLEAN, remaining INTEGER, reset_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  window_start TIMESTAMP WITH TIME ZONE := NOW() - make_interval(secs => p_window_ms / 1000.0);
+  hit_count INTEGER;
+  oldest_hit TIMESTAMP WITH TIME ZONE;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_key));
+
+  DELETE FROM rate_limit_hits
+  WHERE key = p_key AND hit_at < window_start;
+
+  SELECT COUNT(*), MIN(hit_at) INTO hit_count, oldest_hit
+  FROM rate_limit_hits
+  WHERE key = p_key;
+
+  IF hit_count >= p_max_requests THEN
+    RETURN QUERY SELECT false, 0, oldest_hit + make_interval(secs => p_window_ms / 1000.0);
+    RETURN;
+  END IF;
+
+  INSERT INTO rate_limit_hits (key, expires_at)
+  VALUES (p_key, NOW() + make_interval(secs => p_window_ms / 1000.0));
+
+  RETURN QUERY SELECT true, p_max_requests - hit_count - 1, NOW() + make_interval(secs => p_window_ms / 1000.0);
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+-- Sliding-window rate limit check without recording a hit. The app peeks every
+-- policy of a route first and calls rate_limit_hit only if all of them allow the
+-- request, so a request denied by one policy doesn't use up the others.
+CREATE OR REPLACE FUNCTION rate_limit_peek(p_key TEXT, p_window_ms INTEGER, p_max_requests INTEGER)
+RETURNS TABLE(allowed BOOLEAN, remaining INTEGER, reset_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+  window_start TIMESTAMP WITH TIME ZONE := NOW() - make_interval(secs => p_window_ms / 1000.0);
+  hit_count INTEGER;
+  oldest_hit TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT COUNT(*), MIN(hit_at) INTO hit_count, oldest_hit
+  FROM rate_limit_hits
+  WHERE key = p_key AND hit_at >= window_start;
+
+  IF hit_count >= p_max_requests THEN
+    RETURN QUERY SELECT false, 0, oldest_hit + make_interval(secs => p_window_ms / 1000.0);
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT true, p_max_requests - hit_count, NOW() + make_interval(secs => p_window_ms / 1000.0);
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+-- Delete hits whose window has passed. rate_limit_hit only prunes the key it is
+-- called for, so keys that stop receiving requests are cleared here (called
+-- periodically by the app). Returns the number of hits deleted.
+CREATE OR REPLACE FUNCTION purge_rate_limit_hits()
+RETURNS INTEGER AS $$
+DECLARE
+  purged INTEGER;
+BEGIN
+  DELETE FROM rate_limit_hits WHERE expires_at < NOW();
+  GET DIAGNOSTICS purged = ROW_COUNT;
+  RETURN purged;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+-- Server-only: the anon key must not be able to burn other clients' limits
+REVOKE EXECUTE ON FUNCTION rate_limit_peek(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION rate_limit_hit(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION purge_rate_limit_hits() FROM PUBLIC, anon;
+
+-- Function to bump questions.answer_key_version when the answer key changes
+-- (question_results graded against an older version are picked up by re-grading)
+CREATE OR REPLACE FUNCTION bump_answer_key_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.answer_key_version = OLD.answer_key_version + 1;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+CREATE TRIGGER questions_answer_key_version
+  BEFORE UPDATE OF correct_answer, acceptable_variations, evaluation_policy ON questions
+  FOR EACH ROW
+  WHEN (OLD.correct_answer IS DISTINCT FROM NEW.correct_answer
+    OR OLD.acceptable_variations IS DISTINCT FROM NEW.acceptable_variations
+    OR OLD.evaluation_policy IS DISTINCT FROM NEW.evaluation_policy)
+  EXECUTE FUNCTION bump_answer_key_version();
+
+-- Function to stamp new question_results with the answer key version they were graded against
+CREATE OR REPLACE FUNCTION set_question_result_answer_key_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.answer_key_version IS NULL THEN
+    SELECT answer_key_version INTO NEW.answer_key_version
+    FROM questions
+    WHERE id = NEW.question_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+CREATE TRIGGER question_results_answer_key_version
+  BEFORE INSERT ON question_results
+  FOR EACH ROW
+  EXECUTE FUNCTION set_question_result_answer_key_version();
+
+-- Question results graded against an outdated (or unknown) answer key.
+-- Results already queued for the semantic tier at the current version are skipped.
+CREATE OR REPLACE FUNCTION get_stale_question_results(p_question_id UUID DEFAULT NULL, p_limit INTEGER DEFAULT 500)
+RETURNS TABLE(
+  id UUID,
+  question_id UUID,
+  study_code_id UUID,
+  user_answer TEXT,
+  is_correct BOOLEAN,
+  score INTEGER,
+  answer_key_version INTEGER
+) AS $$
+  SELECT qr.id, qr.question_id, qr.study_code_id, qr.user_answer, qr.is_correct, qr.score, q.answer_key_version
+  FROM question_results qr
+  JOIN questions q ON q.id = qr.question_id
+  WHERE qr.answer_key_version IS DISTINCT FROM q.answer_key_version
+    AND qr.teacher_grade IS NULL
+    AND (p_question_id IS NULL OR qr.question_id = p_question_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM question_result_regrades r
+      WHERE r.question_result_id = qr.id
+        AND r.status = 'queued'
+        AND r.answer_key_version = q.answer_key_version
+    )
+  ORDER BY qr.question_id, qr.attempted_at
+  LIMIT p_limit;
+$$ LANGUAGE sql STABLE
+SET search_path = public;
+
+-- Apply a re-graded verdict: updates the result and its quiz score, resolves any
+-- queued semantic-tier entry, and records changed verdicts in question_result_regrades.
+-- study_codes totals follow via the question_results triggers. Returns true if the verdict changed.
+CREATE OR REPLACE FUNCTION apply_question_result_regrade(
+  p_result_id UUID,
+  p_answer_key_version INTEGER,
+  p_is_correct BOOLEAN,
+  p_score INTEGER,
+  p_evaluation_tier TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  old_result question_results%ROWTYPE;
+  verdict_changed BOOLEAN;
+  resolved_count INTEGER;
+BEGIN
+  SELECT * INTO old_result FROM question_results WHERE id = p_result_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  verdict_changed := old_result.is_correct IS DISTINCT FROM p_is_correct
+    OR old_result.score IS DISTINCT FROM p_score;
+
+  UPDATE question_results
+  SET is_correct = p_is_correct,
+      score = p_score,
+      answer_key_version = p_answer_key_version
+  WHERE id = p_result_id;
+
+  IF old_result.is_correct IS DISTINCT FROM p_is_correct AND old_result.quiz_history_id IS NOT NULL THEN
+    UPDATE quiz_history
+    SET correct_answers = GREATEST(correct_answers + CASE WHEN p_is_correct THEN 1 ELSE -1 END, 0),
+        score_percentage = CASE WHEN total_questions > 0
+          THEN ROUND(GREATEST(correct_answers + CASE WHEN p_is_correct THEN 1 ELSE -1 END, 0) * 100.0 / total_questions)
+          ELSE 0 END
+    WHERE id = old_result.quiz_history_id;
+  END IF;
+
+  UPDATE question_result_regrades
+  SET new_is_correct = p_is_correct,
+      new_score = p_score,
+      evaluation_tier = p_evaluation_tier,
+      status = CASE WHEN verdict_changed THEN 'applied' ELSE 'unchanged' END,
+      resolved_at = NOW()
+  WHERE question_result_id = p_result_id AND status = 'queued';
+  GET DIAGNOSTICS resolved_count = ROW_COUNT;
+
+  IF resolved_count = 0 AND verdict_changed THEN
+    INSERT INTO question_result_regrades (
+      question_result_id, question_id, study_code_id, answer_key_version,
+      old_is_correct, old_score, new_is_correct, new_score, evaluation_tier, status, resolved_at
+    ) VALUES (
+      p_result_id, old_result.question_id, old_result.study_code_id, p_answer_key_version,
+      old_result.is_correct, old_result.score, p_is_correct, p_score, p_evaluation_tier, 'applied', NOW()
+    );
+  END IF;
+
+  RETURN verdict_changed;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+-- Re-grading functions: service role only
+REVOKE EXECUTE ON FUNCTION get_stale_question_results(UUID, INTEGER) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION apply_question_result_regrade(UUID, INTEGER, BOOLEAN, INTEGER, TEXT) FROM PUBLIC, anon;
+
+-- Function to queue answers held for the teacher's grade. Runs in the transaction
+-- that records the answer, so a held answer is never left out of the grading queue.
+CREATE OR REPLACE FUNCTION queue_teacher_grade()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO teacher_grades (
+    session_id, question_id, study_code_id, user_answer,
+    suggested_is_correct, suggested_score, evaluation_trace, feedback, rubric_scores
+  )
+  SELECT NEW.session_id, NEW.question_id, qs.study_code_id, NEW.user_answer,
+    NEW.is_correct, NEW.score, NEW.evaluation_trace, NEW.feedback, NEW.rubric_scores
+  FROM quiz_sessions qs
+  WHERE qs.id = NEW.session_id
+  ON CONFLICT (session_id, question_id) DO NOTHING;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+CREATE TRIGGER quiz_session_answers_queue_teacher_grade
+  AFTER INSERT ON quiz_session_answers
+  FOR EACH ROW
+  WHEN (NEW.teacher_grade = 'pending')
+  EXECUTE FUNCTION queue_teacher_grade();
+
+-- Apply a teacher's grade in one transaction: closes the queue entry and updates the
+-- recorded answer and, once the session is finished, its question result (through
+-- apply_question_result_regrade, so the regrade log and study_codes totals follow).
+-- The quiz score is recounted, since it left the answer out while it was pending.
+-- Returns the graded answer, or no row if the grade doesn't exist or was already graded.
+CREATE OR REPLACE FUNCTION apply_teacher_grade(
+  p_grade_id UUID,
+  p_is_correct BOOLEAN,
+  p_score INTEGER,
+  p_teacher_comment TEXT
+)
+RETURNS TABLE(session_id UUID, question_id UUID, study_code_id UUID) AS $$
+DECLARE
+  grade teacher_grades%ROWTYPE;
+  history_id UUID;
+  result_id UUID;
+BEGIN
+  SELECT * INTO grade FROM teacher_grades tg
+  WHERE tg.id = p_grade_id AND tg.status = 'pending'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE teacher_grades
+  SET status = 'graded',
+      is_correct = p_is_correct,
+      score = p_score,
+      teacher_comment = p_teacher_comment,
+      graded_at = NOW()
+  WHERE id = p_grade_id;
+
+  -- The teacher's grade is final: no longer provisional even if the suggestion was
+  UPDATE quiz_session_answers qsa
+  SET is_correct = p_is_correct,
+      score = p_score,
+      teacher_grade = 'graded',
+      teacher_comment = p_teacher_comment,
+      provisional = false
+  WHERE qsa.session_id = grade.session_id AND qsa.question_id = grade.question_id;
+
+  -- Unfinished sessions copy the graded answer into question_results when they finish
+  SELECT qs.quiz_history_id INTO history_id FROM quiz_sessions qs WHERE qs.id = grade.session_id;
+
+  IF history_id IS NOT NULL THEN
+    UPDATE question_results qr
+    SET teacher_grade = 'graded',
+        teacher_comment = p_teacher_comment,
+        provisional = false
+    WHERE qr.quiz_history_id = history_id AND qr.question_id = grade.question_id
+    RETURNING qr.id INTO result_id;
+
+    IF result_id IS NOT NULL THEN
+      PERFORM apply_question_result_regrade(
+        result_id,
+        (SELECT q.answer_key_version FROM questions q WHERE q.id = grade.question_id),
+        p_is_correct,
+        p_score,
+        'teacher'
+      );
+
+      UPDATE quiz_history qh
+      SET correct_answers = c.correct,
+          score_percentage = CASE WHEN qh.total_questions > 0
+            THEN ROUND(c.correct * 100.0 / qh.total_questions)
+            ELSE 0 END
+      FROM (
+        SELECT COUNT(*) FILTER (WHERE qr.is_correct AND qr.teacher_grade IS DISTINCT FROM 'pending') AS correct
+        FROM question_results qr
+        WHERE qr.quiz_history_id = history_id
+      ) c
+      WHERE qh.id = history_id;
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT grade.session_id, grade.question_id, grade.study_code_id;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+-- Teacher grading: service role only
+REVOKE EXECUTE ON FUNCTION apply_teacher_grade(UUID, BOOLEAN, INTEGER, TEXT) FROM PUBLIC, anon;
+
+-- Accept an answer appeal in one transaction: closes the appeal, appends p_variation
+-- to the question's acceptable_variations (NULL when an equivalent answer is already
+-- accepted), and marks the recorded answer and, once the session is finished, its
+-- question result correct with the quiz score. study_codes totals follow via the
+-- question_results triggers. Returns the appeal, or no row if it doesn't exist or was
+-- already resolved.
+CREATE OR REPLACE FUNCTION accept_answer_appeal(p_appeal_id UUID, p_variation TEXT)
+RETURNS TABLE(question_id UUID, study_code_id UUID, user_answer TEXT) AS $$
+DECLARE
+  appeal answer_appeals%ROWTYPE;
+  history_id UUID;
+  flipped_count INTEGER;
+BEGIN
+  SELECT * INTO appeal FROM answer_appeals a
+  WHERE a.id = p_appeal_id AND a.status = 'pending'
+  FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE answer_appeals
+  SET status = 'accepted', resolved_at = NOW()
+  WHERE id = p_appeal_id;
+
+  IF p_variation IS NOT NULL THEN
+    UPDATE questions q
+    SET acceptable_variations = array_append(COALESCE(q.acceptable_variations, '{}'), p_variation)
+    WHERE q.id = appeal.question_id
+      AND NOT (p_variation = ANY(COALESCE(q.acceptable_variations, '{}')));
+  END IF;
+
+  UPDATE quiz_session_answers qsa
+  SET is_correct = true, score = 100
+  WHERE qsa.session_id = appeal.session_id AND qsa.question_id = appeal.question_id;
+
+  -- Unfinished sessions copy the corrected answer into question_results when they finish
+  SELECT qs.quiz_history_id INTO history_id FROM quiz_sessions qs WHERE qs.id = appeal.session_id;
+
+  IF history_id IS NOT NULL THEN
+    UPDATE question_results qr
+    SET is_correct = true, score = 100
+    WHERE qr.quiz_history_id = history_id
+      AND qr.question_id = appeal.question_id
+      AND NOT qr.is_correct;
+    GET DIAGNOSTICS flipped_count = ROW_COUNT;
+
+    IF flipped_count > 0 THEN
+      UPDATE quiz_history qh
+      SET correct_answers = qh.correct_answers + flipped_count,
+          score_percentage = CASE WHEN qh.total_questions > 0
+            THEN ROUND((qh.correct_answers + flipped_count) * 100.0 / qh.total_questions)
+            ELSE 0 END
+      WHERE qh.id = history_id;
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT appeal.question_id, appeal.study_code_id, appeal.user_answer;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+-- Answer appeals: service role only
+REVOKE EXECUTE ON FUNCTION accept_answer_appeal(UUID, TEXT) FROM PUBLIC, anon;
+
+-- Function to drop cached verdicts for questions whose answer key changed
+CREATE OR REPLACE FUNCTION invalidate_evaluation_cache()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM evaluation_cache WHERE question_id = NEW.id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+CREATE TRIGGER questions_invalidate_evaluation_cache
+  AFTER UPDATE OF question, correct_answer, acceptable_variations, difficulty, writing_type ON questions
+  FOR EACH ROW
+  WHEN (OLD.question IS DISTINCT FROM NEW.question
+    OR OLD.correct_answer IS DISTINCT FROM NEW.correct_answer
+    OR OLD.acceptable_variations IS DISTINCT FROM NEW.acceptable_variations
+    OR OLD.difficulty IS DISTINCT FROM NEW.difficulty
+    OR OLD.writing_type IS DISTINCT FROM NEW.writing_type)
+  EXECUTE FUNCTION invalidate_evaluation_cache();
+
 -- Auto-update updated_at on units (reuses existing trigger function)
 CREATE TRIGGER units_updated_at
   BEFORE UPDATE ON units
@@ -361,40 +1171,44 @@ CREATE POLICY "anon_insert_study_codes"
     is_superuser = false
     AND admin_label IS NULL
     AND wrong_answer_countdown IS NULL
+    AND scheduler IS NULL
+    AND total_quizzes = 0
+    AND total_questions = 0
+    AND correct_answers = 0
   );
 
+-- Anon may only change display_name; aggregate stats are written by the server
 CREATE POLICY "anon_update_study_codes"
   ON study_codes FOR UPDATE
   TO anon
   USING (true);
 
--- Quiz history policies (SELECT + INSERT only)
+REVOKE UPDATE ON study_codes FROM anon;
+GRANT UPDATE (display_name) ON study_codes TO anon;
+
+-- Quiz history policies (SELECT only; results are recorded by quiz session routes via service role)
 CREATE POLICY "anon_select_quiz_history"
   ON quiz_history FOR SELECT
   TO anon
   USING (true);
 
-CREATE POLICY "anon_insert_quiz_history"
-  ON quiz_history FOR INSERT
-  TO anon
-  WITH CHECK (true);
-
--- Question results policies (SELECT + INSERT only)
+-- Question results policies (SELECT only; recorded by quiz session routes via service role)
 CREATE POLICY "anon_select_question_results"
   ON question_results FOR SELECT
   TO anon
   USING (true);
 
-CREATE POLICY "anon_insert_question_results"
-  ON question_results FOR INSERT
-  TO anon
-  WITH CHECK (true);
+-- Evaluation traces are for teachers and threshold tuning, not the public API. Answer keys
+-- (correct_answer, corrected_answer) would expose every question's key to anyone with the
+-- anon key; students get them for their own answers from the quiz session answer route.
+REVOKE SELECT ON question_results FROM anon;
+GRANT SELECT (id, quiz_history_id, study_code_id, question_id, topic, difficulty, is_correct,
+  user_answer, score, feedback, corrections, error_categories, rubric_scores, provisional,
+  teacher_grade, teacher_comment, attempted_at)
+  ON question_results TO anon;
 
--- Questions policies (read-only for anon; scripts use secret key for writes)
-CREATE POLICY "anon_select_questions"
-  ON questions FOR SELECT
-  TO anon
-  USING (true);
+-- Questions: no anon policies (answer keys are only readable via service role;
+-- the app serves questions through server-side quiz sessions)
 
 -- Batches policies (read-only for anon; scripts use secret key for writes)
 CREATE POLICY "anon_select_batches"
@@ -402,22 +1216,12 @@ CREATE POLICY "anon_select_batches"
   TO anon
   USING (true);
 
--- Leitner state policies (SELECT + INSERT + UPDATE; DELETE cascades from study_codes)
+-- Leitner state policies (SELECT only; updated by the quiz session answer route via service role)
 CREATE POLICY "anon_select_leitner_state"
   ON leitner_state FOR SELECT
   TO anon
   USING (true);
 
-CREATE POLICY "anon_insert_leitner_state"
-  ON leitner_state FOR INSERT
-  TO anon
-  WITH CHECK (true);
-
-CREATE POLICY "anon_update_leitner_state"
-  ON leitner_state FOR UPDATE
-  TO anon
-  USING (true);
-
 -- Units policies (read-only for anon; scripts use secret key for writes)
 CREATE POLICY "anon_select_units"
   ON units FOR SELECT
@@ -441,19 +1245,57 @@ COMMENT ON VIEW strong_topics IS 'Topics where student excels';
 COMMENT ON COLUMN study_codes.admin_label IS 'Optional label/identifier that admin can assign to a student. Not visible to students.';
 COMMENT ON COLUMN study_codes.is_superuser IS 'When true, user receives detailed evaluation metadata including confidence scores, similarity metrics, and which evaluation tier was used';
 COMMENT ON COLUMN study_codes.wrong_answer_countdown IS 'Per-user override for wrong answer countdown seconds. NULL = use global default from FEATURES.WRONG_ANSWER_COUNTDOWN_SECONDS';
+COMMENT ON COLUMN study_codes.total_questions IS 'Maintained by triggers on question_results (with correct_answers); total_quizzes by triggers on quiz_history. Run repair_study_code_stats() to fix drift';
+COMMENT ON COLUMN study_codes.scheduler IS 'Per-user spaced repetition scheduler (leitner, sm2). NULL = use deployment default from FEATURES.SCHEDULER';
 COMMENT ON COLUMN questions.requires_complete_sentence IS 'Advanced questions requiring full sentence responses';
+COMMENT ON COLUMN questions.evaluation_policy IS 'Partial evaluation policy for this question: accents (ignore/lenient/strict), punctuationSpacing (tolerant/strict), capitalization (ignore/strict), completeSentence (enforce requires_complete_sentence). Overrides the difficulty defaults; the student's class override (class_evaluation_policies) takes precedence. See src/lib/evaluation-policy.ts';
+COMMENT ON COLUMN questions.teacher_graded IS 'Typed answers to this question are held in the admin grading queue; the automated verdict is only a suggestion until a teacher grades it. Whole quiz modes can be teacher graded with TEACHER_GRADED_MODES. See src/lib/teacher-grading.ts';
 COMMENT ON COLUMN questions.content_hash IS 'MD5 hash of normalized question content for deduplication during regeneration';
 COMMENT ON COLUMN questions.batch_id IS 'Identifies which generation batch created this question (e.g., 2026-02-04_unit3)';
 COMMENT ON COLUMN questions.source_file IS 'Path to the markdown learning file used to generate this question';
 COMMENT ON COLUMN questions.generated_by IS 'Model ID that generated this question (e.g., claude-haiku-4-5-20251001). Per-question for multi-model support.';
 COMMENT ON COLUMN questions.quality_status IS 'Audit status: pending (awaiting audit, not served), active (serves to students), or flagged (excluded from quizzes)';
 COMMENT ON COLUMN questions.audit_metadata IS 'Stage 3 audit & remediation diagnostic snapshot: criteria results, suggested_difficulty, missing/invalid variations. Written by audit scripts alongside quality_status. Mistral applies difficulty relabeling + invalid variation removal.';
+COMMENT ON TABLE question_bank_version IS 'Single-row version counter for the questions table. Bumped by trigger on every change; the app re-checks it to invalidate its in-process question bank cache.';
+COMMENT ON TABLE rate_limit_hits IS 'Request timestamps for the shared sliding-window rate limiter. Expired hits are pruned per key by rate_limit_hit(). No anon RLS — only service role can access.';
+COMMENT ON COLUMN rate_limit_hits.key IS 'Policy key: <route>:<scope>:<id>, e.g. evaluate:ip:203.0.113.4 or evaluate:global';
 COMMENT ON TABLE batches IS 'Metadata for each question generation batch run. Tracks pipeline state, model, config, and results.';
 COMMENT ON COLUMN question_results.score IS 'Evaluation score 0-100. NULL for legacy data. MCQ/TF are always 0 or 100. Typed answers use fuzzy/API evaluation score.';
-COMMENT ON TABLE leitner_state IS 'Leitner spaced repetition box assignments per student per question';
-COMMENT ON COLUMN leitner_state.box IS 'Leitner box 1-5. Box 1 = most frequent review, Box 5 = mastered';
-COMMENT ON COLUMN leitner_state.consecutive_correct IS 'Number of consecutive correct answers. Resets to 0 on wrong answer.';
+COMMENT ON COLUMN question_results.evaluation_trace IS 'Evaluation trace: evaluationTier, levenshteinSimilarity/Threshold, matchedAgainst, matchedVariationIndex, claudeConfidence, modelUsed, cacheHit, correctnessBand, evaluationReason, secondOpinion, needsTeacherReview (graders disagreed, lenient verdict given, or answer flagged), inputFlags (instruction-like text in the answer, flagged_input tier), policyViolations (strict evaluation policy rules the answer broke). NULL for legacy data. Not readable with the anon key';
+COMMENT ON COLUMN question_results.error_categories IS 'Kinds of mistakes found by the error taxonomy (src/lib/error-taxonomy.ts): accent, elision, article_gender, adjective_agreement, negation, word_order, punctuation_spacing, conjugation. NULL = none found or legacy data';
+COMMENT ON COLUMN question_results.rubric_scores IS 'Rubric breakdown for open_ended and sentence_building answers graded by the Semantic API (src/lib/rubrics.ts): writingType, criteria (criterion, label, weight, level, maxLevel, descriptor, justification) and the weighted score. NULL for other question types, local tiers and legacy data';
+COMMENT ON VIEW error_patterns IS 'Recurring mistake categories by student, from question_results.error_categories';
+COMMENT ON COLUMN question_results.provisional IS 'Verdict from the best fuzzy match because the Semantic API was unavailable (circuit breaker open or call failed). Cleared when scripts/db-finalize-provisional-results.ts re-grades it';
+COMMENT ON COLUMN question_results.teacher_grade IS 'pending = held in the teacher grading queue (score and is_correct are the automated suggestion, not counted as correct in quiz or study code totals until graded), graded = set by the teacher, NULL = graded automatically. Teacher-graded results are not re-graded after answer key changes';
+COMMENT ON COLUMN question_results.teacher_comment IS 'Comment left by the teacher when grading, shown on the student''s progress page';
+COMMENT ON COLUMN question_results.correct_answer IS 'Answer key at the time of grading. Not readable with the anon key (the quiz session answer route reveals it to the student who answered)';
+COMMENT ON COLUMN question_results.corrected_answer IS 'Corrected version of the student''s answer from the grader. Not readable with the anon key (returned by the quiz session answer route)';
+COMMENT ON COLUMN question_results.feedback IS 'Feedback shown to the student when the answer was graded. NULL for legacy data';
+COMMENT ON TABLE leitner_state IS 'Spaced repetition card state per student per question (Leitner or SM-2)';
+COMMENT ON COLUMN leitner_state.scheduler IS 'Scheduler that last updated this card (leitner, sm2)';
+COMMENT ON COLUMN leitner_state.box IS 'Leitner box 1-5 (derived from interval for SM-2). Box 1 = most frequent review, Box 5 = mastered';
+COMMENT ON COLUMN leitner_state.consecutive_correct IS 'Number of consecutive correct answers (SM-2 repetition count). Resets to 0 on wrong answer.';
+COMMENT ON COLUMN leitner_state.stability IS 'SM-2 current review interval in days. NULL for Leitner cards';
+COMMENT ON COLUMN leitner_state.difficulty IS 'SM-2 ease factor (>= 1.3, starts at 2.5). NULL for Leitner cards';
 COMMENT ON COLUMN leitner_state.last_reviewed IS 'When this question was last attempted';
+COMMENT ON COLUMN leitner_state.next_review_at IS 'When this question is next due (last_reviewed + box review interval). NULL = legacy row, treated as due';
+COMMENT ON TABLE quiz_sessions IS 'Server-side quiz sessions. Question IDs are fixed at start; answers are graded against keys that never reach the browser. No anon RLS — only service role can access.';
+COMMENT ON COLUMN quiz_sessions.quiz_history_id IS 'quiz_history row recorded when the session finished. NULL = unfinished or no study code';
+COMMENT ON COLUMN quiz_sessions.finished_at IS 'Set when the quiz is finished. NULL = in progress; finished sessions reject further answers';
+COMMENT ON TABLE quiz_session_answers IS 'First graded answer per question per quiz session. No anon RLS — only service role can access.';
+COMMENT ON COLUMN quiz_session_answers.provisional IS 'Provisional verdict (Semantic API unavailable); copied to question_results and finalized by scripts/db-finalize-provisional-results.ts';
+COMMENT ON COLUMN questions.answer_key_version IS 'Incremented by trigger whenever correct_answer, acceptable_variations or evaluation_policy change; question_results with an older version are re-graded by scripts/db-regrade-question-results.ts';
+COMMENT ON COLUMN question_results.answer_key_version IS 'Answer key version the verdict was graded against (set on insert, updated by re-grading). NULL = legacy, treated as stale';
+COMMENT ON TABLE question_result_regrades IS 'Audit trail of question_results verdicts changed by re-grading after an answer key change, and borderline results queued for the semantic tier. No anon RLS — only service role can access.';
+COMMENT ON COLUMN question_result_regrades.status IS 'applied (verdict changed), queued (borderline, awaiting semantic tier), unchanged (semantic tier kept the old verdict)';
+COMMENT ON TABLE answer_appeals IS 'Student appeals of answers graded wrong, with the recorded answer and evaluation trace. Accepting (accept_answer_appeal) adds the answer to acceptable_variations and flips the recorded result in one transaction; leitner_state is then replayed. No anon RLS — only service role can access.';
+COMMENT ON COLUMN answer_appeals.status IS 'pending (in the admin review queue), accepted, or rejected';
+COMMENT ON TABLE teacher_grades IS 'Typed answers held for a teacher''s grade, with the automated verdict as a suggestion. Filled by the quiz_session_answers_queue_teacher_grade trigger; graded with apply_teacher_grade, which updates the recorded answer and result (quiz score and study_codes totals follow). No anon RLS — only service role can access.';
+COMMENT ON COLUMN teacher_grades.status IS 'pending (in the admin grading queue) or graded';
+COMMENT ON TABLE evaluation_cache IS 'Cached Semantic API verdicts keyed by question, normalized answer hash, and evaluator version. Cleared per question when its answer key changes or by an admin. No anon RLS — only service role can access.';
+COMMENT ON COLUMN evaluation_cache.evaluator_version IS 'Model and prompt version that produced the verdict (e.g., claude-opus-4-6:prompt-v1). Entries from older versions are never read';
+COMMENT ON TABLE class_evaluation_policies IS 'Evaluation policy override per class, keyed by the study_codes.admin_label of its students, e.g. {"accents":"lenient","advanced":{"accents":"strict"}}. Applies to answers graded after a change (recorded answers are not re-graded); cached verdicts are keyed by the resolved policy. No anon RLS — only service role can access. See src/lib/class-evaluation-policies.ts';
+COMMENT ON COLUMN evaluation_cache.second_opinion IS 'Verdict from the second-opinion model (src/lib/second-opinion.ts) when claude_confidence was below the escalation threshold. The stored evaluation is the primary verdict; reconciliation runs per request';
 COMMENT ON TABLE learning_resources IS 'Learning resources (videos, articles, etc.) organized by unit and topic. Resource-type-agnostic for future extensibility.';
 COMMENT ON TABLE study_code_source_words IS 'Adjective/animal word pools for server-side study code generation. No anon RLS — only service role can access.';
 COMMENT ON COLUMN study_code_source_words.first_letter IS 'Generated column for efficient alliterative pair lookups';
@@ -577,10 +1419,7 @@ CREATE POLICY "anon_select_experiments"
   TO anon
   USING (true);
 
-CREATE POLICY "anon_select_experiment_questions"
-  ON experiment_questions FOR SELECT
-  TO anon
-  USING (true);
+-- experiment_questions: no anon policies (answer keys are only readable via service role)
 
 CREATE POLICY "anon_select_experiment_batches"
   ON experiment_batches FOR SELECT